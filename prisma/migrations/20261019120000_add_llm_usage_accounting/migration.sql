@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "totalCompletionTokens" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "totalCostUsd" DECIMAL(12,6) NOT NULL DEFAULT 0,
+ADD COLUMN     "totalPromptTokens" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "dialogs" ADD COLUMN     "totalCompletionTokens" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "totalCostUsd" DECIMAL(12,6) NOT NULL DEFAULT 0,
+ADD COLUMN     "totalPromptTokens" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "provider_logs" ADD COLUMN     "completionTokens" INTEGER,
+ADD COLUMN     "costUsd" DECIMAL(12,6),
+ADD COLUMN     "model" TEXT,
+ADD COLUMN     "promptTokens" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "provider_logs_model_createdAt_idx" ON "provider_logs"("model", "createdAt");
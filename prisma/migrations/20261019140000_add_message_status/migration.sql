@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "MessageStatus" AS ENUM ('COMPLETE', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN     "status" "MessageStatus" NOT NULL DEFAULT 'COMPLETE';
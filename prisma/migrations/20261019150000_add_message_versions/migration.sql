@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN     "previousVersionId" UUID,
+ADD COLUMN     "supersededAt" TIMESTAMP(3),
+ADD COLUMN     "preferencesBefore" JSONB;
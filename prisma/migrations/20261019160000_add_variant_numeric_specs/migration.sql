@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "car_variants" ADD COLUMN     "engineVolume" DOUBLE PRECISION,
+ADD COLUMN     "powerHp" INTEGER;
+
+-- Backfill from variant names, e.g. "2.8d AT (177 л.с.) 4WD"
+UPDATE "car_variants"
+SET "powerHp" = substring("name" from '\((\d+)\s*л\.с\.\)')::INTEGER
+WHERE "name" ~ '\(\d+\s*л\.с\.\)';
+
+UPDATE "car_variants"
+SET "engineVolume" = substring("name" from '^(\d+\.\d)')::DOUBLE PRECISION
+WHERE "name" ~ '^\d+\.\d';
+
+-- CreateIndex
+CREATE INDEX "car_variants_powerHp_idx" ON "car_variants"("powerHp");
+
+-- CreateIndex
+CREATE INDEX "car_variants_engineVolume_idx" ON "car_variants"("engineVolume");
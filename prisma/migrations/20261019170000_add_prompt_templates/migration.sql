@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "PromptStatus" AS ENUM ('DRAFT', 'PUBLISHED', 'ARCHIVED');
+
+-- AlterTable
+ALTER TABLE "provider_logs" ADD COLUMN     "promptVersions" JSONB;
+
+-- CreateTable
+CREATE TABLE "prompt_templates" (
+    "id" UUID NOT NULL,
+    "key" TEXT NOT NULL,
+    "language" "Language" NOT NULL,
+    "version" INTEGER NOT NULL,
+    "content" TEXT NOT NULL,
+    "status" "PromptStatus" NOT NULL DEFAULT 'DRAFT',
+    "comment" TEXT,
+    "createdBy" UUID,
+    "publishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "prompt_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "prompt_templates_key_language_version_key" ON "prompt_templates"("key", "language", "version");
+
+-- CreateIndex
+CREATE INDEX "prompt_templates_key_language_status_idx" ON "prompt_templates"("key", "language", "status");
+
+-- At most one published version per key and language
+CREATE UNIQUE INDEX "prompt_templates_published_key" ON "prompt_templates"("key", "language") WHERE "status" = 'PUBLISHED';
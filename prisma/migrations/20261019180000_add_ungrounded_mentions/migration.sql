@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "provider_logs" ADD COLUMN     "ungroundedMentions" TEXT[] DEFAULT ARRAY[]::TEXT[];
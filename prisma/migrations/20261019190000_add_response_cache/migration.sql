@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "provider_logs" ADD COLUMN     "cacheStatus" TEXT;
+
+-- CreateTable
+CREATE TABLE "response_cache" (
+    "id" UUID NOT NULL,
+    "key" TEXT NOT NULL,
+    "language" "Language" NOT NULL,
+    "message" TEXT NOT NULL,
+    "preferences" JSONB NOT NULL,
+    "promptVersions" JSONB NOT NULL,
+    "response" TEXT NOT NULL,
+    "extractedPreferences" JSONB NOT NULL,
+    "hits" INTEGER NOT NULL DEFAULT 0,
+    "lastHitAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "response_cache_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "response_cache_key_key" ON "response_cache"("key");
+
+-- CreateIndex
+CREATE INDEX "response_cache_expiresAt_idx" ON "response_cache"("expiresAt");
+
+-- CreateIndex
+CREATE INDEX "provider_logs_cacheStatus_createdAt_idx" ON "provider_logs"("cacheStatus", "createdAt");
@@ -0,0 +1,10 @@
+-- pgvector (available on Neon and most managed Postgres)
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- AlterTable
+ALTER TABLE "car_variants" ADD COLUMN     "descriptionEmbedding" vector,
+ADD COLUMN     "embeddingModel" TEXT,
+ADD COLUMN     "embeddingHash" TEXT;
+
+-- CreateIndex
+CREATE INDEX "car_variants_embeddingModel_idx" ON "car_variants"("embeddingModel");
@@ -2,6 +2,8 @@ import { Request, Response } from 'express';
 import { z } from 'zod';
 import { adminService } from './admin.service';
 import { logger } from '@/shared/utils/logger';
+import { AppError } from '@/shared/utils/errors';
+import { PROMPT_KEYS } from '@/modules/ai/ai.prompt-registry';
 
 // Validation schemas
 const paginationSchema = z.object({
@@ -17,10 +19,60 @@ const logsQuerySchema = z.object({
   kind: z.enum(['LLM', 'AUTO_DEV', 'MODERATION']).optional(),
   userId: z.string().uuid().optional(),
   dialogId: z.string().uuid().optional(),
+  ungrounded: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
   page: z.coerce.number().int().min(1).default(1),
   limit: z.coerce.number().int().min(1).max(100).default(100),
 });
 
+const usageQuerySchema = z.object({
+  groupBy: z.enum(['day', 'user', 'model']).default('day'),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const responseCacheQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const purgeResponseCacheSchema = z.object({
+  expired: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .default(false),
+});
+
+const promptLanguageSchema = z.enum(['RU', 'EN']);
+
+const promptsQuerySchema = z.object({
+  key: z.enum(PROMPT_KEYS).optional(),
+  language: promptLanguageSchema.optional(),
+  status: z.enum(['DRAFT', 'PUBLISHED', 'ARCHIVED']).optional(),
+});
+
+const promptContentSchema = z.string().trim().min(1).max(50_000);
+const promptCommentSchema = z.string().trim().max(500);
+
+const createPromptSchema = z.object({
+  key: z.enum(PROMPT_KEYS),
+  language: promptLanguageSchema,
+  content: promptContentSchema,
+  comment: promptCommentSchema.optional(),
+});
+
+const updatePromptSchema = z.object({
+  content: promptContentSchema.optional(),
+  comment: promptCommentSchema.nullable().optional(),
+});
+
+const rollbackPromptSchema = z.object({
+  key: z.enum(PROMPT_KEYS),
+  language: promptLanguageSchema,
+});
+
 export class AdminController {
   /**
    * GET /admin/users
@@ -223,14 +275,16 @@ export class AdminController {
   }
 
   /**
-   * GET /admin/logs
+   * GET /admin/logs?kind=&userId=&dialogId=&ungrounded=true|false
    * Get provider logs with filtering
    */
   async getLogs(req: Request, res: Response): Promise<void> {
     try {
-      const { kind, userId, dialogId, page, limit } = logsQuerySchema.parse(req.query);
+      const { kind, userId, dialogId, ungrounded, page, limit } = logsQuerySchema.parse(
+        req.query
+      );
 
-      const result = await adminService.getLogs(kind, userId, dialogId, page, limit);
+      const result = await adminService.getLogs(kind, userId, dialogId, page, limit, ungrounded);
 
       res.status(200).json(result);
     } catch (error) {
@@ -250,6 +304,96 @@ export class AdminController {
     }
   }
 
+  /**
+   * GET /admin/usage?groupBy=day|user|model&from=&to=
+   * LLM token usage and spend (default: last 30 days by day)
+   */
+  async getUsage(req: Request, res: Response): Promise<void> {
+    try {
+      const { groupBy, from, to } = usageQuerySchema.parse(req.query);
+
+      const rangeTo = to ?? new Date();
+      const rangeFrom = from ?? new Date(rangeTo.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+      const result = await adminService.getUsage(groupBy, rangeFrom, rangeTo);
+
+      res.status(200).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          error: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+        });
+        return;
+      }
+
+      logger.error({ error }, 'Failed to get usage');
+      res.status(500).json({
+        error: 'INTERNAL_ERROR',
+        message: 'Failed to get usage',
+      });
+    }
+  }
+
+  /**
+   * GET /admin/response-cache?from=&to=
+   * Response cache hit rate and most reused answers (default: last 30 days)
+   */
+  async getResponseCacheStats(req: Request, res: Response): Promise<void> {
+    try {
+      const { from, to } = responseCacheQuerySchema.parse(req.query);
+
+      const rangeTo = to ?? new Date();
+      const rangeFrom = from ?? new Date(rangeTo.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+      const result = await adminService.getResponseCacheStats(rangeFrom, rangeTo);
+
+      res.status(200).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          error: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+        });
+        return;
+      }
+
+      logger.error({ error }, 'Failed to get response cache stats');
+      res.status(500).json({
+        error: 'INTERNAL_ERROR',
+        message: 'Failed to get response cache stats',
+      });
+    }
+  }
+
+  /**
+   * DELETE /admin/response-cache?expired=true
+   * Purge cached answers (all, or only expired ones)
+   */
+  async purgeResponseCache(req: Request, res: Response): Promise<void> {
+    try {
+      const { expired } = purgeResponseCacheSchema.parse(req.query);
+
+      const deleted = await adminService.purgeResponseCache(expired);
+
+      res.status(200).json({ deleted });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({
+          error: 'VALIDATION_ERROR',
+          message: error.issues[0].message,
+        });
+        return;
+      }
+
+      logger.error({ error }, 'Failed to purge response cache');
+      res.status(500).json({
+        error: 'INTERNAL_ERROR',
+        message: 'Failed to purge response cache',
+      });
+    }
+  }
+
   /**
    * GET /admin/logs/:id
    * Get detailed log by ID
@@ -277,6 +421,189 @@ export class AdminController {
       });
     }
   }
+
+  /**
+   * GET /admin/prompts?key=&language=&status=
+   * List prompt template versions
+   */
+  async getPrompts(req: Request, res: Response): Promise<void> {
+    try {
+      const filters = promptsQuerySchema.parse(req.query);
+
+      const templates = await adminService.getPromptTemplates(filters);
+
+      res.status(200).json({ data: templates });
+    } catch (error) {
+      this.handlePromptError(res, error, 'Failed to get prompts');
+    }
+  }
+
+  /**
+   * GET /admin/prompts/active
+   * Prompts in use for every key and language (published or built-in)
+   */
+  async getActivePrompts(req: Request, res: Response): Promise<void> {
+    try {
+      const prompts = await adminService.getActivePrompts();
+
+      res.status(200).json({ data: prompts });
+    } catch (error) {
+      this.handlePromptError(res, error, 'Failed to get active prompts');
+    }
+  }
+
+  /**
+   * GET /admin/prompts/:id
+   * Get prompt template by ID
+   */
+  async getPrompt(req: Request, res: Response): Promise<void> {
+    try {
+      const id = (Array.isArray(req.params.id) ? req.params.id[0] : req.params.id)!;
+
+      const template = await adminService.getPromptTemplate(id);
+
+      if (!template) {
+        this.sendPromptNotFound(res);
+        return;
+      }
+
+      res.status(200).json(template);
+    } catch (error) {
+      this.handlePromptError(res, error, 'Failed to get prompt');
+    }
+  }
+
+  /**
+   * POST /admin/prompts
+   * Create a draft version of a prompt
+   */
+  async createPrompt(req: Request, res: Response): Promise<void> {
+    try {
+      const input = createPromptSchema.parse(req.body);
+
+      const template = await adminService.createPromptTemplate(input, req.user?.userId);
+
+      res.status(201).json(template);
+    } catch (error) {
+      this.handlePromptError(res, error, 'Failed to create prompt');
+    }
+  }
+
+  /**
+   * PUT /admin/prompts/:id
+   * Edit a draft
+   */
+  async updatePrompt(req: Request, res: Response): Promise<void> {
+    try {
+      const id = (Array.isArray(req.params.id) ? req.params.id[0] : req.params.id)!;
+      const input = updatePromptSchema.parse(req.body);
+
+      const template = await adminService.updatePromptTemplate(id, input);
+
+      if (!template) {
+        this.sendPromptNotFound(res);
+        return;
+      }
+
+      res.status(200).json(template);
+    } catch (error) {
+      this.handlePromptError(res, error, 'Failed to update prompt');
+    }
+  }
+
+  /**
+   * DELETE /admin/prompts/:id
+   * Delete a draft
+   */
+  async deletePrompt(req: Request, res: Response): Promise<void> {
+    try {
+      const id = (Array.isArray(req.params.id) ? req.params.id[0] : req.params.id)!;
+
+      const success = await adminService.deletePromptTemplate(id);
+
+      if (!success) {
+        this.sendPromptNotFound(res);
+        return;
+      }
+
+      res.status(200).json({
+        message: 'Prompt draft deleted successfully',
+      });
+    } catch (error) {
+      this.handlePromptError(res, error, 'Failed to delete prompt');
+    }
+  }
+
+  /**
+   * POST /admin/prompts/:id/publish
+   * Make this version active (the previous one is archived)
+   */
+  async publishPrompt(req: Request, res: Response): Promise<void> {
+    try {
+      const id = (Array.isArray(req.params.id) ? req.params.id[0] : req.params.id)!;
+
+      const template = await adminService.publishPromptTemplate(id);
+
+      if (!template) {
+        this.sendPromptNotFound(res);
+        return;
+      }
+
+      res.status(200).json(template);
+    } catch (error) {
+      this.handlePromptError(res, error, 'Failed to publish prompt');
+    }
+  }
+
+  /**
+   * POST /admin/prompts/rollback
+   * Return a key and language to the previously published version (or the built-in)
+   */
+  async rollbackPrompt(req: Request, res: Response): Promise<void> {
+    try {
+      const { key, language } = rollbackPromptSchema.parse(req.body);
+
+      const active = await adminService.rollbackPrompt(key, language);
+
+      res.status(200).json(active);
+    } catch (error) {
+      this.handlePromptError(res, error, 'Failed to roll back prompt');
+    }
+  }
+
+  private sendPromptNotFound(res: Response): void {
+    res.status(404).json({
+      error: 'PROMPT_NOT_FOUND',
+      message: 'Prompt template not found',
+    });
+  }
+
+  /**
+   * Validation (400) and draft-only / nothing-to-roll-back (409) errors of prompt endpoints
+   */
+  private handlePromptError(res: Response, error: unknown, message: string): void {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'VALIDATION_ERROR',
+        message: error.issues[0].message,
+      });
+      return;
+    }
+
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        error: error.statusCode === 409 ? 'PROMPT_CONFLICT' : 'VALIDATION_ERROR',
+        message: error.message,
+      });
+      return;
+    }
+
+    logger.error({ error }, message);
+    res.status(500).json({
+      error: 'INTERNAL_ERROR',
+      message,
+    });
+  }
 }
 
 export const adminController = new AdminController();
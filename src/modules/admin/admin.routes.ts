@@ -35,4 +35,27 @@ router.get('/dialogs/:id/export', (req, res) => adminController.exportDialog(req
 router.get('/logs', (req, res) => adminController.getLogs(req, res));
 router.get('/logs/:id', (req, res) => adminController.getLogDetails(req, res));
 
+/**
+ * LLM usage & spend
+ */
+router.get('/usage', (req, res) => adminController.getUsage(req, res));
+
+/**
+ * Response cache
+ */
+router.get('/response-cache', (req, res) => adminController.getResponseCacheStats(req, res));
+router.delete('/response-cache', (req, res) => adminController.purgeResponseCache(req, res));
+
+/**
+ * Prompt templates (static paths before /:id)
+ */
+router.get('/prompts', (req, res) => adminController.getPrompts(req, res));
+router.get('/prompts/active', (req, res) => adminController.getActivePrompts(req, res));
+router.post('/prompts', (req, res) => adminController.createPrompt(req, res));
+router.post('/prompts/rollback', (req, res) => adminController.rollbackPrompt(req, res));
+router.get('/prompts/:id', (req, res) => adminController.getPrompt(req, res));
+router.put('/prompts/:id', (req, res) => adminController.updatePrompt(req, res));
+router.delete('/prompts/:id', (req, res) => adminController.deletePrompt(req, res));
+router.post('/prompts/:id/publish', (req, res) => adminController.publishPrompt(req, res));
+
 export default router;
@@ -1,14 +1,42 @@
 import { prisma } from '@/shared/utils/prisma';
 import { logger } from '@/shared/utils/logger';
 import { hashPassword } from '@/shared/utils/password';
+import { BadRequestError, ConflictError } from '@/shared/utils/errors';
+import {
+  PROMPT_KEYS,
+  PROMPT_VARIABLES,
+  PromptKey,
+  findUnknownVariables,
+  getBuiltInPrompt,
+  promptRegistry,
+} from '@/modules/ai/ai.prompt-registry';
 import {
   UserListItem,
   DialogListItem,
   LogListItem,
   DialogExportFormat,
   PaginatedResponse,
+  UsageGroupBy,
+  UsageReport,
+  UsageReportItem,
+  ResponseCacheStats,
+  ActivePromptItem,
+  CreatePromptTemplateInput,
+  PromptLanguage,
+  PromptTemplateFilters,
+  UpdatePromptTemplateInput,
 } from './admin.types';
 
+/**
+ * Aggregated usage row before conversion (Prisma returns bigint/Decimal)
+ */
+interface UsageAggregate {
+  requests: number | bigint;
+  promptTokens: number | bigint | null;
+  completionTokens: number | bigint | null;
+  costUsd: { toString(): string } | number | null;
+}
+
 export class AdminService {
   /**
    * Get all users with pagination
@@ -28,6 +56,9 @@ export class AdminService {
           role: true,
           language: true,
           createdAt: true,
+          totalPromptTokens: true,
+          totalCompletionTokens: true,
+          totalCostUsd: true,
           dialog: {
             select: {
               id: true,
@@ -58,6 +89,8 @@ export class AdminService {
           createdAt: user.createdAt,
           dialogCount: user.dialog ? 1 : 0,
           messageCount,
+          totalTokens: user.totalPromptTokens + user.totalCompletionTokens,
+          totalCostUsd: Number(user.totalCostUsd),
         };
       })
     );
@@ -138,6 +171,8 @@ export class AdminService {
           messageCount: dialog._count.messages,
           lastMessageAt: lastMessage?.createdAt || null,
           createdAt: dialog.createdAt,
+          totalTokens: dialog.totalPromptTokens + dialog.totalCompletionTokens,
+          totalCostUsd: Number(dialog.totalCostUsd),
         };
       })
     );
@@ -175,6 +210,9 @@ export class AdminService {
             content: true,
             moderationStatus: true,
             blockedReason: true,
+            status: true,
+            supersededAt: true,
+            previousVersionId: true,
             createdAt: true,
           },
         },
@@ -229,6 +267,9 @@ export class AdminService {
           role: msg.role,
           content: msg.content,
           moderationStatus: msg.moderationStatus,
+          status: msg.status,
+          supersededAt: msg.supersededAt,
+          previousVersionId: msg.previousVersionId,
           createdAt: msg.createdAt,
         })),
         exportedAt: new Date(),
@@ -251,13 +292,14 @@ export class AdminService {
       }
 
       // CSV header
-      const header = 'ID,Role,Content,Moderation Status,Created At\n';
+      const header =
+        'ID,Role,Content,Moderation Status,Status,Superseded At,Previous Version ID,Created At\n';
 
       // CSV rows
       const rows = dialog.messages
         .map((msg) => {
           const content = msg.content.replace(/"/g, '""'); // Escape quotes
-          return `"${msg.id}","${msg.role}","${content}","${msg.moderationStatus}","${msg.createdAt.toISOString()}"`;
+          return `"${msg.id}","${msg.role}","${content}","${msg.moderationStatus}","${msg.status}","${msg.supersededAt?.toISOString() ?? ''}","${msg.previousVersionId ?? ''}","${msg.createdAt.toISOString()}"`;
         })
         .join('\n');
 
@@ -270,13 +312,15 @@ export class AdminService {
 
   /**
    * Get provider logs with filtering
+   * (ungrounded: only answers that did / didn't name cars missing from the search results)
    */
   async getLogs(
     kind?: string,
     userId?: string,
     dialogId?: string,
     page = 1,
-    limit = 100
+    limit = 100,
+    ungrounded?: boolean
   ): Promise<PaginatedResponse<LogListItem>> {
     const skip = (page - 1) * limit;
 
@@ -284,6 +328,7 @@ export class AdminService {
     if (kind) where.kind = kind;
     if (userId) where.userId = userId;
     if (dialogId) where.dialogId = dialogId;
+    if (ungrounded !== undefined) where.ungroundedMentions = { isEmpty: !ungrounded };
 
     const [logs, total] = await Promise.all([
       prisma.providerLog.findMany({
@@ -298,6 +343,8 @@ export class AdminService {
           dialogId: true,
           status: true,
           latencyMs: true,
+          ungroundedMentions: true,
+          cacheStatus: true,
           createdAt: true,
         },
       }),
@@ -315,6 +362,157 @@ export class AdminService {
     };
   }
 
+  /**
+   * Get LLM spend report grouped by day, user or model
+   * Only LLM logs with token usage are counted (tool-call logs are skipped)
+   */
+  async getUsage(groupBy: UsageGroupBy, from: Date, to: Date): Promise<UsageReport> {
+    const where = {
+      kind: 'LLM' as const,
+      promptTokens: { not: null },
+      createdAt: { gte: from, lt: to },
+    };
+    const sum = { promptTokens: true, completionTokens: true, costUsd: true } as const;
+
+    let items: UsageReportItem[];
+
+    if (groupBy === 'day') {
+      const rows = await prisma.$queryRaw<Array<UsageAggregate & { day: Date }>>`
+        SELECT date_trunc('day', "createdAt") AS "day",
+               COUNT(*) AS "requests",
+               SUM("promptTokens") AS "promptTokens",
+               SUM("completionTokens") AS "completionTokens",
+               SUM("costUsd") AS "costUsd"
+        FROM "provider_logs"
+        WHERE "kind" = 'LLM'
+          AND "promptTokens" IS NOT NULL
+          AND "createdAt" >= ${from}
+          AND "createdAt" < ${to}
+        GROUP BY 1
+        ORDER BY 1 DESC
+      `;
+
+      items = rows.map((row) =>
+        this.toUsageItem(row.day.toISOString().slice(0, 10), null, row)
+      );
+    } else if (groupBy === 'user') {
+      const groups = await prisma.providerLog.groupBy({
+        by: ['userId'],
+        where,
+        _count: { _all: true },
+        _sum: sum,
+      });
+
+      const userIds = groups.map((g) => g.userId).filter((id): id is string => !!id);
+      const users = await prisma.user.findMany({
+        where: { id: { in: userIds } },
+        select: { id: true, email: true },
+      });
+      const emails = new Map(users.map((u) => [u.id, u.email]));
+
+      items = groups.map((g) =>
+        this.toUsageItem(g.userId || 'unknown', g.userId ? emails.get(g.userId) || null : null, {
+          requests: g._count._all,
+          ...g._sum,
+        })
+      );
+    } else {
+      const groups = await prisma.providerLog.groupBy({
+        by: ['model'],
+        where,
+        _count: { _all: true },
+        _sum: sum,
+      });
+
+      items = groups.map((g) =>
+        this.toUsageItem(g.model || 'unknown', null, { requests: g._count._all, ...g._sum })
+      );
+    }
+
+    if (groupBy !== 'day') {
+      items.sort((a, b) => b.costUsd - a.costUsd);
+    }
+
+    const totals = items.reduce(
+      (acc, item) => ({
+        requests: acc.requests + item.requests,
+        promptTokens: acc.promptTokens + item.promptTokens,
+        completionTokens: acc.completionTokens + item.completionTokens,
+        totalTokens: acc.totalTokens + item.totalTokens,
+        costUsd: Math.round((acc.costUsd + item.costUsd) * 1_000_000) / 1_000_000,
+      }),
+      { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 }
+    );
+
+    return { groupBy, from, to, items, totals };
+  }
+
+  /**
+   * Response cache hit rate over a period, with the most reused answers
+   */
+  async getResponseCacheStats(from: Date, to: Date): Promise<ResponseCacheStats> {
+    const [groups, entries, topEntries] = await Promise.all([
+      prisma.providerLog.groupBy({
+        by: ['cacheStatus'],
+        where: { kind: 'LLM', cacheStatus: { not: null }, createdAt: { gte: from, lt: to } },
+        _count: { _all: true },
+      }),
+      prisma.responseCache.count({ where: { expiresAt: { gt: new Date() } } }),
+      prisma.responseCache.findMany({
+        where: { expiresAt: { gt: new Date() }, hits: { gt: 0 } },
+        orderBy: { hits: 'desc' },
+        take: 10,
+        select: { message: true, language: true, hits: true, lastHitAt: true, expiresAt: true },
+      }),
+    ]);
+
+    const count = (status: string) =>
+      groups.find((group) => group.cacheStatus === status)?._count._all ?? 0;
+    const hits = count('HIT');
+    const misses = count('MISS');
+
+    return {
+      from,
+      to,
+      hits,
+      misses,
+      hitRate: hits + misses > 0 ? Math.round((hits / (hits + misses)) * 10_000) / 10_000 : 0,
+      entries,
+      topEntries,
+    };
+  }
+
+  /**
+   * Delete cached answers (only expired ones with expiredOnly)
+   * @returns number of deleted entries
+   */
+  async purgeResponseCache(expiredOnly = false): Promise<number> {
+    const { count } = await prisma.responseCache.deleteMany({
+      where: expiredOnly ? { expiresAt: { lte: new Date() } } : {},
+    });
+
+    logger.info({ count, expiredOnly }, 'Response cache purged');
+    return count;
+  }
+
+  /**
+   * Convert aggregate (bigint/Decimal) to plain numbers
+   */
+  private toUsageItem(key: string, label: string | null, row: UsageAggregate): UsageReportItem {
+    const promptTokens = Number(row.promptTokens ?? 0);
+    const completionTokens = Number(row.completionTokens ?? 0);
+
+    return {
+      key,
+      label,
+      requests: Number(row.requests),
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      costUsd: Number(row.costUsd ?? 0),
+    };
+  }
+
   /**
    * Get detailed log by ID
    */
@@ -323,6 +521,224 @@ export class AdminService {
       where: { id: logId },
     });
   }
+
+  /**
+   * List prompt templates (newest versions first)
+   */
+  async getPromptTemplates(filters: PromptTemplateFilters) {
+    return await prisma.promptTemplate.findMany({
+      where: filters,
+      orderBy: [{ key: 'asc' }, { language: 'asc' }, { version: 'desc' }],
+    });
+  }
+
+  /**
+   * Prompts in use for every key and language: the published template or the built-in
+   */
+  async getActivePrompts(): Promise<ActivePromptItem[]> {
+    const published = await prisma.promptTemplate.findMany({
+      where: { status: 'PUBLISHED' },
+    });
+    const languages: PromptLanguage[] = ['RU', 'EN'];
+
+    return languages.flatMap((language) =>
+      PROMPT_KEYS.map((key) => {
+        const template = published.find((t) => t.key === key && t.language === language);
+
+        return {
+          key,
+          language,
+          version: template?.version ?? 0,
+          templateId: template?.id ?? null,
+          publishedAt: template?.publishedAt ?? null,
+          variables: PROMPT_VARIABLES[key],
+          content: template?.content ?? getBuiltInPrompt(key, language),
+        };
+      })
+    );
+  }
+
+  /**
+   * Get prompt template by ID
+   */
+  async getPromptTemplate(templateId: string) {
+    return await prisma.promptTemplate.findUnique({
+      where: { id: templateId },
+    });
+  }
+
+  /**
+   * Create a draft as the next version of its key and language
+   */
+  async createPromptTemplate(input: CreatePromptTemplateInput, createdBy?: string) {
+    this.assertKnownVariables(input.key as PromptKey, input.content);
+
+    const latest = await prisma.promptTemplate.aggregate({
+      where: { key: input.key, language: input.language },
+      _max: { version: true },
+    });
+
+    const template = await prisma.promptTemplate.create({
+      data: {
+        ...input,
+        version: (latest._max.version ?? 0) + 1,
+        createdBy,
+      },
+    });
+
+    logger.info(
+      { templateId: template.id, key: template.key, version: template.version },
+      'Prompt draft created by admin'
+    );
+    return template;
+  }
+
+  /**
+   * Edit a draft (published and archived versions are immutable)
+   */
+  async updatePromptTemplate(templateId: string, input: UpdatePromptTemplateInput) {
+    const template = await this.getDraft(templateId);
+    if (!template) {
+      return null;
+    }
+
+    if (input.content !== undefined) {
+      this.assertKnownVariables(template.key as PromptKey, input.content);
+    }
+
+    return await prisma.promptTemplate.update({
+      where: { id: templateId },
+      data: input,
+    });
+  }
+
+  /**
+   * Delete a draft
+   */
+  async deletePromptTemplate(templateId: string): Promise<boolean> {
+    const template = await this.getDraft(templateId);
+    if (!template) {
+      return false;
+    }
+
+    await prisma.promptTemplate.delete({ where: { id: templateId } });
+
+    logger.info({ templateId }, 'Prompt draft deleted by admin');
+    return true;
+  }
+
+  /**
+   * Publish a draft or an archived version; the published one for its key and language is archived
+   */
+  async publishPromptTemplate(templateId: string) {
+    const template = await prisma.promptTemplate.findUnique({ where: { id: templateId } });
+    if (!template) {
+      return null;
+    }
+    if (template.status === 'PUBLISHED') {
+      throw new ConflictError('Prompt version is already published');
+    }
+
+    const [, published] = await prisma.$transaction([
+      prisma.promptTemplate.updateMany({
+        where: { key: template.key, language: template.language, status: 'PUBLISHED' },
+        data: { status: 'ARCHIVED' },
+      }),
+      prisma.promptTemplate.update({
+        where: { id: templateId },
+        data: { status: 'PUBLISHED', publishedAt: new Date() },
+      }),
+    ]);
+
+    promptRegistry.invalidate();
+
+    logger.info(
+      { templateId, key: template.key, language: template.language, version: template.version },
+      'Prompt version published by admin'
+    );
+    return published;
+  }
+
+  /**
+   * Return a key and language to the version published before the current one
+   * (or to the built-in prompt if there is none).
+   * The restored version keeps its publishedAt, so repeated rollbacks walk back in time.
+   */
+  async rollbackPrompt(key: PromptKey, language: PromptLanguage): Promise<ActivePromptItem> {
+    const current = await prisma.promptTemplate.findFirst({
+      where: { key, language, status: 'PUBLISHED' },
+    });
+    if (!current) {
+      throw new ConflictError('No published version to roll back (the built-in prompt is in use)');
+    }
+
+    const previous = await prisma.promptTemplate.findFirst({
+      where: {
+        key,
+        language,
+        status: 'ARCHIVED',
+        publishedAt: current.publishedAt ? { lt: current.publishedAt } : { not: null },
+      },
+      orderBy: { publishedAt: 'desc' },
+    });
+
+    const [, restored = null] = await prisma.$transaction([
+      prisma.promptTemplate.update({
+        where: { id: current.id },
+        data: { status: 'ARCHIVED' },
+      }),
+      ...(previous
+        ? [
+            prisma.promptTemplate.update({
+              where: { id: previous.id },
+              data: { status: 'PUBLISHED' },
+            }),
+          ]
+        : []),
+    ]);
+
+    promptRegistry.invalidate();
+
+    logger.info(
+      { key, language, from: current.version, to: restored?.version ?? 0 },
+      'Prompt rolled back by admin'
+    );
+
+    return {
+      key,
+      language,
+      version: restored?.version ?? 0,
+      templateId: restored?.id ?? null,
+      publishedAt: restored?.publishedAt ?? null,
+      variables: PROMPT_VARIABLES[key],
+      content: restored?.content ?? getBuiltInPrompt(key, language),
+    };
+  }
+
+  /**
+   * Find a template that may still be changed (null if missing, conflict if not a draft)
+   */
+  private async getDraft(templateId: string) {
+    const template = await prisma.promptTemplate.findUnique({ where: { id: templateId } });
+
+    if (template && template.status !== 'DRAFT') {
+      throw new ConflictError(`Only drafts can be changed (this version is ${template.status})`);
+    }
+    return template;
+  }
+
+  /**
+   * Reject {{variables}} the prompt key doesn't provide
+   */
+  private assertKnownVariables(key: PromptKey, content: string): void {
+    const unknown = findUnknownVariables(key, content);
+
+    if (unknown.length > 0) {
+      throw new BadRequestError(
+        `Unknown variables for ${key}: ${unknown.join(', ')} (allowed: ${PROMPT_VARIABLES[key].join(', ') || 'none'})`
+      );
+    }
+  }
 }
 
 // Export singleton instance
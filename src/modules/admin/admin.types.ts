@@ -11,6 +11,8 @@ export interface UserListItem {
   createdAt: Date;
   dialogCount: number;
   messageCount: number;
+  totalTokens: number;
+  totalCostUsd: number;
 }
 
 export interface DialogListItem {
@@ -21,6 +23,46 @@ export interface DialogListItem {
   messageCount: number;
   lastMessageAt: Date | null;
   createdAt: Date;
+  totalTokens: number;
+  totalCostUsd: number;
+}
+
+export type UsageGroupBy = 'day' | 'user' | 'model';
+
+export interface UsageReportItem {
+  key: string; // ISO date, user ID or model name (depending on groupBy)
+  label: string | null; // User email for groupBy=user
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface UsageReport {
+  groupBy: UsageGroupBy;
+  from: Date;
+  to: Date;
+  items: UsageReportItem[];
+  totals: Omit<UsageReportItem, 'key' | 'label'>;
+}
+
+export interface ResponseCacheEntryItem {
+  message: string; // Normalized user message
+  language: string;
+  hits: number;
+  lastHitAt: Date | null;
+  expiresAt: Date;
+}
+
+export interface ResponseCacheStats {
+  from: Date;
+  to: Date;
+  hits: number; // Answers served from the cache
+  misses: number; // Cacheable questions answered by the LLM
+  hitRate: number; // hits / (hits + misses)
+  entries: number; // Cached answers that haven't expired
+  topEntries: ResponseCacheEntryItem[];
 }
 
 export interface LogListItem {
@@ -30,9 +72,44 @@ export interface LogListItem {
   dialogId: string | null;
   status: string | null;
   latencyMs: number | null;
+  ungroundedMentions: string[]; // Grounding check: cars named but not found by the search
+  cacheStatus: string | null; // Response cache: HIT, MISS or null (not cacheable)
   createdAt: Date;
 }
 
+export type PromptLanguage = 'RU' | 'EN';
+
+export interface PromptTemplateFilters {
+  key?: string;
+  language?: PromptLanguage;
+  status?: 'DRAFT' | 'PUBLISHED' | 'ARCHIVED';
+}
+
+export interface CreatePromptTemplateInput {
+  key: string;
+  language: PromptLanguage;
+  content: string;
+  comment?: string;
+}
+
+export interface UpdatePromptTemplateInput {
+  content?: string;
+  comment?: string | null;
+}
+
+/**
+ * Prompt currently used for a key and language
+ */
+export interface ActivePromptItem {
+  key: string;
+  language: PromptLanguage;
+  version: number; // 0 = built-in prompt from code
+  templateId: string | null;
+  publishedAt: Date | null;
+  variables: readonly string[]; // {{variables}} the template may use
+  content: string;
+}
+
 export interface DialogExportFormat {
   dialog: {
     id: string;
@@ -50,6 +127,9 @@ export interface DialogExportFormat {
     role: string;
     content: string;
     moderationStatus: string;
+    status: string; // COMPLETE | CANCELLED
+    supersededAt: Date | null; // Replaced by regenerate / edit last
+    previousVersionId: string | null;
     createdAt: Date;
   }>;
   exportedAt: Date;
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { groupByModel, modelYears, selectDiverseModels } from './ai.diversity';
+import type { SearchResultForContext } from './ai.types';
+
+const car = (brand: string, model: string, variant = '2.0 AT', years: [number | null, number | null] = [2018, null]): SearchResultForContext => ({
+  brand,
+  model,
+  variant,
+  description: null,
+  yearFrom: years[0],
+  yearTo: years[1],
+  powerText: null,
+  kppText: null,
+  bodyType: null,
+});
+
+describe('groupByModel', () => {
+  it('should group sibling variants in the order of each model\'s best variant', () => {
+    const groups = groupByModel([
+      car('Kia', 'Sportage', '2.0 AT'),
+      car('Hyundai', 'Tucson'),
+      car('Kia', 'Sportage', '2.4 AT 4WD'),
+    ]);
+
+    expect(groups.map((group) => `${group.model}: ${group.variants.map((v) => v.variant).join(', ')}`)).toEqual([
+      'Sportage: 2.0 AT, 2.4 AT 4WD',
+      'Tucson: 2.0 AT',
+    ]);
+  });
+});
+
+describe('selectDiverseModels', () => {
+  const options = { maxModels: 3, maxPerBrand: 1, maxVariantsPerModel: 2 };
+
+  it('should not let one model take every slot', () => {
+    const groups = selectDiverseModels(
+      [
+        car('Toyota', 'Camry', '2.0 AT'),
+        car('Toyota', 'Camry', '2.5 AT'),
+        car('Toyota', 'Camry', '3.5 AT'),
+        car('Kia', 'K5'),
+      ],
+      options
+    );
+
+    expect(groups.map((group) => group.model)).toEqual(['Camry', 'K5']);
+    expect(groups[0].variants.map((v) => v.variant)).toEqual(['2.0 AT', '2.5 AT']);
+  });
+
+  it('should cap models per brand and fill the rest in rank order', () => {
+    const groups = selectDiverseModels(
+      [car('Toyota', 'Camry'), car('Toyota', 'RAV4'), car('Toyota', 'Corolla'), car('Kia', 'K5')],
+      options
+    );
+
+    expect(groups.map((group) => group.model)).toEqual(['Camry', 'RAV4', 'K5']);
+  });
+});
+
+describe('modelYears', () => {
+  it('should span every variant of a model', () => {
+    expect(modelYears([car('Kia', 'Rio', 'a', [2011, 2017]), car('Kia', 'Rio', 'b', [2015, 2020])])).toBe('2011-2020');
+    expect(modelYears([car('Kia', 'Rio', 'a', [2011, 2017]), car('Kia', 'Rio', 'b', [2017, null])])).toBe('2011+');
+    expect(modelYears([car('Kia', 'Rio', 'a', [null, null])])).toBe('н/д');
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Diverse RAG context: ranked search results come back as raw variants, so one model with
+ * many engine/gearbox combinations could fill every slot. Variants are grouped by model
+ * and the context gets several distinct models, with a cap per brand.
+ */
+
+import type { SearchResultForContext } from './ai.types';
+
+export interface DiversityOptions {
+  maxModels: number; // Entries in the context
+  maxPerBrand: number; // Models of one brand before other brands get a turn
+  maxVariantsPerModel: number; // Engine options listed for a model
+}
+
+export const DEFAULT_DIVERSITY: DiversityOptions = {
+  maxModels: 6,
+  maxPerBrand: 2,
+  maxVariantsPerModel: 3,
+};
+
+// One context entry: a model with its sibling variants, best first
+export interface ModelGroup {
+  brand: string;
+  model: string;
+  variants: SearchResultForContext[];
+}
+
+/**
+ * Variants grouped by brand and model, in the order of each model's best variant
+ */
+export function groupByModel(results: SearchResultForContext[]): ModelGroup[] {
+  const groups = new Map<string, ModelGroup>();
+
+  for (const result of results) {
+    const key = `${result.brand}|${result.model}`.toLowerCase();
+    const group = groups.get(key);
+
+    if (group) {
+      group.variants.push(result);
+    } else {
+      groups.set(key, { brand: result.brand, model: result.model, variants: [result] });
+    }
+  }
+
+  return [...groups.values()];
+}
+
+/**
+ * Best models under the per-brand cap. The cap only reorders: if other brands
+ * can't fill the context ("только Тойота"), the skipped models fill it in rank order.
+ */
+export function selectDiverseModels(
+  results: SearchResultForContext[],
+  options: DiversityOptions = DEFAULT_DIVERSITY
+): ModelGroup[] {
+  const groups = groupByModel(results);
+  const selected = new Set<ModelGroup>();
+  const perBrand = new Map<string, number>();
+
+  for (const group of groups) {
+    if (selected.size >= options.maxModels) break;
+
+    const brand = group.brand.toLowerCase();
+    const count = perBrand.get(brand) || 0;
+    if (count < options.maxPerBrand) {
+      selected.add(group);
+      perBrand.set(brand, count + 1);
+    }
+  }
+
+  for (const group of groups) {
+    if (selected.size >= options.maxModels) break;
+    selected.add(group);
+  }
+
+  return groups
+    .filter((group) => selected.has(group))
+    .map((group) => ({ ...group, variants: group.variants.slice(0, options.maxVariantsPerModel) }));
+}
+
+/**
+ * Distinct non-empty values in order ("AT, CVT")
+ */
+export function distinctValues(values: Array<string | null | undefined>): string[] {
+  return [...new Set(values.filter((value): value is string => !!value))];
+}
+
+/**
+ * Production years of a model across its variants ("2015+" if any is still produced)
+ */
+export function modelYears(variants: SearchResultForContext[]): string {
+  const from = variants
+    .map((variant) => variant.yearFrom)
+    .filter((year): year is number => year !== null);
+
+  if (from.length === 0) {
+    return 'н/д';
+  }
+
+  const yearFrom = Math.min(...from);
+  const to = variants.filter((variant) => variant.yearFrom !== null).map((variant) => variant.yearTo);
+
+  return to.some((year) => year === null)
+    ? `${yearFrom}+`
+    : `${yearFrom}-${Math.max(...(to as number[]))}`;
+}
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  buildCarVocabulary,
+  checkGrounding,
+  findCarMentions,
+  selectRecommendedCars,
+  GroundingValidator,
+} from './ai.grounding';
+import type { SearchResultForContext } from './ai.types';
+import { prisma } from '@/shared/utils/prisma';
+
+vi.mock('@/shared/utils/prisma', () => ({
+  prisma: {
+    carBrand: { findMany: vi.fn() },
+  },
+}));
+
+const vocabulary = buildCarVocabulary([
+  { name: 'Toyota', models: ['Land Cruiser', 'Land Cruiser Prado', 'Camry'] },
+  { name: 'Ford', models: ['Focus'] },
+  { name: 'Lada', models: ['Vesta'] },
+]);
+
+describe('findCarMentions', () => {
+  it('should read a model only right after its brand', () => {
+    expect(findCarMentions('Toyota Land Cruiser Prado и тойота Camry', vocabulary)).toEqual([
+      'Toyota Camry',
+      'Toyota Land Cruiser Prado',
+    ]);
+    expect(findCarMentions('Главное — focus на надёжности', vocabulary)).toEqual([]);
+    expect(findCarMentions('Ford хорош, Focus тоже', vocabulary)).toEqual(['Ford']);
+  });
+
+  it('should count brand names that are ordinary words only with a model', () => {
+    const withSmart = buildCarVocabulary([
+      { name: 'Smart', models: ['Fortwo'] },
+      { name: 'MINI', models: ['Cooper', 'Countryman'] },
+    ]);
+
+    expect(
+      findCarMentions('A compact SUV is a smart choice, and a mini crossover is easy to park.', withSmart)
+    ).toEqual([]);
+    expect(findCarMentions('Consider the Mini Cooper or a Smart Fortwo.', withSmart)).toEqual([
+      'MINI Cooper',
+      'Smart Fortwo',
+    ]);
+  });
+
+  it('should keep one spelling for catalog brands that have aliases', () => {
+    expect(findCarMentions('Лада Vesta или LADA', vocabulary)).toEqual(['LADA Vesta']);
+  });
+});
+
+describe('checkGrounding', () => {
+  it('should ground mentions by search results case-insensitively, and brands by any of their cars', () => {
+    const check = checkGrounding(
+      'TOYOTA CAMRY, Toyota Land Cruiser или другой Toyota',
+      [{ brand: 'Toyota', model: 'Camry' }],
+      [],
+      vocabulary
+    );
+
+    expect(check.mentions).toEqual(['Toyota Camry', 'Toyota Land Cruiser']);
+    expect(check.ungrounded).toEqual(['Toyota Land Cruiser']);
+  });
+
+  it('should not flag cars the user named earlier', () => {
+    const check = checkGrounding('Про Ford Focus: в базе его нет', [], ['А ford focus есть?'], vocabulary);
+
+    expect(check.ungrounded).toEqual([]);
+  });
+});
+
+describe('selectRecommendedCars', () => {
+  const result = (id: string | undefined, model: string, variant: string): SearchResultForContext => ({
+    id,
+    brand: 'Toyota',
+    model,
+    variant,
+    description: null,
+    yearFrom: 2018,
+    yearTo: null,
+    powerText: null,
+    kppText: null,
+    bodyType: null,
+  });
+  const results = [
+    result('camry-20', 'Camry', '2.0 AT'),
+    result('camry-25', 'Camry', '2.5 AT'),
+    result('lc-40', 'Land Cruiser', '4.0 AT'),
+    result(undefined, 'Land Cruiser', '4.5 AT'),
+  ];
+
+  it('should keep variants of the named models that have catalog IDs', () => {
+    const cars = selectRecommendedCars('Смотрите Toyota Land Cruiser', ['Toyota Land Cruiser'], results);
+
+    expect(cars.map((car) => car.variantId)).toEqual(['lc-40']);
+  });
+
+  it('should narrow a model to the variants the answer names', () => {
+    const answer = 'Toyota Camry 2.5 AT или Toyota Land Cruiser';
+    const cars = selectRecommendedCars(answer, ['Toyota Camry', 'Toyota Land Cruiser'], results);
+
+    expect(cars.map((car) => car.variantId)).toEqual(['camry-25', 'lc-40']);
+  });
+
+  it('should not turn a brand mention into cards', () => {
+    expect(selectRecommendedCars('Toyota — хороший выбор', ['Toyota'], results)).toEqual([]);
+  });
+});
+
+describe('GroundingValidator', () => {
+  it('should check brands only when the catalog cannot be loaded', async () => {
+    vi.mocked(prisma.carBrand.findMany).mockRejectedValueOnce(new Error('db down'));
+    const validator = new GroundingValidator();
+
+    const check = await validator.check('Porsche Cayenne или Toyota', [{ brand: 'Toyota', model: 'Camry' }], []);
+
+    expect(check).toEqual({ mentions: ['Porsche', 'Toyota'], ungrounded: ['Porsche'] });
+  });
+
+  it('should cache the catalog vocabulary', async () => {
+    vi.mocked(prisma.carBrand.findMany).mockClear();
+    vi.mocked(prisma.carBrand.findMany).mockResolvedValue([
+      { name: 'Haval', models: [{ name: 'Jolion' }] },
+    ] as any);
+    const validator = new GroundingValidator();
+
+    expect((await validator.check('Haval Jolion', [], [])).mentions).toEqual(['Haval Jolion']);
+    await validator.check('Haval Jolion', [], []);
+
+    expect(prisma.carBrand.findMany).toHaveBeenCalledTimes(1);
+  });
+});
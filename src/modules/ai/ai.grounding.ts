@@ -0,0 +1,255 @@
+/**
+ * Post-generation grounding check: cars the answer names must come from the search results.
+ * Used after the stream finishes (flagged in ProviderLog) and by the offline evaluation.
+ */
+
+import { logger } from '@/shared/utils/logger';
+import { prisma } from '@/shared/utils/prisma';
+import { BRAND_ALIASES } from './brand-aliases';
+import type { RecommendedCar, SearchResultForContext } from './ai.types';
+
+// ============================================
+// VOCABULARY
+// ============================================
+
+// Brand names and aliases that are also ordinary words ("мини-кроссовер", "газ", "a smart choice"):
+// they count only when a catalog model follows ("Mini Cooper", "Smart Fortwo")
+const AMBIGUOUS_NAMES = new Set(['мини', 'газ', 'mini', 'smart']);
+
+export interface CatalogBrand {
+  name: string;
+  models: string[];
+}
+
+export interface CarVocabulary {
+  brands: Map<string, string>; // lowercase name or alias -> brand
+  models: Map<string, string[]>; // brand -> its model names, longest first
+  ambiguous: Set<string>; // Names that are brand mentions only with a model after them
+}
+
+/**
+ * Car names the detector looks for: catalog brands and models plus every known brand alias
+ */
+export function buildCarVocabulary(catalog: CatalogBrand[]): CarVocabulary {
+  const brands = new Map<string, string>();
+  const models = new Map<string, string[]>();
+
+  for (const [alias, brand] of BRAND_ALIASES) {
+    brands.set(alias, brand);
+    brands.set(brand.toLowerCase(), brand);
+  }
+
+  for (const brand of catalog) {
+    // One spelling per brand: "Lada" in the catalog joins the "LADA" aliases (compared case-insensitively)
+    const name = brands.get(brand.name.toLowerCase()) ?? brand.name;
+    brands.set(brand.name.toLowerCase(), name);
+
+    const names = [...(models.get(name) || []), ...brand.models];
+    models.set(name, [...new Set(names)].sort((a, b) => b.length - a.length));
+  }
+
+  const ambiguous = new Set([...brands.keys()].filter((name) => AMBIGUOUS_NAMES.has(name)));
+
+  return { brands, models, ambiguous };
+}
+
+const WORD_CHARS = 'а-яёa-z0-9';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Model name at the start of `text` (after whitespace), as a whole word
+ */
+function startsWithModel(text: string, model: string): boolean {
+  const pattern = new RegExp(`^\\s+${escapeRegExp(model.toLowerCase())}(?![${WORD_CHARS}])`);
+  return pattern.test(text);
+}
+
+/**
+ * Cars named in a text: "Brand Model" when a catalog model follows the brand name,
+ * "Brand" for a brand alone. Models are only looked up right after their brand:
+ * on their own, names like "Focus" or "Life" are ordinary words (so are "smart" and
+ * "mini" without a model).
+ */
+export function findCarMentions(text: string, vocabulary: CarVocabulary): string[] {
+  const lower = text.toLowerCase();
+  const withModel = new Set<string>();
+  const brandsOnly = new Set<string>();
+
+  for (const [name, brand] of vocabulary.brands) {
+    const pattern = new RegExp(
+      `(?<![${WORD_CHARS}])${escapeRegExp(name)}(?![${WORD_CHARS}])`,
+      'g'
+    );
+
+    for (const match of lower.matchAll(pattern)) {
+      const rest = lower.slice(match.index + match[0].length);
+      const model = (vocabulary.models.get(brand) || []).find((m) => startsWithModel(rest, m));
+
+      if (model) {
+        withModel.add(`${brand} ${model}`);
+      } else if (!vocabulary.ambiguous.has(name)) {
+        brandsOnly.add(brand);
+      }
+    }
+  }
+
+  const mentions = new Set(withModel);
+  for (const brand of brandsOnly) {
+    if (![...withModel].some((mention) => mention.startsWith(`${brand} `))) {
+      mentions.add(brand);
+    }
+  }
+
+  return [...mentions].sort();
+}
+
+// ============================================
+// CHECK
+// ============================================
+
+export interface GroundingCheck {
+  mentions: string[]; // Cars named in the answer
+  ungrounded: string[]; // Named but neither found by the search nor said by the user
+}
+
+// Anything that puts a car in front of the model: search results, decoded VINs
+export type GroundingSource = Pick<SearchResultForContext, 'brand' | 'model'>;
+
+/**
+ * Cars the answer names that the search didn't return. Names the user said themselves
+ * are not counted: "по Ferrari в базе ничего нет" echoes the request, it doesn't invent a car.
+ */
+export function checkGrounding(
+  answer: string,
+  sources: GroundingSource[],
+  userMessages: string[],
+  vocabulary: CarVocabulary
+): GroundingCheck {
+  const mentions = findCarMentions(answer, vocabulary);
+  const said = new Set(userMessages.flatMap((message) => findCarMentions(message, vocabulary)));
+  const grounded = new Set(
+    sources.flatMap((source) => [
+      `${source.brand} ${source.model}`.toLowerCase(),
+      source.brand.toLowerCase(),
+    ])
+  );
+
+  return {
+    mentions,
+    ungrounded: mentions.filter(
+      (mention) => !grounded.has(mention.toLowerCase()) && !said.has(mention)
+    ),
+  };
+}
+
+// ============================================
+// RECOMMENDED CARS
+// ============================================
+
+// More cards than this stop being a recommendation
+const MAX_RECOMMENDED_CARS = 6;
+
+export function toRecommendedCar(result: SearchResultForContext & { id: string }): RecommendedCar {
+  return {
+    variantId: result.id,
+    brand: result.brand,
+    model: result.model,
+    variant: result.variant,
+    yearFrom: result.yearFrom,
+    yearTo: result.yearTo,
+    bodyType: result.bodyType,
+    powerText: result.powerText,
+    kppText: result.kppText,
+    matches: result.matches,
+  };
+}
+
+/**
+ * Search results the answer recommends: variants of the models it names. When the answer
+ * also names variants of a model ("Camry 2.5 AT"), only those are kept.
+ */
+export function selectRecommendedCars(
+  answer: string,
+  mentions: string[],
+  results: SearchResultForContext[]
+): RecommendedCar[] {
+  const lower = answer.toLowerCase();
+  const named = new Set(mentions.map((mention) => mention.toLowerCase()));
+  const byModel = new Map<string, Array<SearchResultForContext & { id: string }>>();
+
+  for (const result of results) {
+    const key = `${result.brand} ${result.model}`.toLowerCase();
+    if (result.id && named.has(key)) {
+      byModel.set(key, [...(byModel.get(key) || []), result as SearchResultForContext & { id: string }]);
+    }
+  }
+
+  const cars: RecommendedCar[] = [];
+  for (const variants of byModel.values()) {
+    const mentioned = variants.filter((result) => lower.includes(result.variant.toLowerCase()));
+    cars.push(...(mentioned.length > 0 ? mentioned : variants).map(toRecommendedCar));
+  }
+
+  return cars.slice(0, MAX_RECOMMENDED_CARS);
+}
+
+// ============================================
+// VALIDATOR
+// ============================================
+
+// The catalog changes only on import: brands and models are reloaded this often
+const VOCABULARY_TTL_MS = 10 * 60_000;
+
+export class GroundingValidator {
+  private cache: { vocabulary: CarVocabulary; expiresAt: number } | null = null;
+
+  /**
+   * Check an answer against the cars the model was given.
+   * Never throws: without the catalog only brands (aliases) are checked.
+   */
+  async check(
+    answer: string,
+    sources: GroundingSource[],
+    userMessages: string[]
+  ): Promise<GroundingCheck> {
+    const vocabulary = await this.getVocabulary();
+    return checkGrounding(answer, sources, userMessages, vocabulary);
+  }
+
+  /**
+   * Drop the cached vocabulary
+   */
+  invalidate(): void {
+    this.cache = null;
+  }
+
+  private async getVocabulary(): Promise<CarVocabulary> {
+    if (this.cache && this.cache.expiresAt > Date.now()) {
+      return this.cache.vocabulary;
+    }
+
+    try {
+      const brands = await prisma.carBrand.findMany({
+        select: { name: true, models: { select: { name: true } } },
+      });
+
+      const vocabulary = buildCarVocabulary(
+        brands.map((brand) => ({
+          name: brand.name,
+          models: brand.models.map((model) => model.name),
+        }))
+      );
+      this.cache = { vocabulary, expiresAt: Date.now() + VOCABULARY_TTL_MS };
+      return vocabulary;
+    } catch (error) {
+      logger.error({ error }, 'Failed to load car vocabulary, checking brands only');
+      return buildCarVocabulary([]);
+    }
+  }
+}
+
+// Export singleton instance
+export const groundingValidator = new GroundingValidator();
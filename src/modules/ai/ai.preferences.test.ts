@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { loadPreferences, parsePreferencesJson, validatePreferences } from './ai.preferences';
+
+describe('parsePreferencesJson', () => {
+  it('should parse a valid JSON object', () => {
+    const { preferences, invalid } = parsePreferencesJson('{"marka":"Toyota","kpp":"AT"}');
+    expect(preferences).toEqual({ marka: ['Toyota'], kpp: ['AT'] });
+    expect(invalid).toHaveLength(0);
+  });
+
+  it('should tolerate markdown code fences', () => {
+    const { preferences } = parsePreferencesJson('```json\n{"bodyType":"sedan"}\n```');
+    expect(preferences).toEqual({ bodyType: ['sedan'] });
+  });
+
+  it('should report malformed JSON', () => {
+    const { preferences, invalid } = parsePreferencesJson('{invalid json}');
+    expect(Object.keys(preferences)).toHaveLength(0);
+    expect(invalid[0]).toMatchObject({ field: '*', reason: 'Invalid JSON' });
+  });
+
+  it('should extract all valid fields', () => {
+    const json = JSON.stringify({
+      marka: 'Toyota',
+      model: 'Camry',
+      country: 'Japan',
+      color: 'white',
+      power: '181 л.с.',
+      kpp: 'AT',
+      yearFrom: 2018,
+      yearTo: 2023,
+      bodyType: 'sedan',
+      budget: 2500000,
+    });
+    const { preferences, invalid } = parsePreferencesJson(json);
+
+    expect(preferences).toEqual({
+      marka: ['Toyota'],
+      model: 'Camry',
+      country: 'Japan',
+      color: 'white',
+      power: '181 л.с.',
+      kpp: ['AT'],
+      yearFrom: 2018,
+      yearTo: 2023,
+      bodyType: ['sedan'],
+      budget: 2500000,
+    });
+    expect(invalid).toHaveLength(0);
+  });
+});
+
+describe('validatePreferences', () => {
+  it('should keep valid fields and report invalid ones', () => {
+    const { preferences, invalid } = validatePreferences({
+      marka: 'BMW',
+      yearFrom: 2020,
+      yearTo: 'not_a_number',
+      kpp: 'automatic',
+    });
+
+    expect(preferences).toEqual({ marka: ['BMW'], yearFrom: 2020 });
+    expect(invalid.map((item) => item.field)).toEqual(['yearTo', 'kpp']);
+  });
+
+  it('should accept lists for multi-valued fields', () => {
+    const { preferences, invalid } = validatePreferences({
+      marka: ['Toyota', 'Mazda'],
+      kpp: ['AT', 'CVT'],
+      bodyType: [],
+    });
+
+    expect(preferences).toEqual({ marka: ['Toyota', 'Mazda'], kpp: ['AT', 'CVT'] });
+    expect(invalid).toHaveLength(0);
+  });
+
+  it('should coerce numeric strings', () => {
+    const { preferences } = validatePreferences({ yearFrom: '2019', budget: '1500000' });
+    expect(preferences).toEqual({ yearFrom: 2019, budget: 1500000 });
+  });
+
+  it('should skip null and empty values silently', () => {
+    const { preferences, invalid } = validatePreferences({ marka: null, model: '', color: 'red' });
+    expect(preferences).toEqual({ color: 'red' });
+    expect(invalid).toHaveLength(0);
+  });
+
+  it('should drop and report unknown fields', () => {
+    const { preferences, invalid } = validatePreferences({ marka: 'BMW', unknownField: 'value' });
+    expect(preferences).toEqual({ marka: ['BMW'] });
+    expect(invalid).toEqual([{ field: 'unknownField', value: 'value', reason: 'Unknown field' }]);
+  });
+
+  it('should reject non-object payloads', () => {
+    const { preferences, invalid } = validatePreferences(['Toyota']);
+    expect(preferences).toEqual({});
+    expect(invalid[0].field).toBe('*');
+  });
+});
+
+describe('loadPreferences', () => {
+  it('should upgrade single-value preferences saved before lists', () => {
+    expect(loadPreferences({ marka: 'Toyota', kpp: 'AT', yearFrom: 2018 })).toEqual({
+      marka: ['Toyota'],
+      kpp: ['AT'],
+      yearFrom: 2018,
+    });
+  });
+
+  it('should return empty preferences for missing data', () => {
+    expect(loadPreferences(null)).toEqual({});
+  });
+});
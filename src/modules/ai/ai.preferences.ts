@@ -0,0 +1,298 @@
+/**
+ * Structured preference extraction: after the answer is streamed, a separate
+ * JSON-mode call reads the conversation and returns the user's preferences,
+ * validated field by field against userPreferencesSchema
+ */
+
+import { z } from 'zod';
+import { prisma } from '@/shared/utils/prisma';
+import { logger } from '@/shared/utils/logger';
+import {
+  LLMChatResult,
+  LLMMessage,
+  LLMProvider,
+  LLMUsage,
+  MessageHistoryItem,
+  UserPreferences,
+} from './ai.types';
+import { PREFERENCE_EXTRACTION_PROMPT } from './ai.prompts';
+import { estimateUsage } from './ai.pricing';
+import { usageService } from './ai.usage';
+import { normalizeBrandName } from './brand-aliases';
+
+// ============================================
+// SCHEMA (source of the UserPreferences type)
+// ============================================
+
+export const KPP_VALUES = ['AT', 'MT', 'CVT', 'Robot', 'AMT'] as const;
+export const CURRENCY_VALUES = ['RUB', 'USD', 'EUR'] as const;
+
+const text = z.string().trim().min(1).max(100);
+const year = z.coerce.number().int().min(1900).max(2100);
+const horsepower = z.coerce.number().int().min(30).max(2000);
+const liters = z.coerce.number().min(0.5).max(10);
+
+/**
+ * Multi-valued field ("Тойота или Мазда"). A single string is accepted
+ * and wrapped: LLM output and preferences saved before lists were supported.
+ */
+function list<T extends z.ZodTypeAny>(item: T, max: number) {
+  return z.preprocess(
+    (value) => (typeof value === 'string' ? [value] : value),
+    z.array(item).min(1).max(max)
+  );
+}
+
+export const userPreferencesSchema = z.object({
+  marka: list(text, 10).optional(), // Brands (any of)
+  model: text.optional(), // Model
+  country: text.optional(), // Country of origin
+  color: text.optional(), // Color
+  power: text.optional(), // Engine power (HP), free text
+  powerFrom: horsepower.optional(), // Power from (HP)
+  powerTo: horsepower.optional(), // Power to (HP)
+  engineVolumeFrom: liters.optional(), // Engine volume from (liters)
+  engineVolumeTo: liters.optional(), // Engine volume to (liters)
+  kpp: list(z.enum(KPP_VALUES), KPP_VALUES.length).optional(), // Transmission types (any of)
+  yearFrom: year.optional(), // Year from
+  yearTo: year.optional(), // Year to
+  bodyType: list(text, 10).optional(), // Body types (sedan/hatchback/etc or Russian DB value)
+  budget: z.coerce.number().positive().optional(), // Budget
+  budgetCurrency: z.enum(CURRENCY_VALUES).optional(), // Currency of budget (RUB if not set)
+  // Exclusions ("только не Лада", "без вариатора")
+  excludedBrands: list(text, 20).optional(),
+  excludedBodyTypes: list(text, 10).optional(),
+  excludedKpp: list(z.enum(KPP_VALUES), KPP_VALUES.length).optional(),
+});
+
+// ============================================
+// VALIDATION
+// ============================================
+
+export interface InvalidPreferenceField {
+  field: string;
+  value: unknown;
+  reason: string;
+}
+
+export interface PreferenceValidationResult {
+  preferences: UserPreferences;
+  invalid: InvalidPreferenceField[];
+}
+
+/**
+ * Validate raw extracted preferences field by field:
+ * valid fields are kept, invalid and unknown ones are reported.
+ * null / empty values mean "not mentioned" and are skipped silently.
+ */
+export function validatePreferences(raw: unknown): PreferenceValidationResult {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return {
+      preferences: {},
+      invalid: [{ field: '*', value: raw, reason: 'Expected a JSON object' }],
+    };
+  }
+
+  const shape = userPreferencesSchema.shape;
+  const preferences: Record<string, unknown> = {};
+  const invalid: InvalidPreferenceField[] = [];
+
+  for (const [field, value] of Object.entries(raw)) {
+    if (
+      value === null ||
+      value === undefined ||
+      value === '' ||
+      (Array.isArray(value) && value.length === 0)
+    ) {
+      continue;
+    }
+
+    if (!(field in shape)) {
+      invalid.push({ field, value, reason: 'Unknown field' });
+      continue;
+    }
+
+    const result = shape[field as keyof typeof shape].safeParse(value);
+    if (result.success) {
+      preferences[field] = result.data;
+    } else {
+      invalid.push({
+        field,
+        value,
+        reason: result.error.issues.map((issue) => issue.message).join('; '),
+      });
+    }
+  }
+
+  return { preferences: preferences as UserPreferences, invalid };
+}
+
+/**
+ * Read preferences stored in User.preferences, upgrading older shapes
+ * (single-string brand/body type/KPP) and dropping anything invalid
+ */
+export function loadPreferences(raw: unknown): UserPreferences {
+  return raw ? validatePreferences(raw).preferences : {};
+}
+
+/**
+ * Parse model output (tolerates ```json fences some models add even in JSON mode)
+ */
+export function parsePreferencesJson(content: string): PreferenceValidationResult {
+  const json = content
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+
+  try {
+    return validatePreferences(JSON.parse(json));
+  } catch {
+    return {
+      preferences: {},
+      invalid: [{ field: '*', value: content, reason: 'Invalid JSON' }],
+    };
+  }
+}
+
+// ============================================
+// EXTRACTION
+// ============================================
+
+// Messages before the current turn given to the extractor
+const EXTRACTION_HISTORY_LIMIT = 6;
+
+export interface ExtractPreferencesParams {
+  userId: string;
+  dialogId: string;
+  userMessage: string;
+  assistantMessage: string;
+  messageHistory: MessageHistoryItem[];
+  signal?: AbortSignal;
+}
+
+export class PreferenceExtractor {
+  private provider: LLMProvider;
+
+  constructor(provider: LLMProvider) {
+    this.provider = provider;
+  }
+
+  /**
+   * Extract preferences stated in the latest turn (with a few messages of context).
+   * Never throws: on LLM or parse failure the turn simply yields no preferences.
+   */
+  async extract(params: ExtractPreferencesParams): Promise<UserPreferences> {
+    const { userId, dialogId } = params;
+    const startTime = Date.now();
+
+    const transcript = [
+      ...params.messageHistory.slice(-EXTRACTION_HISTORY_LIMIT),
+      { role: 'USER', content: params.userMessage },
+      { role: 'ASSISTANT', content: params.assistantMessage },
+    ]
+      .map((message) => `${message.role}: ${message.content}`)
+      .join('\n\n');
+
+    const messages: LLMMessage[] = [
+      { role: 'system', content: PREFERENCE_EXTRACTION_PROMPT },
+      {
+        role: 'user',
+        // Relative ages ("не старше 5 лет") are resolved against today's date
+        content: `TODAY: ${new Date().toISOString().slice(0, 10)}\n\nCONVERSATION:\n${transcript}`,
+      },
+    ];
+
+    try {
+      const stream = this.provider.streamChat({
+        messages,
+        temperature: 0,
+        maxTokens: 300,
+        responseFormat: 'json',
+        signal: params.signal,
+      });
+
+      let result: LLMChatResult;
+      while (true) {
+        const { value, done } = await stream.next();
+        if (done) {
+          result = value;
+          break;
+        }
+      }
+
+      const { preferences, invalid } = parsePreferencesJson(result.content);
+
+      if (invalid.length > 0) {
+        logger.warn({ userId, dialogId, invalid }, 'Invalid preference fields ignored');
+      }
+
+      if (preferences.marka) {
+        preferences.marka = preferences.marka.map(normalizeBrandName);
+      }
+      if (preferences.excludedBrands) {
+        preferences.excludedBrands = preferences.excludedBrands.map(normalizeBrandName);
+      }
+
+      await this.logExtraction(
+        userId,
+        dialogId,
+        messages,
+        result,
+        { preferences, invalid },
+        Date.now() - startTime
+      );
+
+      return preferences;
+    } catch (error) {
+      logger.warn({ error, userId, dialogId }, 'Failed to extract preferences');
+      return {};
+    }
+  }
+
+  /**
+   * Record usage and log the extraction call to database
+   */
+  private async logExtraction(
+    userId: string,
+    dialogId: string,
+    messages: LLMMessage[],
+    result: LLMChatResult,
+    validation: PreferenceValidationResult,
+    latencyMs: number
+  ): Promise<void> {
+    const usage: LLMUsage = result.usage ?? estimateUsage(messages, result.content);
+    const model = result.model ?? this.provider.model;
+
+    try {
+      const costUsd = await usageService.recordUsage({ userId, dialogId, model, usage });
+
+      await prisma.providerLog.create({
+        data: {
+          kind: 'LLM',
+          userId,
+          dialogId,
+          request: {
+            provider: result.provider ?? this.provider.name,
+            model,
+            messages,
+          } as any,
+          response: {
+            kind: 'PREFERENCES',
+            content: result.content,
+            preferences: validation.preferences,
+            invalid: validation.invalid,
+            usage,
+          } as any,
+          status: 'SUCCESS',
+          latencyMs,
+          model,
+          promptTokens: usage.promptTokens,
+          completionTokens: usage.completionTokens,
+          costUsd,
+        },
+      });
+    } catch (error) {
+      logger.error({ error }, 'Failed to log preference extraction');
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { getModelPrice, calculateCostUsd, estimateUsage, addUsage } from './ai.pricing';
+
+describe('getModelPrice', () => {
+  it('should find models with or without vendor prefix', () => {
+    expect(getModelPrice('deepseek-chat')).toEqual({ inputPerMillion: 0.27, outputPerMillion: 1.1 });
+    expect(getModelPrice('deepseek/deepseek-chat')).toEqual(getModelPrice('deepseek-chat'));
+    expect(getModelPrice('OpenAI/GPT-4o-mini')).toEqual(getModelPrice('gpt-4o-mini'));
+  });
+
+  it('should return null for unknown models', () => {
+    expect(getModelPrice('some-unknown-model')).toBeNull();
+  });
+});
+
+describe('calculateCostUsd', () => {
+  it('should price prompt and completion tokens separately', () => {
+    const cost = calculateCostUsd('deepseek-chat', {
+      promptTokens: 1_000_000,
+      completionTokens: 500_000,
+      totalTokens: 1_500_000,
+    });
+    expect(cost).toBeCloseTo(0.27 + 0.55, 6);
+  });
+
+  it('should round to 6 decimals', () => {
+    const cost = calculateCostUsd('gpt-4o-mini', {
+      promptTokens: 7,
+      completionTokens: 3,
+      totalTokens: 10,
+    });
+    expect(cost).toBe(0.000003);
+  });
+
+  it('should return 0 for free and unknown models', () => {
+    const usage = { promptTokens: 100, completionTokens: 100, totalTokens: 200 };
+    expect(calculateCostUsd('qwen3:8b', usage)).toBe(0);
+    expect(calculateCostUsd('some-unknown-model', usage)).toBe(0);
+  });
+});
+
+describe('estimateUsage', () => {
+  it('should estimate ~4 characters per token and mark as estimated', () => {
+    const usage = estimateUsage(
+      [
+        { role: 'system', content: 'a'.repeat(40) },
+        { role: 'user', content: 'b'.repeat(8) },
+      ],
+      'c'.repeat(10)
+    );
+
+    expect(usage).toEqual({ promptTokens: 12, completionTokens: 3, totalTokens: 15, estimated: true });
+  });
+});
+
+describe('addUsage', () => {
+  it('should sum usage of several rounds', () => {
+    const first = addUsage(undefined, { promptTokens: 10, completionTokens: 5, totalTokens: 15 });
+    const total = addUsage(first, { promptTokens: 20, completionTokens: 1, totalTokens: 21 });
+
+    expect(total).toEqual({ promptTokens: 30, completionTokens: 6, totalTokens: 36, estimated: undefined });
+  });
+
+  it('should keep the estimated flag if any round was estimated', () => {
+    const total = addUsage(
+      { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+      { promptTokens: 1, completionTokens: 1, totalTokens: 2, estimated: true }
+    );
+    expect(total.estimated).toBe(true);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * LLM token pricing and usage helpers
+ */
+
+import { logger } from '@/shared/utils/logger';
+import { LLMMessage, LLMUsage } from './ai.types';
+
+export interface ModelPrice {
+  inputPerMillion: number; // USD per 1M prompt tokens
+  outputPerMillion: number; // USD per 1M completion tokens
+}
+
+/**
+ * Price table, keyed by model name without vendor prefix
+ * ("deepseek/deepseek-chat" on OpenRouter → "deepseek-chat").
+ * Override or extend with LLM_PRICES='{"model":{"inputPerMillion":1,"outputPerMillion":2}}'.
+ */
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'deepseek-chat': { inputPerMillion: 0.27, outputPerMillion: 1.1 },
+  'deepseek-reasoner': { inputPerMillion: 0.55, outputPerMillion: 2.19 },
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  // Local / offline models are free
+  'qwen3:8b': { inputPerMillion: 0, outputPerMillion: 0 },
+  mock: { inputPerMillion: 0, outputPerMillion: 0 },
+};
+
+function loadPriceOverrides(): Record<string, ModelPrice> {
+  if (!process.env.LLM_PRICES) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(process.env.LLM_PRICES);
+  } catch (error) {
+    logger.warn({ error }, 'Invalid LLM_PRICES, using default price table');
+    return {};
+  }
+}
+
+const priceTable: Record<string, ModelPrice> = { ...MODEL_PRICES, ...loadPriceOverrides() };
+
+/**
+ * Find price for a model; null if the model is not in the table
+ */
+export function getModelPrice(model: string): ModelPrice | null {
+  const key = model.toLowerCase();
+  const withoutVendor = key.includes('/') ? key.slice(key.lastIndexOf('/') + 1) : key;
+
+  return priceTable[key] ?? priceTable[withoutVendor] ?? null;
+}
+
+/**
+ * Cost of a call in USD (0 for unknown models, with a warning)
+ */
+export function calculateCostUsd(model: string, usage: LLMUsage): number {
+  const price = getModelPrice(model);
+
+  if (!price) {
+    logger.warn({ model }, 'No price configured for LLM model');
+    return 0;
+  }
+
+  const cost =
+    (usage.promptTokens * price.inputPerMillion +
+      usage.completionTokens * price.outputPerMillion) /
+    1_000_000;
+
+  // Match DB precision: Decimal(12, 6)
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Rough token estimate (~4 characters per token for mixed RU/EN text)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Estimate usage for providers that don't report it
+ */
+export function estimateUsage(messages: LLMMessage[], completion: string): LLMUsage {
+  const promptTokens = messages.reduce(
+    (sum, message) =>
+      sum +
+      estimateTokens(message.content) +
+      (message.toolCalls || []).reduce((acc, call) => acc + estimateTokens(call.arguments), 0),
+    0
+  );
+  const completionTokens = estimateTokens(completion);
+
+  return {
+    promptTokens,
+    completionTokens,
+    totalTokens: promptTokens + completionTokens,
+    estimated: true,
+  };
+}
+
+/**
+ * Sum usage of several calls (e.g. tool-calling rounds of one turn)
+ */
+export function addUsage(a: LLMUsage | undefined, b: LLMUsage): LLMUsage {
+  if (!a) {
+    return { ...b };
+  }
+
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    estimated: a.estimated || b.estimated || undefined,
+  };
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  PromptRegistry,
+  findUnknownVariables,
+  getBuiltInPrompt,
+  renderPrompt,
+} from './ai.prompt-registry';
+import { RAG_NOT_SEARCHED_PROMPT, SYSTEM_PROMPT_EN, SYSTEM_PROMPT_RU } from './ai.prompts';
+import { prisma } from '@/shared/utils/prisma';
+
+vi.mock('@/shared/utils/prisma', () => ({
+  prisma: {
+    promptTemplate: { findMany: vi.fn().mockResolvedValue([]) },
+  },
+}));
+
+describe('renderPrompt', () => {
+  it('should substitute variables', () => {
+    expect(renderPrompt('Найдено: {{count}}, язык {{ language }}', { count: 3, language: 'RU' })).toBe(
+      'Найдено: 3, язык RU'
+    );
+  });
+
+  it('should leave variables without a value as they are', () => {
+    expect(renderPrompt('{{ragContext}}', {})).toBe('{{ragContext}}');
+  });
+
+  it('should not substitute inside inserted values', () => {
+    expect(renderPrompt('{{ragContext}} / {{count}}', { ragContext: '{{count}}', count: 1 })).toBe(
+      '{{count}} / 1'
+    );
+  });
+});
+
+describe('findUnknownVariables', () => {
+  it('should report variables the key does not provide', () => {
+    expect(findUnknownVariables('system', 'Язык: {{language}}, {{count}} и {{userName}}')).toEqual([
+      'count',
+      'userName',
+    ]);
+    expect(findUnknownVariables('rag.results', '{{count}}\n{{ragContext}}')).toEqual([]);
+  });
+});
+
+describe('PromptRegistry', () => {
+  beforeEach(() => {
+    vi.mocked(prisma.promptTemplate.findMany).mockReset().mockResolvedValue([]);
+  });
+
+  it('should fall back to built-in prompts (version 0)', async () => {
+    const prompts = await new PromptRegistry().getPrompts('EN');
+
+    expect(prompts.system).toEqual({ content: SYSTEM_PROMPT_EN, version: 0 });
+    expect(prompts['rag.not_searched']).toEqual({ content: RAG_NOT_SEARCHED_PROMPT, version: 0 });
+    expect(getBuiltInPrompt('system', 'RU')).toBe(SYSTEM_PROMPT_RU);
+  });
+
+  it('should prefer published templates', async () => {
+    vi.mocked(prisma.promptTemplate.findMany).mockResolvedValue([
+      { key: 'rag.no_results', content: 'Ничего не нашлось', version: 2 },
+      { key: 'obsolete.key', content: 'ignored', version: 1 },
+    ] as any);
+
+    const prompts = await new PromptRegistry().getPrompts('RU');
+
+    expect(prompts['rag.no_results']).toEqual({ content: 'Ничего не нашлось', version: 2 });
+    expect(prompts.system.version).toBe(0);
+    expect(prisma.promptTemplate.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { language: 'RU', status: 'PUBLISHED' } })
+    );
+  });
+
+  it('should cache templates until invalidated', async () => {
+    const registry = new PromptRegistry();
+
+    await registry.getPrompts('RU');
+    await registry.getPrompts('RU');
+    expect(prisma.promptTemplate.findMany).toHaveBeenCalledTimes(1);
+
+    registry.invalidate();
+    await registry.getPrompts('RU');
+    expect(prisma.promptTemplate.findMany).toHaveBeenCalledTimes(2);
+  });
+
+  it('should use built-ins when templates cannot be loaded', async () => {
+    vi.mocked(prisma.promptTemplate.findMany).mockRejectedValue(new Error('db down'));
+
+    const prompts = await new PromptRegistry().getPrompts('RU');
+
+    expect(prompts.system).toEqual({ content: SYSTEM_PROMPT_RU, version: 0 });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Prompt registry: system prompt and RAG status messages as versioned templates.
+ * The published PromptTemplate for a key and language wins; without one the
+ * built-in prompt from ai.prompts.ts is used (version 0)
+ */
+
+import { prisma } from '@/shared/utils/prisma';
+import { logger } from '@/shared/utils/logger';
+import {
+  RAG_NOT_SEARCHED_PROMPT,
+  RAG_NO_RESULTS_PROMPT,
+  RAG_RESULTS_PROMPT,
+  getSystemPrompt,
+} from './ai.prompts';
+import { MessageLanguage } from './language';
+
+// ============================================
+// KEYS & VARIABLES
+// ============================================
+
+export const PROMPT_KEYS = ['system', 'rag.results', 'rag.no_results', 'rag.not_searched'] as const;
+
+export type PromptKey = (typeof PROMPT_KEYS)[number];
+
+// Outcome of the database search this turn (selects the rag.* prompt)
+export type SearchStatus = 'results' | 'no_results' | 'not_searched';
+
+const COMMON_VARIABLES = ['language', 'searchStatus'] as const;
+
+/**
+ * {{variables}} each template may use. Anything else is rejected when an admin saves a
+ * template: an unknown variable would otherwise reach the model as literal "{{...}}"
+ */
+export const PROMPT_VARIABLES: Record<PromptKey, readonly string[]> = {
+  system: COMMON_VARIABLES,
+  'rag.results': [...COMMON_VARIABLES, 'count', 'ragContext'],
+  'rag.no_results': COMMON_VARIABLES,
+  'rag.not_searched': COMMON_VARIABLES,
+};
+
+const VARIABLE_PATTERN = /\{\{\s*([a-zA-Z]+)\s*\}\}/g;
+
+/**
+ * Built-in prompt for a key (RAG status messages are the same for both languages)
+ */
+export function getBuiltInPrompt(key: PromptKey, language: MessageLanguage): string {
+  switch (key) {
+    case 'system':
+      return getSystemPrompt(language);
+    case 'rag.results':
+      return RAG_RESULTS_PROMPT;
+    case 'rag.no_results':
+      return RAG_NO_RESULTS_PROMPT;
+    case 'rag.not_searched':
+      return RAG_NOT_SEARCHED_PROMPT;
+  }
+}
+
+/**
+ * Substitute {{variables}}; variables without a value are left as they are
+ */
+export function renderPrompt(
+  template: string,
+  variables: Record<string, string | number>
+): string {
+  return template.replace(VARIABLE_PATTERN, (match, name: string) =>
+    name in variables ? String(variables[name]) : match
+  );
+}
+
+/**
+ * Variables used in a template that are not allowed for its key
+ */
+export function findUnknownVariables(key: PromptKey, content: string): string[] {
+  const allowed = PROMPT_VARIABLES[key];
+  const used = Array.from(content.matchAll(VARIABLE_PATTERN), (match) => match[1]);
+
+  return [...new Set(used)].filter((name) => !allowed.includes(name));
+}
+
+// ============================================
+// REGISTRY
+// ============================================
+
+export interface ResolvedPrompt {
+  content: string;
+  version: number; // 0 = built-in
+}
+
+export type PromptSet = Record<PromptKey, ResolvedPrompt>;
+
+// How long published templates are cached; admin changes on another instance show up after this
+const PROMPT_CACHE_TTL_MS = Number(process.env.PROMPT_CACHE_TTL_MS) || 30_000;
+
+export class PromptRegistry {
+  private cache = new Map<MessageLanguage, { prompts: PromptSet; expiresAt: number }>();
+
+  /**
+   * Prompts for a language: published templates over built-ins.
+   * Never throws: if templates can't be loaded the built-in prompts are used.
+   */
+  async getPrompts(language: MessageLanguage): Promise<PromptSet> {
+    const cached = this.cache.get(language);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.prompts;
+    }
+
+    const prompts = this.getBuiltInPrompts(language);
+
+    try {
+      const published = await prisma.promptTemplate.findMany({
+        where: { language, status: 'PUBLISHED' },
+        select: { key: true, content: true, version: true },
+      });
+
+      for (const template of published) {
+        if ((PROMPT_KEYS as readonly string[]).includes(template.key)) {
+          prompts[template.key as PromptKey] = {
+            content: template.content,
+            version: template.version,
+          };
+        }
+      }
+
+      this.cache.set(language, { prompts, expiresAt: Date.now() + PROMPT_CACHE_TTL_MS });
+    } catch (error) {
+      logger.error({ error, language }, 'Failed to load prompt templates, using built-ins');
+    }
+
+    return prompts;
+  }
+
+  /**
+   * Drop cached templates (after publish / rollback)
+   */
+  invalidate(): void {
+    this.cache.clear();
+  }
+
+  private getBuiltInPrompts(language: MessageLanguage): PromptSet {
+    return Object.fromEntries(
+      PROMPT_KEYS.map((key) => [key, { content: getBuiltInPrompt(key, language), version: 0 }])
+    ) as PromptSet;
+  }
+}
+
+// Export singleton instance
+export const promptRegistry = new PromptRegistry();
@@ -0,0 +1,30 @@
+/**
+ * Shared LLM provider: configured backend (+ fallback) behind retries and a
+ * circuit breaker. Chat answers and summaries share the same breaker state.
+ */
+
+import { prisma } from '@/shared/utils/prisma';
+import { logger } from '@/shared/utils/logger';
+import { createResilientLLMProvider } from './providers/provider.factory';
+import { CircuitStateChange } from './providers/circuit-breaker';
+
+/**
+ * Log breaker state change to ProviderLog (fire-and-forget)
+ */
+function logBreakerStateChange(change: CircuitStateChange): void {
+  logger.warn(change, 'LLM circuit breaker state changed');
+
+  prisma.providerLog
+    .create({
+      data: {
+        kind: 'LLM',
+        request: { provider: change.provider, model: change.model } as any,
+        response: { kind: 'CIRCUIT_BREAKER', ...change } as any,
+        status: `CIRCUIT_${change.to}`,
+        model: change.model,
+      },
+    })
+    .catch((error) => logger.error({ error }, 'Failed to log circuit breaker state change'));
+}
+
+export const llmProvider = createResilientLLMProvider(logBreakerStateChange);
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { formatQuestionPlan, planQuestions, PlanningCandidate } from './ai.question-planner';
+
+const now = new Date('2026-06-01');
+
+const candidate = (overrides: Partial<PlanningCandidate>): PlanningCandidate => ({
+  brand: 'Toyota',
+  bodyType: 'Внедорожник',
+  kppText: 'AT',
+  yearFrom: 2020,
+  yearTo: null,
+  powerText: '150 л.с.',
+  ...overrides,
+});
+
+describe('planQuestions', () => {
+  it('should not ask about an attribute every candidate shares', () => {
+    const plan = planQuestions(
+      [
+        candidate({ brand: 'Toyota', kppText: 'AT' }),
+        candidate({ brand: 'Kia', kppText: 'MT' }),
+        candidate({ brand: 'Haval', kppText: 'AMT' }),
+        candidate({ brand: 'Mazda', kppText: 'CVT' }),
+      ],
+      {},
+      'RU',
+      now
+    );
+
+    expect(plan.questions.map((question) => question.attribute)).toEqual(['kpp', 'marka']);
+    expect(plan.settled).toContainEqual({ attribute: 'bodyType', value: 'Внедорожник' });
+  });
+
+  it('should prefer the attribute that splits the candidates most', () => {
+    const plan = planQuestions(
+      [
+        candidate({ bodyType: 'Седан' }),
+        candidate({ bodyType: 'Хэтчбек' }),
+        candidate({ bodyType: 'Внедорожник' }),
+        candidate({ bodyType: 'Седан', kppText: 'MT' }),
+      ],
+      { marka: ['Toyota'] },
+      'RU',
+      now
+    );
+
+    expect(plan.questions[0]).toMatchObject({
+      attribute: 'bodyType',
+      text: 'Какой тип кузова нужен: седан, внедорожник, хэтчбек?',
+    });
+  });
+
+  it('should treat door variants of a body type as one answer', () => {
+    const plan = planQuestions(
+      [
+        candidate({ brand: 'Toyota', bodyType: 'Внедорожник 5 дв.' }),
+        candidate({ brand: 'Suzuki', bodyType: 'Внедорожник 3 дв.' }),
+        candidate({ brand: 'Lada', bodyType: 'Внедорожник 3 дв.' }),
+      ],
+      {},
+      'RU',
+      now
+    );
+
+    expect(plan.questions.map((question) => question.attribute)).not.toContain('bodyType');
+    expect(plan.settled).toContainEqual({ attribute: 'bodyType', value: 'Внедорожник' });
+  });
+
+  it('should skip attributes the user already gave', () => {
+    const plan = planQuestions(
+      [candidate({ bodyType: 'Седан' }), candidate({ bodyType: 'Хэтчбек' })],
+      { bodyType: ['Седан'] },
+      'EN',
+      now
+    );
+
+    expect(plan.questions.map((question) => question.attribute)).not.toContain('bodyType');
+  });
+
+  it('should fall back to the budget when the catalog splits nothing', () => {
+    const plan = planQuestions([candidate({}), candidate({})], {}, 'EN', now);
+
+    expect(plan.questions).toEqual([{ attribute: 'budget', gain: 0, text: 'What is your budget?' }]);
+  });
+
+  it('should plan nothing without candidates', () => {
+    expect(planQuestions([], {}, 'RU', now).questions).toEqual([]);
+  });
+});
+
+describe('formatQuestionPlan', () => {
+  it('should pass the questions and what not to ask', () => {
+    const context = formatQuestionPlan(
+      {
+        questions: [{ attribute: 'kpp', gain: 1.5, text: 'Какая коробка передач удобнее: автомат, механика?' }],
+        settled: [{ attribute: 'bodyType', value: 'Внедорожник' }],
+      },
+      'RU'
+    );
+
+    expect(context).toContain('ЧТО УТОЧНИТЬ');
+    expect(context).toContain('— Какая коробка передач удобнее: автомат, механика?');
+    expect(context).toContain('Не спрашивай про тип кузова (у всех подходящих: Внедорожник).');
+  });
+
+  it('should be empty when there is nothing to ask', () => {
+    expect(formatQuestionPlan({ questions: [], settled: [] }, 'RU')).toBe('');
+  });
+});
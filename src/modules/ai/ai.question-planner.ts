@@ -0,0 +1,295 @@
+/**
+ * Clarifying-question planner: instead of always asking about brand, body, budget and year,
+ * look at the cars that still match and ask about the attributes that split them the most
+ * (information gain). If every candidate is an SUV, body type is not worth a question.
+ */
+
+import type { SearchResultForContext, UserPreferences } from './ai.types';
+import type { MessageLanguage } from './language';
+import { bodyTypeFamily } from './message-parser';
+
+// Questions per turn: more than two and users answer only the first
+export const MAX_QUESTIONS = 2;
+
+// Bits a question must be worth: below this the answer barely changes the shortlist
+const MIN_GAIN = 0.3;
+
+export type PlannedAttribute = 'bodyType' | 'kpp' | 'marka' | 'years' | 'power';
+
+// Candidate fields the planner reads
+export type PlanningCandidate = Pick<
+  SearchResultForContext,
+  'brand' | 'bodyType' | 'kppText' | 'yearFrom' | 'yearTo' | 'powerText'
+>;
+
+export interface ClarifyingQuestion {
+  attribute: PlannedAttribute | 'budget';
+  gain: number; // Bits of information the answer is expected to give (0 for budget: no prices in the catalog)
+  text: string;
+}
+
+export interface QuestionPlan {
+  questions: ClarifyingQuestion[]; // Best first, at most MAX_QUESTIONS
+  settled: Array<{ attribute: PlannedAttribute; value: string }>; // Same for every candidate: don't ask
+}
+
+// ============================================
+// ATTRIBUTE VALUES
+// ============================================
+
+type Bucket = string;
+
+/**
+ * Gearbox family of a catalog kppText (robot before manual: "AMT" contains "MT")
+ */
+function kppFamily(kppText: string): Bucket | undefined {
+  const kpp = kppText.toLowerCase();
+  if (/вариатор|cvt/.test(kpp)) return 'cvt';
+  if (/amt|робот|robot|dct|dsg/.test(kpp)) return 'robot';
+  if (/mt|механ/.test(kpp)) return 'manual';
+  if (/at|автомат/.test(kpp)) return 'automatic';
+  return undefined;
+}
+
+function ageBucket(candidate: PlanningCandidate, currentYear: number): Bucket | undefined {
+  if (!candidate.yearFrom) return undefined;
+
+  const age = currentYear - (candidate.yearTo ?? currentYear);
+  if (age <= 5) return 'recent';
+  if (age <= 10) return 'middle';
+  return 'old';
+}
+
+function powerBucket(powerText: string | null): Bucket | undefined {
+  const hp = Number(powerText?.match(/\d+/)?.[0]);
+  if (!hp) return undefined;
+  if (hp < 120) return 'low';
+  if (hp <= 180) return 'medium';
+  return 'high';
+}
+
+/**
+ * Which answer a candidate falls under (undefined: the catalog doesn't know)
+ */
+function bucketOf(
+  candidate: PlanningCandidate,
+  attribute: PlannedAttribute,
+  currentYear: number
+): Bucket | undefined {
+  switch (attribute) {
+    case 'bodyType':
+      // "Внедорожник 3 дв." and "Внедорожник 5 дв." are one answer to the question
+      return candidate.bodyType
+        ? (bodyTypeFamily(candidate.bodyType) ?? candidate.bodyType)
+        : undefined;
+    case 'kpp':
+      return candidate.kppText ? kppFamily(candidate.kppText) : undefined;
+    case 'marka':
+      return candidate.brand;
+    case 'years':
+      return ageBucket(candidate, currentYear);
+    case 'power':
+      return powerBucket(candidate.powerText);
+  }
+}
+
+/**
+ * Attributes the user hasn't settled yet
+ */
+function openAttributes(preferences: UserPreferences): PlannedAttribute[] {
+  const attributes: PlannedAttribute[] = [];
+
+  if (!preferences.bodyType?.length) attributes.push('bodyType');
+  if (!preferences.kpp?.length) attributes.push('kpp');
+  if (!preferences.marka?.length && !preferences.model) attributes.push('marka');
+  if (!preferences.yearFrom && !preferences.yearTo) attributes.push('years');
+  if (!preferences.power && preferences.powerFrom === undefined && preferences.powerTo === undefined) {
+    attributes.push('power');
+  }
+
+  return attributes;
+}
+
+// ============================================
+// QUESTION TEXTS
+// ============================================
+
+const VALUE_LABELS: Record<MessageLanguage, Partial<Record<PlannedAttribute, Record<Bucket, string>>>> = {
+  RU: {
+    kpp: { automatic: 'автомат', manual: 'механика', cvt: 'вариатор', robot: 'робот' },
+    years: { recent: 'не старше 5 лет', middle: '5–10 лет', old: 'старше 10 лет' },
+    power: { low: 'до 120 л.с.', medium: '120–180 л.с.', high: 'больше 180 л.с.' },
+  },
+  EN: {
+    kpp: { automatic: 'automatic', manual: 'manual', cvt: 'CVT', robot: 'robotized' },
+    years: { recent: 'up to 5 years old', middle: '5–10 years old', old: 'over 10 years old' },
+    power: { low: 'under 120 hp', medium: '120–180 hp', high: 'over 180 hp' },
+  },
+};
+
+const QUESTION_TEXTS: Record<MessageLanguage, Record<PlannedAttribute | 'budget', string>> = {
+  RU: {
+    bodyType: 'Какой тип кузова нужен: {{options}}?',
+    kpp: 'Какая коробка передач удобнее: {{options}}?',
+    marka: 'Какие марки рассматриваете: {{options}} или другие?',
+    years: 'Насколько свежий автомобиль нужен: не старше 5 лет, 5–10 лет или возраст не важен?',
+    power: 'Какая мощность нужна: до 120 л.с., 120–180 л.с. или больше?',
+    budget: 'Какой бюджет на покупку?',
+  },
+  EN: {
+    bodyType: 'Which body type do you need: {{options}}?',
+    kpp: 'Which transmission do you prefer: {{options}}?',
+    marka: 'Which brands are you considering: {{options}} or others?',
+    years: 'How new should the car be: up to 5 years old, 5–10 years, or doesn\'t matter?',
+    power: 'How much power do you need: under 120 hp, 120–180 hp, or more?',
+    budget: 'What is your budget?',
+  },
+};
+
+// Most common answers offered as options
+const MAX_OPTIONS = 3;
+
+function questionText(
+  attribute: PlannedAttribute | 'budget',
+  counts: Map<Bucket, number>,
+  language: MessageLanguage
+): string {
+  const labels = attribute === 'budget' ? undefined : VALUE_LABELS[language][attribute];
+  const options = [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, MAX_OPTIONS)
+    .map(([bucket]) => labels?.[bucket] ?? (attribute === 'bodyType' ? bucket.toLowerCase() : bucket));
+
+  return QUESTION_TEXTS[language][attribute].replace('{{options}}', options.join(', '));
+}
+
+// ============================================
+// PLANNING
+// ============================================
+
+/**
+ * Entropy (bits) of the answer, scaled by the share of candidates the catalog can place:
+ * cars with an unknown value stay on the shortlist whatever the user answers
+ */
+function informationGain(counts: Map<Bucket, number>, total: number): number {
+  const known = [...counts.values()].reduce((sum, count) => sum + count, 0);
+  if (known === 0) return 0;
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / known;
+    entropy -= p * Math.log2(p);
+  }
+
+  return entropy * (known / total);
+}
+
+/**
+ * The one or two questions that narrow the candidates most. Budget (the catalog has no
+ * prices) is asked only when no catalog attribute is worth a question.
+ */
+export function planQuestions(
+  candidates: PlanningCandidate[],
+  preferences: UserPreferences,
+  language: MessageLanguage,
+  now: Date = new Date()
+): QuestionPlan {
+  const currentYear = now.getFullYear();
+  const questions: ClarifyingQuestion[] = [];
+  const settled: QuestionPlan['settled'] = [];
+
+  if (candidates.length === 0) {
+    return { questions, settled };
+  }
+
+  for (const attribute of openAttributes(preferences)) {
+    const counts = new Map<Bucket, number>();
+    for (const candidate of candidates) {
+      const bucket = bucketOf(candidate, attribute, currentYear);
+      if (bucket !== undefined) {
+        counts.set(bucket, (counts.get(bucket) || 0) + 1);
+      }
+    }
+
+    if (counts.size === 1) {
+      settled.push({ attribute, value: [...counts.keys()][0] });
+      continue;
+    }
+
+    const gain = informationGain(counts, candidates.length);
+    if (gain >= MIN_GAIN) {
+      questions.push({
+        attribute,
+        gain: Math.round(gain * 100) / 100,
+        text: questionText(attribute, counts, language),
+      });
+    }
+  }
+
+  questions.sort((a, b) => b.gain - a.gain);
+
+  if (questions.length === 0 && !preferences.budget) {
+    questions.push({ attribute: 'budget', gain: 0, text: questionText('budget', new Map(), language) });
+  }
+
+  return { questions: questions.slice(0, MAX_QUESTIONS), settled };
+}
+
+const SETTLED_LABELS: Record<MessageLanguage, Record<PlannedAttribute, string>> = {
+  RU: {
+    bodyType: 'тип кузова',
+    kpp: 'коробку передач',
+    marka: 'марку',
+    years: 'возраст',
+    power: 'мощность',
+  },
+  EN: {
+    bodyType: 'body type',
+    kpp: 'transmission',
+    marka: 'brand',
+    years: 'age',
+    power: 'power',
+  },
+};
+
+/**
+ * Plan as an LLM instruction ('' when there is nothing to ask)
+ */
+export function formatQuestionPlan(plan: QuestionPlan, language: MessageLanguage): string {
+  if (plan.questions.length === 0) {
+    return '';
+  }
+
+  const settledValue = ({ attribute, value }: QuestionPlan['settled'][number]) =>
+    VALUE_LABELS[language][attribute]?.[value] ?? value;
+
+  if (language === 'EN') {
+    let context =
+      'WHAT TO ASK: these questions narrow the matching cars in the catalog the most. ' +
+      'If you ask clarifying questions, ask these (in your own words) and no others:\n';
+    context += plan.questions.map((question) => `- ${question.text}`).join('\n');
+    if (plan.settled.length > 0) {
+      context +=
+        '\nDo not ask about ' +
+        plan.settled
+          .map((item) => `${SETTLED_LABELS.EN[item.attribute]} (every matching car: ${settledValue(item)})`)
+          .join(', ') +
+        '.';
+    }
+    return context;
+  }
+
+  let context =
+    'ЧТО УТОЧНИТЬ: эти вопросы сильнее всего сужают список подходящих автомобилей в каталоге. ' +
+    'Если задаёшь уточняющие вопросы — задай эти (своими словами) и не добавляй другие:\n';
+  context += plan.questions.map((question) => `— ${question.text}`).join('\n');
+  if (plan.settled.length > 0) {
+    context +=
+      '\nНе спрашивай про ' +
+      plan.settled
+        .map((item) => `${SETTLED_LABELS.RU[item.attribute]} (у всех подходящих: ${settledValue(item)})`)
+        .join(', ') +
+      '.';
+  }
+  return context;
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { buildResponseCacheKey, hashPromptContent, normalizeCacheMessage } from './ai.response-cache';
+
+const input = {
+  message: 'Надёжные кроссоверы до 2 млн?',
+  language: 'RU' as const,
+  preferences: { bodyType: ['Внедорожник', 'Кроссовер'], budget: 2_000_000 },
+  promptVersions: { system: 3, 'rag.results': 1 },
+  promptHashes: { system: hashPromptContent('Ты помощник'), 'rag.results': hashPromptContent('Найдено') },
+};
+
+describe('normalizeCacheMessage', () => {
+  it('should ignore case, ё, punctuation and extra spaces', () => {
+    expect(normalizeCacheMessage('  Что лучше:  вариатор или АВТОМАТ?! ')).toBe(
+      'что лучше вариатор или автомат'
+    );
+    expect(normalizeCacheMessage('Надёжные')).toBe(normalizeCacheMessage('надежные'));
+  });
+});
+
+describe('buildResponseCacheKey', () => {
+  it('should give the same key for equivalent messages and preferences', () => {
+    expect(
+      buildResponseCacheKey({
+        ...input,
+        message: 'надежные кроссоверы, до 2 млн',
+        preferences: { budget: 2_000_000, bodyType: ['Кроссовер', 'Внедорожник'] },
+      })
+    ).toBe(buildResponseCacheKey(input));
+  });
+
+  it('should change with the preferences, language or prompt versions', () => {
+    const key = buildResponseCacheKey(input);
+
+    expect(buildResponseCacheKey({ ...input, preferences: { budget: 2_000_000 } })).not.toBe(key);
+    expect(buildResponseCacheKey({ ...input, language: 'EN' })).not.toBe(key);
+    expect(
+      buildResponseCacheKey({ ...input, promptVersions: { system: 4, 'rag.results': 1 } })
+    ).not.toBe(key);
+  });
+
+  it('should change when a built-in prompt is edited without a new version', () => {
+    const key = buildResponseCacheKey(input);
+
+    expect(
+      buildResponseCacheKey({
+        ...input,
+        promptHashes: { ...input.promptHashes, system: hashPromptContent('Ты опытный помощник') },
+      })
+    ).not.toBe(key);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Response cache for repeated first questions ("что лучше, вариатор или автомат?").
+ * An answer is reused when the normalized message, language, parsed preferences and
+ * prompts (version and content hash) all match, so a changed prompt or preference never
+ * serves a stale answer.
+ */
+
+import { createHash } from 'crypto';
+import { logger } from '@/shared/utils/logger';
+import { prisma } from '@/shared/utils/prisma';
+import type { UserPreferences } from './ai.types';
+import type { MessageLanguage } from './language';
+
+// How long a cached answer is served (catalog and prices change, answers shouldn't age forever)
+const RESPONSE_CACHE_TTL_MS = Number(process.env.RESPONSE_CACHE_TTL_MS) || 24 * 60 * 60 * 1000;
+
+export interface ResponseCacheKeyInput {
+  message: string;
+  language: MessageLanguage;
+  preferences: UserPreferences;
+  promptVersions: Record<string, number>;
+  promptHashes: Record<string, string>; // Built-ins are all version 0: an edited one changes only its hash
+}
+
+export interface CachedResponse {
+  content: string;
+  extractedPreferences: UserPreferences;
+}
+
+/**
+ * Short hash of a prompt template's text
+ */
+export function hashPromptContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex').slice(0, 8);
+}
+
+/**
+ * Message as it is compared: case, "ё", punctuation and extra spaces don't matter
+ */
+export function normalizeCacheMessage(message: string): string {
+  return message
+    .toLowerCase()
+    .replace(/ё/g, 'е')
+    .replace(/[^\p{L}\p{N}\s]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * JSON with sorted object keys and list values, so equal preferences give equal strings
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return JSON.stringify(value.map(canonicalJson).sort());
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export function buildResponseCacheKey(input: ResponseCacheKeyInput): string {
+  return createHash('sha256')
+    .update(
+      canonicalJson([
+        normalizeCacheMessage(input.message),
+        input.language,
+        input.preferences,
+        input.promptVersions,
+        input.promptHashes,
+      ])
+    )
+    .digest('hex');
+}
+
+export class ResponseCache {
+  /**
+   * Cached answer (null if missing or expired). Never throws.
+   */
+  async get(input: ResponseCacheKeyInput): Promise<CachedResponse | null> {
+    const key = buildResponseCacheKey(input);
+
+    try {
+      const entry = await prisma.responseCache.findUnique({
+        where: { key },
+        select: { response: true, extractedPreferences: true, expiresAt: true },
+      });
+
+      if (!entry || entry.expiresAt < new Date()) {
+        return null;
+      }
+
+      await prisma.responseCache.update({
+        where: { key },
+        data: { hits: { increment: 1 }, lastHitAt: new Date() },
+      });
+
+      return {
+        content: entry.response,
+        extractedPreferences: (entry.extractedPreferences || {}) as UserPreferences,
+      };
+    } catch (error) {
+      logger.error({ error }, 'Failed to read response cache');
+      return null;
+    }
+  }
+
+  /**
+   * Store an answer (replaces an expired entry with the same key). Never throws.
+   */
+  async set(input: ResponseCacheKeyInput, response: CachedResponse): Promise<void> {
+    const key = buildResponseCacheKey(input);
+    const data = {
+      language: input.language,
+      message: normalizeCacheMessage(input.message),
+      preferences: input.preferences as any,
+      promptVersions: input.promptVersions,
+      response: response.content,
+      extractedPreferences: response.extractedPreferences as any,
+      hits: 0,
+      lastHitAt: null,
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + RESPONSE_CACHE_TTL_MS),
+    };
+
+    try {
+      await prisma.responseCache.upsert({
+        where: { key },
+        create: { key, ...data },
+        update: data,
+      });
+    } catch (error) {
+      logger.error({ error }, 'Failed to write response cache');
+    }
+  }
+}
+
+// Export singleton instance
+export const responseCache = new ResponseCache();
@@ -1,20 +1,47 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { AIService } from './ai.service';
-import type { UserPreferences, SearchResultForContext } from './ai.types';
+import { getSystemPrompt } from './ai.prompts';
+import { MockLLMProvider } from './providers/mock.provider';
+import { LLMUnavailableError } from './providers/provider.errors';
+import { promptRegistry } from './ai.prompt-registry';
+import { groundingValidator } from './ai.grounding';
+import { prisma } from '@/shared/utils/prisma';
+import { carsService } from '@/modules/cars/cars.service';
+import type { UserPreferences, SearchResultForContext, MessageHistoryItem } from './ai.types';
+
+vi.mock('@/shared/utils/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: vi.fn().mockResolvedValue({ language: 'RU', preferences: {} }),
+      update: vi.fn().mockResolvedValue({}),
+    },
+    dialog: { update: vi.fn().mockResolvedValue({}) },
+    carVariant: { findMany: vi.fn().mockResolvedValue([]) },
+    providerLog: { create: vi.fn().mockResolvedValue({}) },
+    promptTemplate: { findMany: vi.fn().mockResolvedValue([]) },
+    carBrand: { findMany: vi.fn().mockResolvedValue([]) },
+    responseCache: {
+      findUnique: vi.fn().mockResolvedValue(null),
+      update: vi.fn().mockResolvedValue({}),
+      upsert: vi.fn().mockResolvedValue({}),
+    },
+    $transaction: vi.fn().mockResolvedValue([]),
+  },
+}));
 
 // Access private methods for testing via type assertion
-const service = new AIService();
+const service = new AIService(new MockLLMProvider());
 const svc = () => service as any;
 
 describe('AIService', () => {
   describe('hasEnoughPreferencesForSearch', () => {
     it('should return true with just marka', () => {
-      const prefs: UserPreferences = { marka: 'Toyota' };
+      const prefs: UserPreferences = { marka: ['Toyota'] };
       expect(svc().hasEnoughPreferencesForSearch(prefs)).toBe(true);
     });
 
     it('should return true with just bodyType', () => {
-      const prefs: UserPreferences = { bodyType: 'Седан' };
+      const prefs: UserPreferences = { bodyType: ['Седан'] };
       expect(svc().hasEnoughPreferencesForSearch(prefs)).toBe(true);
     });
 
@@ -24,7 +51,7 @@ describe('AIService', () => {
     });
 
     it('should return true with multiple key fields', () => {
-      const prefs: UserPreferences = { marka: 'BMW', bodyType: 'Седан', kpp: 'AT' };
+      const prefs: UserPreferences = { marka: ['BMW'], bodyType: ['Седан'], kpp: ['AT'] };
       expect(svc().hasEnoughPreferencesForSearch(prefs)).toBe(true);
     });
 
@@ -38,72 +65,6 @@ describe('AIService', () => {
     });
   });
 
-  describe('extractPreferences', () => {
-    it('should parse valid PREFERENCES block', () => {
-      const text =
-        'Some text\n[PREFERENCES]\n{"marka":"Toyota","kpp":"AT"}\n[/PREFERENCES]';
-      const prefs = svc().extractPreferences(text);
-      expect(prefs.marka).toBe('Toyota');
-      expect(prefs.kpp).toBe('AT');
-    });
-
-    it('should return empty object when no PREFERENCES block', () => {
-      const prefs = svc().extractPreferences('Just a normal response');
-      expect(Object.keys(prefs)).toHaveLength(0);
-    });
-
-    it('should handle malformed JSON gracefully', () => {
-      const text = '[PREFERENCES]\n{invalid json}\n[/PREFERENCES]';
-      const prefs = svc().extractPreferences(text);
-      expect(Object.keys(prefs)).toHaveLength(0);
-    });
-
-    it('should clean and validate preference types', () => {
-      const text =
-        '[PREFERENCES]\n{"marka":"BMW","yearFrom":2020,"yearTo":"not_a_number"}\n[/PREFERENCES]';
-      const prefs = svc().extractPreferences(text);
-      expect(prefs.marka).toBe('BMW');
-      expect(prefs.yearFrom).toBe(2020);
-      expect(prefs.yearTo).toBeUndefined();
-    });
-
-    it('should extract all valid fields', () => {
-      const json = JSON.stringify({
-        marka: 'Toyota',
-        model: 'Camry',
-        country: 'Japan',
-        color: 'white',
-        power: '181 л.с.',
-        kpp: 'AT',
-        yearFrom: 2018,
-        yearTo: 2023,
-        bodyType: 'sedan',
-        budget: 2500000,
-      });
-      const text = `Response text\n[PREFERENCES]\n${json}\n[/PREFERENCES]`;
-      const prefs = svc().extractPreferences(text);
-
-      expect(prefs.marka).toBe('Toyota');
-      expect(prefs.model).toBe('Camry');
-      expect(prefs.country).toBe('Japan');
-      expect(prefs.color).toBe('white');
-      expect(prefs.power).toBe('181 л.с.');
-      expect(prefs.kpp).toBe('AT');
-      expect(prefs.yearFrom).toBe(2018);
-      expect(prefs.yearTo).toBe(2023);
-      expect(prefs.bodyType).toBe('sedan');
-      expect(prefs.budget).toBe(2500000);
-    });
-
-    it('should ignore unknown fields', () => {
-      const text =
-        '[PREFERENCES]\n{"marka":"BMW","unknownField":"value"}\n[/PREFERENCES]';
-      const prefs = svc().extractPreferences(text);
-      expect(prefs.marka).toBe('BMW');
-      expect((prefs as any).unknownField).toBeUndefined();
-    });
-  });
-
   describe('formatSearchResultsForContext', () => {
     it('should format results with descriptions', () => {
       const results: SearchResultForContext[] = [
@@ -186,6 +147,55 @@ describe('AIService', () => {
       expect(context).toContain('2. Honda Accord');
     });
 
+    it('should list sibling variants as modifications of one model', () => {
+      const variant = (name: string, powerText: string, kppText: string): SearchResultForContext => ({
+        brand: 'Kia',
+        model: 'Sportage',
+        variant: name,
+        description: null,
+        yearFrom: 2018,
+        yearTo: 2021,
+        powerText,
+        kppText,
+        bodyType: 'Внедорожник',
+      });
+      const context = svc().formatSearchResultsForContext([
+        variant('2.0 AT', '150 л.с.', 'AT'),
+        variant('2.4 AT 4WD', '184 л.с.', 'AT'),
+      ]);
+
+      expect(context).toContain('Найдено автомобилей: 1');
+      expect(context).toContain('Модификации (2): 2.0 AT; 2.4 AT 4WD');
+      expect(context).toContain('Мощность: 150 л.с., 184 л.с.');
+      expect(context).toContain('КПП: AT\n');
+    });
+
+    it('should show which criteria the best variant of a model matched', () => {
+      const context = svc().formatSearchResultsForContext([
+        {
+          brand: 'Lada',
+          model: 'Vesta',
+          variant: '1.6 AMT',
+          description: 'Надёжный седан',
+          yearFrom: 2015,
+          yearTo: null,
+          powerText: null,
+          kppText: 'AMT',
+          bodyType: 'Седан',
+          matches: [
+            { criterion: 'bodyType', status: 'matched', value: 'Седан' },
+            { criterion: 'kpp', status: 'partial', value: 'AMT' },
+            { criterion: 'power', status: 'unknown' },
+            { criterion: 'keyword', status: 'matched', value: 'надёжный' },
+          ],
+        },
+      ]);
+
+      expect(context).toContain(
+        'Соответствие запросу: тип кузова; КПП — частично (AMT); мощность — нет данных; «надёжный» в описании'
+      );
+    });
+
     it('should format results with complectations', () => {
       const results: SearchResultForContext[] = [
         {
@@ -247,4 +257,831 @@ describe('AIService', () => {
       expect(context).toContain('н/д');
     });
   });
+
+  describe('formatTCOForContext', () => {
+    it('should format TCO figures with breakdown', () => {
+      const context = svc().formatTCOForContext([
+        {
+          vin: 'WBA3A5C51CF256985',
+          vehicle: { make: 'BMW', model: 'Model 3A5', year: 2012 },
+          tco: {
+            currency: 'RUB',
+            fiveYearTotal: 2000000,
+            averagePerYear: 400000,
+            breakdown: {
+              depreciation: 500000,
+              fuel: 750000,
+              insurance: 250000,
+              maintenance: 200000,
+              repairs: 225000,
+              taxes: 75000,
+            },
+          },
+          cached: false,
+          calculatedAt: '2026-01-01T00:00:00.000Z',
+        },
+      ]);
+
+      expect(context).toContain('РАСЧЕТ СТОИМОСТИ ВЛАДЕНИЯ (TCO) ПО VIN');
+      expect(context).toContain('VIN WBA3A5C51CF256985: BMW Model 3A5 2012');
+      expect(context).toMatch(/Итого за 5 лет: 2\s000\s000 RUB/);
+      expect(context).toMatch(/Топливо: 750\s000 RUB/);
+    });
+
+    it('should show н/д for missing cached breakdown fields', () => {
+      const context = svc().formatTCOForContext([
+        {
+          vin: 'WBA3A5C51CF256985',
+          vehicle: { make: 'BMW', model: 'X', year: 2012 },
+          tco: { currency: 'RUB', fiveYearTotal: 1000000, averagePerYear: 200000, breakdown: {} },
+          cached: true,
+          calculatedAt: '2026-01-01T00:00:00.000Z',
+        },
+      ]);
+
+      expect(context).toContain('Топливо: н/д');
+    });
+  });
+
+  describe('processMessageStream (mock provider)', () => {
+    it('should stream the reply and extract preferences with a JSON-mode call', async () => {
+      const provider = new MockLLMProvider(
+        ['Какой бюджет вы рассматриваете?', '{"marka":"тойота","kpp":"AT","yearTo":"скоро"}'],
+        { chunkSize: 7 }
+      );
+      const pipeline = new AIService(provider);
+
+      const stream = pipeline.processMessageStream({
+        userId: 'user-1',
+        dialogId: 'dialog-1',
+        userMessage: 'Хочу тойоту на автомате',
+        messageHistory: [],
+      });
+
+      let streamed = '';
+      let result;
+      while (true) {
+        const { value, done } = await stream.next();
+        if (done) {
+          result = value;
+          break;
+        }
+        streamed += value;
+      }
+
+      expect(streamed).toBe('Какой бюджет вы рассматриваете?');
+      expect(result.assistantMessage).toBe('Какой бюджет вы рассматриваете?');
+      expect(result.extractedPreferences).toEqual({ marka: ['Toyota'], kpp: ['AT'] });
+      expect(result.suggestions).toEqual([
+        'Нужен кроссовер',
+        'Нужен седан',
+        'Не старше 5 лет',
+        'Бюджет до 2 млн',
+      ]);
+
+      const sent = provider.requests[0].messages;
+      expect(sent[0].role).toBe('system');
+      expect(sent[sent.length - 1]).toEqual({ role: 'user', content: 'Хочу тойоту на автомате' });
+
+      const extraction = provider.requests[1];
+      expect(extraction.responseFormat).toBe('json');
+      expect(extraction.messages[1].content).toContain('USER: Хочу тойоту на автомате');
+      expect(extraction.messages[1].content).toContain('ASSISTANT: Какой бюджет вы рассматриваете?');
+    });
+
+    it('should start an edited turn from the snapshot instead of the saved preferences', async () => {
+      vi.mocked(prisma.carVariant.findMany).mockClear();
+      vi.mocked(prisma.user.update).mockClear();
+      // The edited message asked for Toyota: it is still in User.preferences
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({
+        language: 'RU',
+        preferences: { marka: 'Toyota' },
+      } as any);
+
+      const pipeline = new AIService(new MockLLMProvider(['Подберу седаны.']));
+      const stream = pipeline.processMessageStream({
+        userId: 'user-1',
+        dialogId: 'dialog-1',
+        userMessage: 'Покажи седаны',
+        messageHistory: [],
+        savedPreferences: {},
+      });
+      while (!(await stream.next()).done) {
+        // drain
+      }
+
+      const where = vi.mocked(prisma.carVariant.findMany).mock.calls[0][0]!.where;
+      expect(JSON.stringify(where)).not.toContain('Toyota');
+
+      // The replaced turn's brand is dropped from the saved preferences too
+      const saved = vi.mocked(prisma.user.update).mock.calls.find(([args]) => 'preferences' in args.data);
+      expect(saved![0].data.preferences).toEqual({});
+
+      vi.mocked(prisma.user.findUnique).mockResolvedValue({ language: 'RU', preferences: {} } as any);
+    });
+
+    it('should inject the conversation summary before the message history', async () => {
+      const provider = new MockLLMProvider(['Понял.']);
+      const pipeline = new AIService(provider);
+
+      const stream = pipeline.processMessageStream({
+        userId: 'user-1',
+        dialogId: 'dialog-1',
+        userMessage: 'А что по расходу?',
+        messageHistory: [
+          { role: 'USER', content: 'Покажи кроссоверы' },
+          { role: 'ASSISTANT', content: 'Вот варианты' },
+        ],
+        conversationSummary: '- Бюджет 2 млн, отверг Lada',
+      });
+      while (!(await stream.next()).done) {
+        // drain
+      }
+
+      const sent = provider.requests[0].messages;
+      const summaryIndex = sent.findIndex((m) => m.content.includes('- Бюджет 2 млн, отверг Lada'));
+      const historyIndex = sent.findIndex((m) => m.content === 'Покажи кроссоверы');
+
+      expect(sent[summaryIndex].role).toBe('system');
+      expect(summaryIndex).toBeLessThan(historyIndex);
+    });
+
+    it('should search every option of a comparison request', async () => {
+      vi.mocked(prisma.carVariant.findMany).mockClear();
+
+      const pipeline = new AIService(new MockLLMProvider(['Сравним.']));
+      const stream = pipeline.processMessageStream({
+        userId: 'user-1',
+        dialogId: 'dialog-1',
+        userMessage: 'Тойота или Мазда?',
+        messageHistory: [],
+      });
+      while (!(await stream.next()).done) {
+        // drain
+      }
+
+      const brands = vi
+        .mocked(prisma.carVariant.findMany)
+        .mock.calls.map((call) => (call[0]!.where as any).model.brand.OR[0].name.contains);
+      expect(brands).toEqual(['Toyota', 'Mazda']);
+      expect(vi.mocked(prisma.carVariant.findMany).mock.calls[0][0]!.take).toBe(200); // Ranking pool per brand
+    });
+
+    it('should apply saved exclusions to the search and the prompt', async () => {
+      vi.mocked(prisma.carVariant.findMany).mockClear();
+      vi.mocked(prisma.user.findUnique)
+        .mockResolvedValueOnce({ language: 'RU', preferences: {} } as any)
+        .mockResolvedValueOnce({ preferences: { excludedBrands: ['LADA'] } } as any);
+
+      const provider = new MockLLMProvider(['Уточните бюджет.']);
+      const pipeline = new AIService(provider);
+
+      const stream = pipeline.processMessageStream({
+        userId: 'user-1',
+        dialogId: 'dialog-1',
+        userMessage: 'Покажи седаны без вариатора',
+        messageHistory: [],
+      });
+      while (!(await stream.next()).done) {
+        // drain
+      }
+
+      const where = vi.mocked(prisma.carVariant.findMany).mock.calls[0][0]!.where as any;
+      expect(where.bodyType).toEqual({ contains: 'Седан', mode: 'insensitive' });
+      expect(where.AND).toContainEqual({
+        NOT: {
+          model: {
+            brand: {
+              OR: [
+                { name: { contains: 'LADA', mode: 'insensitive' } },
+                { code: { contains: 'LADA', mode: 'insensitive' } },
+              ],
+            },
+          },
+        },
+      });
+      expect(where.AND).toContainEqual({
+        OR: [{ kppText: null }, { NOT: { kppText: { contains: 'CVT', mode: 'insensitive' } } }],
+      });
+
+      const exclusions = provider.requests[0].messages.find((m) =>
+        m.content.startsWith('ПОЛЬЗОВАТЕЛЬ ИСКЛЮЧИЛ')
+      );
+      expect(exclusions?.content).toContain('Марки: LADA');
+      expect(exclusions?.content).toContain('КПП: CVT');
+    });
+
+    it('should filter on power and engine volume numerically', async () => {
+      vi.mocked(prisma.carVariant.findMany).mockClear();
+      vi.mocked(prisma.user.findUnique)
+        .mockResolvedValueOnce({ language: 'RU', preferences: {} } as any)
+        .mockResolvedValueOnce({ preferences: {} } as any);
+
+      const pipeline = new AIService(new MockLLMProvider(['Подберу варианты.']));
+
+      const stream = pipeline.processMessageStream({
+        userId: 'user-1',
+        dialogId: 'dialog-1',
+        userMessage: 'Нужен мотор от 150 л.с., объём до 2.5 литров',
+        messageHistory: [],
+      });
+      while (!(await stream.next()).done) {
+        // drain
+      }
+
+      const where = vi.mocked(prisma.carVariant.findMany).mock.calls[0][0]!.where as any;
+      expect(where.powerHp).toEqual({ gte: 150 });
+      expect(where.engineVolume).toEqual({ lte: 2.5 });
+    });
+
+    it('should switch User.language after consistent messages in another language', async () => {
+      vi.mocked(prisma.user.update).mockClear();
+      const provider = new MockLLMProvider(['Here are some options.']);
+      const pipeline = new AIService(provider);
+
+      const stream = pipeline.processMessageStream({
+        userId: 'user-1',
+        dialogId: 'dialog-1',
+        userMessage: 'Something for the family please',
+        messageHistory: [
+          { role: 'USER', content: 'Hi, I need a car' },
+          { role: 'ASSISTANT', content: 'Привет! Какой бюджет?' },
+          { role: 'USER', content: 'Under $30k' },
+          { role: 'ASSISTANT', content: 'Какой тип кузова?' },
+        ],
+      });
+      let result;
+      while (true) {
+        const { value, done } = await stream.next();
+        if (done) {
+          result = value;
+          break;
+        }
+      }
+
+      expect(result.languageChanged).toBe('EN');
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-1' },
+        data: { language: 'EN' },
+      });
+      expect(provider.requests[0].messages[0].content).toBe(getSystemPrompt('EN'));
+    });
+
+    it('should answer a single English message in English without switching', async () => {
+      vi.mocked(prisma.user.update).mockClear();
+      const provider = new MockLLMProvider(['Sure.']);
+      const pipeline = new AIService(provider);
+
+      const stream = pipeline.processMessageStream({
+        userId: 'user-1',
+        dialogId: 'dialog-1',
+        userMessage: 'Do you have any hybrids?',
+        messageHistory: [{ role: 'USER', content: 'Хочу кроссовер' }],
+      });
+      let result;
+      while (true) {
+        const { value, done } = await stream.next();
+        if (done) {
+          result = value;
+          break;
+        }
+      }
+
+      expect(result.languageChanged).toBeUndefined();
+      expect(prisma.user.update).not.toHaveBeenCalledWith(
+        expect.objectContaining({ data: { language: 'EN' } })
+      );
+      expect(provider.requests[0].messages[0].content).toBe(getSystemPrompt('EN'));
+    });
+
+    it('should parse English messages with the English parser', async () => {
+      vi.mocked(prisma.carVariant.findMany).mockClear();
+      vi.mocked(prisma.user.findUnique)
+        .mockResolvedValueOnce({ language: 'RU', preferences: {} } as any)
+        .mockResolvedValueOnce({ preferences: {} } as any);
+
+      const pipeline = new AIService(new MockLLMProvider(['Here are some options.']));
+
+      const stream = pipeline.processMessageStream({
+        userId: 'user-1',
+        dialogId: 'dialog-1',
+        userMessage: 'A hatchback with a stick, 2018 or newer',
+        messageHistory: [],
+      });
+      while (!(await stream.next()).done) {
+        // drain
+      }
+
+      const where = vi.mocked(prisma.carVariant.findMany).mock.calls[0][0]!.where as any;
+      expect(where.bodyType).toEqual({ contains: 'Хэтчбек', mode: 'insensitive' });
+      expect(where.kppText).toEqual({ contains: 'MT', mode: 'insensitive' });
+      expect(where.AND).toContainEqual({ OR: [{ yearTo: { gte: 2018 } }, { yearTo: null }] });
+    });
+
+    it('should ask about what splits the matching cars before there is enough to search', async () => {
+      const row = (id: string, brand: string, kppText: string) => ({
+        id,
+        name: `2.0 ${kppText}`,
+        bodyType: 'Внедорожник',
+        yearFrom: 2020,
+        yearTo: null,
+        powerText: '150 л.с.',
+        kppText,
+        powerHp: 150,
+        engineVolume: 2,
+        description: null,
+        model: { name: 'X', brand: { name: brand } },
+      });
+      vi.mocked(prisma.carVariant.findMany)
+        .mockClear()
+        .mockResolvedValueOnce([row('a', 'Toyota', 'AT'), row('b', 'Kia', 'MT')] as any);
+      vi.mocked(prisma.user.findUnique)
+        .mockResolvedValueOnce({ language: 'RU', preferences: {} } as any)
+        .mockResolvedValueOnce({ preferences: {} } as any);
+
+      const provider = new MockLLMProvider(['Уточню пару деталей.']);
+      const stream = new AIService(provider).processMessageStream({
+        userId: 'user-1',
+        dialogId: 'dialog-1',
+        userMessage: 'Помогите выбрать машину',
+        messageHistory: [],
+      });
+      let result = await stream.next();
+      while (!result.done) {
+        result = await stream.next();
+      }
+
+      const questions = provider.requests[0].messages.find((m) => m.content.startsWith('ЧТО УТОЧНИТЬ'));
+      expect(questions?.content).toContain('Какая коробка передач удобнее: автомат, механика?');
+      expect(questions?.content).toContain('Не спрашивай про тип кузова (у всех подходящих: Внедорожник)');
+      expect(result.value.searchResults).toEqual([]); // Candidates only shape the questions
+    });
+  });
+
+  describe('processMessageStream (cancel)', () => {
+    it('should stop streaming and return the partial answer when aborted', async () => {
+      vi.mocked(prisma.providerLog.create).mockClear();
+      const longReply = 'Toyota RAV4 — надежный кроссовер. '.repeat(40);
+      const provider = new MockLLMProvider([longReply], { chunkSize: 50 });
+      const pipeline = new AIService(provider);
+      const controller = new AbortController();
+
+      const stream = pipeline.processMessageStream({
+        userId: 'user-1',
+        dialogId: 'dialog-1',
+        userMessage: 'Что скажешь про RAV4?',
+        messageHistory: [],
+        signal: controller.signal,
+      });
+
+      const first = await stream.next();
+      expect(first.done).toBe(false);
+      controller.abort();
+
+      let result;
+      while (true) {
+        const { value, done } = await stream.next();
+        if (done) {
+          result = value;
+          break;
+        }
+      }
+
+      expect(result.cancelled).toBe(true);
+      expect(result.assistantMessage.length).toBeGreaterThan(0);
+      expect(result.assistantMessage.length).toBeLessThan(longReply.trim().length);
+      expect(provider.requests[0].signal).toBe(controller.signal);
+
+      const log = vi.mocked(prisma.providerLog.create).mock.calls.at(-1)![0].data;
+      expect(log.status).toBe('CANCELLED');
+      expect(log.promptTokens).toBeGreaterThan(0);
+    });
+  });
+
+  describe('processMessageStream (prompt registry)', () => {
+    it('should use published templates and log their versions', async () => {
+      promptRegistry.invalidate();
+      vi.mocked(prisma.providerLog.create).mockClear();
+      vi.mocked(prisma.promptTemplate.findMany).mockResolvedValueOnce([
+        { key: 'system', content: 'Ты помощник. Поиск: {{searchStatus}}', version: 3 },
+      ] as any);
+      const provider = new MockLLMProvider(['Какой бюджет?']);
+      const pipeline = new AIService(provider);
+
+      const stream = pipeline.processMessageStream({
+        userId: 'user-1',
+        dialogId: 'dialog-1',
+        userMessage: 'Привет',
+        messageHistory: [],
+      });
+      while (!(await stream.next()).done);
+      promptRegistry.invalidate();
+
+      const [system, status] = provider.requests[0].messages;
+      expect(system.content).toBe('Ты помощник. Поиск: not_searched');
+      expect(status.content).toContain('поиск по базе не выполнялся');
+
+      const log = vi.mocked(prisma.providerLog.create).mock.calls.at(-1)![0].data;
+      expect(log.promptVersions).toEqual({ system: 3, 'rag.not_searched': 0 });
+    });
+
+    it('should fill the rag.results template', () => {
+      const context = svc().formatSearchResultsForContext(
+        [{ brand: 'Toyota', model: 'Camry', variant: '2.5 AT' }],
+        'Найдено: {{count}} ({{language}})\n{{ragContext}}',
+        { language: 'RU' }
+      );
+
+      expect(context).toMatch(/^Найдено: 1 \(RU\)\n1\. Toyota Camry/);
+    });
+  });
+
+  describe('processMessageStream (degraded mode)', () => {
+    it('should answer without the LLM when no provider is available', async () => {
+      vi.mocked(prisma.providerLog.create).mockClear();
+      const provider = new MockLLMProvider([
+        () => {
+          throw new LLMUnavailableError('LLM unavailable: circuit open');
+        },
+      ]);
+      const pipeline = new AIService(provider);
+
+      const stream = pipeline.processMessageStream({
+        userId: 'user-1',
+        dialogId: 'dialog-1',
+        userMessage: 'Привет',
+        messageHistory: [],
+      });
+
+      let streamed = '';
+      while (true) {
+        const { value, done } = await stream.next();
+        if (done) break;
+        streamed += value;
+      }
+
+      expect(streamed).toContain('Ассистент временно недоступен');
+
+      const log = vi.mocked(prisma.providerLog.create).mock.calls.at(-1)![0].data;
+      expect(log.status).toBe('DEGRADED');
+    });
+
+    it('should list pre-search results in the degraded answer', () => {
+      const answer = svc().buildDegradedAnswer('RU', [
+        { brand: 'Toyota', model: 'Camry', variant: '2.5 AT', yearFrom: 2018, yearTo: 2021 },
+      ]);
+
+      expect(answer).toContain('• Toyota Camry 2.5 AT (2018-2021)');
+    });
+  });
+
+  describe('processMessageStream (tool calling)', () => {
+    it('should execute tool calls and loop until a final answer', async () => {
+      vi.mocked(prisma.carVariant.findMany).mockResolvedValue([
+        {
+          id: '11111111-1111-4111-8111-111111111111',
+          name: '2.0 CVT (150 л.с.)',
+          bodyType: 'Внедорожник 5 дв.',
+          yearFrom: 2019,
+          yearTo: null,
+          powerText: '150 л.с.',
+          kppText: 'CVT',
+          description: null,
+          model: { name: 'CX-5', brand: { name: 'Mazda' } },
+          complectations: [],
+        },
+      ] as any);
+      vi.mocked(prisma.providerLog.create).mockClear();
+
+      const provider = new MockLLMProvider([
+        { toolCalls: [{ name: 'searchCars', arguments: { marka: 'мазда', kpp: 'CVT' } }] },
+        'Есть Mazda CX-5 2.0 CVT.',
+      ]);
+      const pipeline = new AIService(provider);
+
+      const stream = pipeline.processMessageStream({
+        userId: 'user-1',
+        dialogId: 'dialog-1',
+        userMessage: 'А есть что-нибудь на вариаторе?',
+        messageHistory: [],
+      });
+
+      let streamed = '';
+      let result;
+      while (true) {
+        const { value, done } = await stream.next();
+        if (done) {
+          result = value;
+          break;
+        }
+        streamed += value;
+      }
+
+      expect(streamed).toBe('Есть Mazda CX-5 2.0 CVT.');
+      // Two answer rounds + the preference extraction call
+      expect(provider.requests).toHaveLength(3);
+      expect(provider.requests[2].responseFormat).toBe('json');
+      expect(provider.requests[0].tools?.map((t) => t.name)).toContain('searchCars');
+
+      const followUp = provider.requests[1].messages;
+      const toolMessage = followUp[followUp.length - 1];
+      expect(toolMessage.role).toBe('tool');
+      expect(toolMessage.toolCallId).toBe(followUp[followUp.length - 2].toolCalls?.[0].id);
+      expect(JSON.parse(toolMessage.content).found).toBe(1);
+
+      expect(result.searchResults).toHaveLength(1);
+      expect(result.searchResults?.[0].model).toBe('CX-5');
+
+      const loggedKinds = vi
+        .mocked(prisma.providerLog.create)
+        .mock.calls.map(([arg]) => (arg.data.response as any)?.kind);
+      expect(loggedKinds).toContain('TOOL_CALL');
+
+      // Usage of both rounds is summed on the LLM log (estimated: mock reports none)
+      const llmLog = vi
+        .mocked(prisma.providerLog.create)
+        .mock.calls.map(([arg]) => arg.data)
+        .find((data) => (data.response as any)?.kind === undefined);
+      expect(llmLog?.model).toBe('mock');
+      expect(llmLog?.promptTokens).toBeGreaterThan(0);
+      expect((llmLog?.response as any).usage.estimated).toBe(true);
+
+      vi.mocked(prisma.carVariant.findMany).mockResolvedValue([]);
+    });
+
+    it('should return validation errors to the model instead of throwing', async () => {
+      const provider = new MockLLMProvider([
+        { toolCalls: [{ name: 'calculateTCO', arguments: { vin: 'short' } }] },
+        'Проверьте VIN, пожалуйста.',
+      ]);
+      const pipeline = new AIService(provider);
+
+      const stream = pipeline.processMessageStream({
+        userId: 'user-1',
+        dialogId: 'dialog-1',
+        userMessage: 'Посчитай стоимость владения',
+        messageHistory: [],
+      });
+      while (!(await stream.next()).done) {
+        // drain
+      }
+
+      const followUp = provider.requests[1].messages;
+      expect(JSON.parse(followUp[followUp.length - 1].content).error).toContain('vin');
+    });
+  });
+
+  describe('processMessageStream (grounding)', () => {
+    const camry = {
+      id: '22222222-2222-4222-8222-222222222222',
+      name: '2.5 AT (181 л.с.)',
+      bodyType: 'Седан',
+      yearFrom: 2018,
+      yearTo: null,
+      powerText: '181 л.с.',
+      kppText: 'AT',
+      description: null,
+      model: { name: 'Camry', brand: { name: 'Toyota' } },
+      complectations: [],
+    };
+
+    async function runTurn(
+      pipeline: AIService,
+      userMessage: string,
+      messageHistory: MessageHistoryItem[] = []
+    ) {
+      const stream = pipeline.processMessageStream({
+        userId: 'user-1',
+        dialogId: 'dialog-1',
+        userMessage,
+        messageHistory,
+      });
+      let streamed = '';
+      while (true) {
+        const { value, done } = await stream.next();
+        if (done) {
+          return { streamed, result: value };
+        }
+        streamed += value;
+      }
+    }
+
+    it('should flag cars missing from the search results in ProviderLog', async () => {
+      groundingValidator.invalidate();
+      vi.mocked(prisma.carVariant.findMany).mockResolvedValue([camry] as any);
+      vi.mocked(prisma.carBrand.findMany).mockResolvedValueOnce([
+        { name: 'Toyota', models: [{ name: 'Camry' }, { name: 'Land Cruiser' }] },
+      ] as any);
+      vi.mocked(prisma.providerLog.create).mockClear();
+
+      const provider = new MockLLMProvider(['Есть Toyota Camry, а ещё посмотрите Toyota Land Cruiser.']);
+      const { result } = await runTurn(new AIService(provider), 'Хочу тойоту');
+      vi.mocked(prisma.carVariant.findMany).mockResolvedValue([]);
+      groundingValidator.invalidate();
+
+      expect(result.regenerated).toBeUndefined();
+      expect(provider.requests).toHaveLength(2); // Answer + extraction, no rewrite by default
+      expect(result.cars).toEqual([
+        {
+          variantId: camry.id,
+          brand: 'Toyota',
+          model: 'Camry',
+          variant: '2.5 AT (181 л.с.)',
+          yearFrom: 2018,
+          yearTo: null,
+          bodyType: 'Седан',
+          powerText: '181 л.с.',
+          kppText: 'AT',
+          matches: [{ criterion: 'marka', status: 'matched', value: 'Toyota' }],
+        },
+      ]);
+
+      const log = vi.mocked(prisma.providerLog.create).mock.calls.at(-1)![0].data;
+      expect(log.ungroundedMentions).toEqual(['Toyota Land Cruiser']);
+      expect((log.response as any).grounding).toEqual({
+        mentions: ['Toyota Camry', 'Toyota Land Cruiser'],
+        ungrounded: ['Toyota Land Cruiser'],
+        regenerated: false,
+      });
+    });
+
+    it('should rewrite an ungrounded answer when GROUNDING_REGENERATE is on', async () => {
+      vi.stubEnv('GROUNDING_REGENERATE', 'true');
+      vi.mocked(prisma.carVariant.findMany).mockResolvedValue([camry] as any);
+      vi.mocked(prisma.providerLog.create).mockClear();
+
+      const provider = new MockLLMProvider([
+        'Берите Toyota Camry или Porsche Cayenne.',
+        'Из базы подходит Toyota Camry.',
+      ]);
+      const { streamed, result } = await runTurn(new AIService(provider), 'Хочу тойоту');
+      vi.mocked(prisma.carVariant.findMany).mockResolvedValue([]);
+      vi.unstubAllEnvs();
+
+      expect(streamed).toBe('Берите Toyota Camry или Porsche Cayenne.');
+      expect(result.assistantMessage).toBe('Из базы подходит Toyota Camry.');
+      expect(result.regenerated).toBe(true);
+
+      const correction = provider.requests[1];
+      expect(correction.tools).toBeUndefined();
+      expect(correction.messages.at(-2)).toEqual({
+        role: 'assistant',
+        content: 'Берите Toyota Camry или Porsche Cayenne.',
+      });
+      expect(correction.messages.at(-1)!.content).toContain('Porsche');
+
+      // Preferences are extracted from the rewritten answer
+      expect(provider.requests[2].messages[1].content).toContain('ASSISTANT: Из базы подходит Toyota Camry.');
+
+      const log = vi.mocked(prisma.providerLog.create).mock.calls.at(-1)![0].data;
+      expect((log.response as any).content).toBe('Из базы подходит Toyota Camry.');
+      expect(log.ungroundedMentions).toEqual(['Porsche']);
+    });
+
+    it('should not count cars the user named', async () => {
+      vi.mocked(prisma.providerLog.create).mockClear();
+
+      const provider = new MockLLMProvider(['По Ferrari в базе ничего нет.']);
+      await runTurn(new AIService(provider), 'Есть феррари?');
+
+      const log = vi.mocked(prisma.providerLog.create).mock.calls.at(-1)![0].data;
+      expect(log.ungroundedMentions).toEqual([]);
+    });
+
+    it('should not count cars recommended in an earlier answer', async () => {
+      groundingValidator.invalidate();
+      vi.mocked(prisma.carBrand.findMany).mockResolvedValueOnce([
+        { name: 'Toyota', models: [{ name: 'Camry' }, { name: 'Land Cruiser' }] },
+      ] as any);
+      vi.mocked(prisma.providerLog.create).mockClear();
+
+      const provider = new MockLLMProvider(['Toyota Land Cruiser — рамный внедорожник.']);
+      await runTurn(new AIService(provider), 'Расскажи подробнее про второй вариант', [
+        { role: 'USER', content: 'Хочу большой внедорожник' },
+        {
+          role: 'ASSISTANT',
+          content: 'Посмотрите Toyota Camry и Toyota Land Cruiser.',
+          cars: [
+            {
+              variantId: '33333333-3333-4333-8333-333333333333',
+              brand: 'Toyota',
+              model: 'Land Cruiser',
+              variant: '4.0 AT',
+              yearFrom: 2015,
+              yearTo: null,
+              bodyType: 'Внедорожник 5 дв.',
+              powerText: '249 л.с.',
+              kppText: 'AT',
+            },
+          ],
+        },
+      ]);
+      groundingValidator.invalidate();
+
+      const log = vi.mocked(prisma.providerLog.create).mock.calls.at(-1)![0].data;
+      expect(log.ungroundedMentions).toEqual([]);
+    });
+  });
+
+  describe('processMessageStream (response cache)', () => {
+    it('should cache a clean answer to the first question', async () => {
+      vi.mocked(prisma.responseCache.upsert).mockClear();
+      vi.mocked(prisma.providerLog.create).mockClear();
+
+      const provider = new MockLLMProvider(['Вариатор экономичнее, автомат надёжнее.', '{}']);
+      const stream = new AIService(provider).processMessageStream({
+        userId: 'user-1',
+        dialogId: 'dialog-1',
+        userMessage: 'Что лучше: вариатор или автомат?',
+        messageHistory: [],
+      });
+      while (!(await stream.next()).done);
+
+      const entry = vi.mocked(prisma.responseCache.upsert).mock.calls[0][0].create;
+      expect(entry.message).toBe('что лучше вариатор или автомат');
+      expect(entry.response).toBe('Вариатор экономичнее, автомат надёжнее.');
+      expect(entry.promptVersions).toEqual({ system: 0, 'rag.results': 0, 'rag.no_results': 0 });
+
+      const log = vi.mocked(prisma.providerLog.create).mock.calls.at(-1)![0].data;
+      expect(log.cacheStatus).toBe('MISS');
+    });
+
+    it('should answer a cache hit without calling the LLM', async () => {
+      vi.mocked(prisma.responseCache.findUnique).mockResolvedValueOnce({
+        response: 'Вариатор экономичнее, автомат надёжнее.',
+        extractedPreferences: { kpp: ['AT'] },
+        expiresAt: new Date(Date.now() + 60_000),
+      } as any);
+      vi.mocked(prisma.user.update).mockClear();
+      vi.mocked(prisma.providerLog.create).mockClear();
+
+      const provider = new MockLLMProvider();
+      const stream = new AIService(provider).processMessageStream({
+        userId: 'user-1',
+        dialogId: 'dialog-1',
+        userMessage: 'что лучше — вариатор или автомат',
+        messageHistory: [],
+      });
+      let streamed = '';
+      let result;
+      while (true) {
+        const { value, done } = await stream.next();
+        if (done) {
+          result = value;
+          break;
+        }
+        streamed += value;
+      }
+
+      expect(provider.requests).toHaveLength(0);
+      expect(streamed).toBe('Вариатор экономичнее, автомат надёжнее.');
+      expect(result.extractedPreferences).toEqual({ kpp: ['AT'] });
+      expect(vi.mocked(prisma.user.update).mock.calls[0][0].data).toEqual({
+        preferences: { kpp: ['AT'] },
+      });
+
+      const log = vi.mocked(prisma.providerLog.create).mock.calls.at(-1)![0].data;
+      expect(log.cacheStatus).toBe('HIT');
+      expect(log.promptTokens).toBeUndefined();
+    });
+
+    it('should skip the planning sample and semantic pass on a cache hit', async () => {
+      vi.mocked(prisma.responseCache.findUnique).mockResolvedValueOnce({
+        response: 'Седаны Toyota надёжны.',
+        extractedPreferences: {},
+        expiresAt: new Date(Date.now() + 60_000),
+      } as any);
+      vi.mocked(prisma.carVariant.findMany).mockClear();
+      const search = vi.spyOn(carsService, 'searchCarsForRAG');
+
+      const stream = new AIService(new MockLLMProvider()).processMessageStream({
+        userId: 'user-1',
+        dialogId: 'dialog-1',
+        userMessage: 'Хочу седан тойоту',
+        messageHistory: [],
+      });
+      while (!(await stream.next()).done);
+
+      expect(search).toHaveBeenCalledTimes(1);
+      expect(search.mock.calls[0][0]).toMatchObject({ limit: 30, semanticQuery: undefined });
+      search.mockRestore();
+    });
+
+    it('should not use the cache once the dialog has history', async () => {
+      vi.mocked(prisma.responseCache.findUnique).mockClear();
+      vi.mocked(prisma.providerLog.create).mockClear();
+
+      const stream = new AIService(new MockLLMProvider(['Понял.'])).processMessageStream({
+        userId: 'user-1',
+        dialogId: 'dialog-1',
+        userMessage: 'А что лучше: вариатор или автомат?',
+        messageHistory: [{ role: 'USER', content: 'Привет' }],
+      });
+      while (!(await stream.next()).done);
+
+      expect(prisma.responseCache.findUnique).not.toHaveBeenCalled();
+      const log = vi.mocked(prisma.providerLog.create).mock.calls.at(-1)![0].data;
+      expect(log.cacheStatus).toBeUndefined();
+    });
+  });
 });
@@ -1,4 +1,3 @@
-import { fetch } from 'undici';
 import { logger } from '@/shared/utils/logger';
 import { prisma } from '@/shared/utils/prisma';
 import { carsService } from '@/modules/cars/cars.service';
@@ -6,28 +5,88 @@ import {
   ProcessMessageRequest,
   ProcessMessageResponse,
   UserPreferences,
-  DeepSeekMessage,
-  DeepSeekChatRequest,
-  DeepSeekStreamChunk,
+  LLMMessage,
+  LLMProvider,
+  LLMChatResult,
+  LLMToolCall,
+  LLMUsage,
+  RecommendedCar,
   SearchResultForContext,
 } from './ai.types';
-import { getSystemPrompt } from './ai.prompts';
+import type { TCOResponse } from '@/modules/tco/tco.types';
+import type { CriterionMatch, MatchCriterion } from '@/modules/cars/cars.ranking';
+import { GROUNDING_CORRECTION_PROMPT, RAG_RESULTS_PROMPT } from './ai.prompts';
+import { promptRegistry, renderPrompt, PromptKey, SearchStatus } from './ai.prompt-registry';
 import { parseMessageForPreferences, mergePreferences, extractDescriptionKeywords } from './message-parser';
+import {
+  parseEnglishMessageForPreferences,
+  extractEnglishDescriptionKeywords,
+} from './message-parser.en';
+import { detectConversationLanguage, detectMessageLanguage, MessageLanguage } from './language';
 import { normalizeBrandName } from './brand-aliases';
+import { llmProvider } from './ai.provider';
+import { LLMUnavailableError } from './providers/provider.errors';
+import { AI_TOOLS, executeToolCall, ToolExecutionResult } from './ai.tools';
+import { PreferenceExtractor, loadPreferences } from './ai.preferences';
+import { addUsage, estimateUsage } from './ai.pricing';
+import { usageService } from './ai.usage';
+import { HISTORY_LIMIT } from './ai.summary';
+import {
+  groundingValidator,
+  selectRecommendedCars,
+  toRecommendedCar,
+  GroundingCheck,
+  GroundingSource,
+} from './ai.grounding';
+import {
+  responseCache,
+  hashPromptContent,
+  CachedResponse,
+  ResponseCacheKeyInput,
+} from './ai.response-cache';
+import { buildSuggestions } from './ai.suggestions';
+import { distinctValues, groupByModel, modelYears, selectDiverseModels } from './ai.diversity';
+import { formatQuestionPlan, planQuestions } from './ai.question-planner';
+import type { SearchCarsParams } from '@/modules/cars/cars.service';
+
+// Max tool-calling rounds per turn; the round after that is forced to answer
+const MAX_TOOL_ROUNDS = 4;
+
+// Criteria as named in the RAG context
+const MATCH_CRITERION_LABELS: Record<Exclude<MatchCriterion, 'keyword'>, string> = {
+  marka: 'марка',
+  model: 'модель',
+  years: 'годы выпуска',
+  power: 'мощность',
+  engineVolume: 'объём двигателя',
+  kpp: 'КПП',
+  bodyType: 'тип кузова',
+};
+
+// Ranked variants fetched for the context; ai.diversity.ts picks distinct models from them
+const RAG_CANDIDATE_LIMIT = 30;
+
+// Matching cars the clarifying-question planner looks at (ai.question-planner.ts)
+const PLANNING_SAMPLE_SIZE = 200;
 
 export class AIService {
-  private apiUrl: string;
-  private apiKey: string;
-  private model: string;
+  private provider: LLMProvider;
+  private preferenceExtractor: PreferenceExtractor;
+  private toolsEnabled: boolean;
+  private groundingRegenerate: boolean;
+  private responseCacheEnabled: boolean;
 
-  constructor() {
-    this.apiUrl = process.env.DEEPSEEK_API_URL || 'https://api.deepseek.com/v1';
-    this.apiKey = process.env.DEEPSEEK_API_KEY || '';
-    this.model = process.env.DEEPSEEK_MODEL || 'deepseek-chat';
+  constructor(provider: LLMProvider = llmProvider) {
+    this.provider = provider;
+    this.preferenceExtractor = new PreferenceExtractor(provider);
+    this.toolsEnabled = process.env.AI_TOOLS_ENABLED !== 'false'; // Enabled by default
+    this.groundingRegenerate = process.env.GROUNDING_REGENERATE === 'true'; // Disabled by default
+    this.responseCacheEnabled = process.env.RESPONSE_CACHE_ENABLED !== 'false'; // Enabled by default
 
-    if (!this.apiKey) {
-      logger.warn('DEEPSEEK_API_KEY not configured');
-    }
+    logger.info(
+      { provider: provider.name, model: provider.model },
+      'AI service initialized'
+    );
   }
 
   /**
@@ -46,42 +105,104 @@ export class AIService {
         select: { language: true, preferences: true },
       });
 
-      const language = user?.language || 'RU';
-      const systemPrompt = getSystemPrompt(language);
+      // Prompt and parser follow the language of this message (the saved one if it doesn't tell);
+      // User.language itself changes only once the user consistently writes in another language
+      const userLanguage = user?.language || 'RU';
+      const language = detectMessageLanguage(request.userMessage) ?? userLanguage;
+      const prompts = await promptRegistry.getPrompts(language);
+      const languageChanged = await this.followUserLanguage(request, userLanguage);
 
       // === RAG: Extract current preferences and search database BEFORE calling LLM ===
       const currentPreferences = await this.extractCurrentPreferences(
         request.userId,
-        request.userMessage
+        request.userMessage,
+        language,
+        request.savedPreferences
       );
 
       let searchResults: SearchResultForContext[] = [];
       let ragContext = '';
 
+      // Ruled-out brands/body types/transmissions apply to every search this turn
+      const exclusions = {
+        excludedBrands: currentPreferences.excludedBrands,
+        excludedBodyTypes: currentPreferences.excludedBodyTypes,
+        excludedKpp: currentPreferences.excludedKpp,
+      };
+
       // Extract description keywords for text search
-      const descriptionKeywords = extractDescriptionKeywords(request.userMessage);
+      const descriptionKeywords =
+        language === 'EN'
+          ? extractEnglishDescriptionKeywords(request.userMessage)
+          : extractDescriptionKeywords(request.userMessage);
+
+      const searchParams: SearchCarsParams = {
+        marka: currentPreferences.marka,
+        model: currentPreferences.model,
+        yearFrom: currentPreferences.yearFrom,
+        yearTo: currentPreferences.yearTo,
+        power: currentPreferences.power,
+        powerFrom: currentPreferences.powerFrom,
+        powerTo: currentPreferences.powerTo,
+        engineVolumeFrom: currentPreferences.engineVolumeFrom,
+        engineVolumeTo: currentPreferences.engineVolumeTo,
+        kpp: currentPreferences.kpp,
+        bodyType: currentPreferences.bodyType,
+        ...exclusions,
+        descriptionKeywords: descriptionKeywords.length > 0 ? descriptionKeywords : undefined,
+        semanticQuery: request.userMessage,
+        limit: PLANNING_SAMPLE_SIZE,
+      };
+
+      // === Response cache: the same first question with the same preferences and prompts ===
+      // Checked before the search and question planning: a hit only needs its car cards
+      const willSearch = this.hasEnoughPreferencesForSearch(currentPreferences);
+      const cacheInput: ResponseCacheKeyInput | null = this.isCacheable(request)
+        ? {
+            message: request.userMessage,
+            language,
+            preferences: currentPreferences,
+            ...this.cachePrompts(prompts, willSearch),
+          }
+        : null;
+
+      if (cacheInput) {
+        const cached = await responseCache.get(cacheInput);
+
+        if (cached) {
+          return yield* this.serveCachedResponse(request, cached, {
+            cacheInput,
+            searchParams: willSearch ? searchParams : null,
+            languageChanged,
+            startTime,
+          });
+        }
+      }
+
+      // Cars matching the request so far, best first: the context comes from the top,
+      // clarifying questions from the whole sample
+      let candidates: SearchResultForContext[] = [];
 
       // If we have enough preferences, search database
-      if (this.hasEnoughPreferencesForSearch(currentPreferences)) {
+      if (willSearch) {
         logger.info(
           { userId: request.userId, preferences: currentPreferences, descriptionKeywords },
           'Searching database for RAG context'
         );
 
-        searchResults = await carsService.searchCarsForRAG({
-          marka: currentPreferences.marka,
-          model: currentPreferences.model,
-          yearFrom: currentPreferences.yearFrom,
-          yearTo: currentPreferences.yearTo,
-          power: currentPreferences.power,
-          kpp: currentPreferences.kpp,
-          bodyType: currentPreferences.bodyType,
-          descriptionKeywords: descriptionKeywords.length > 0 ? descriptionKeywords : undefined,
-          limit: 10, // Top 10 results for context (descriptions prioritized)
-        });
+        candidates = await carsService.searchCarsForRAG(searchParams);
+
+        // Several distinct models instead of every engine option of the best one
+        searchResults = selectDiverseModels(candidates.slice(0, RAG_CANDIDATE_LIMIT)).flatMap(
+          (group) => group.variants
+        );
 
         if (searchResults.length > 0) {
-          ragContext = this.formatSearchResultsForContext(searchResults);
+          ragContext = this.formatSearchResultsForContext(
+            searchResults,
+            prompts['rag.results'].content,
+            { language, searchStatus: 'results' }
+          );
           logger.info(
             { userId: request.userId, resultsCount: searchResults.length },
             'RAG context prepared'
@@ -94,53 +215,84 @@ export class AIService {
         }
       }
 
-      // Build messages array for DeepSeek API
-      const messages: DeepSeekMessage[] = [
+      // === RAG: search status message (case 1: results, 2: nothing found, 3: no search) ===
+      const searchStatus: SearchStatus = ragContext
+        ? 'results'
+        : willSearch ? 'no_results' : 'not_searched';
+      const ragKey: PromptKey = `rag.${searchStatus}`;
+      const promptVariables = { language, searchStatus };
+
+      // Versions of the templates used this turn, recorded in ProviderLog
+      const promptVersions = {
+        system: prompts.system.version,
+        [ragKey]: prompts[ragKey].version,
+      };
+
+      // Build messages array for LLM provider
+      const messages: LLMMessage[] = [
         {
           role: 'system',
-          content: systemPrompt,
+          content: renderPrompt(prompts.system.content, promptVariables),
         },
       ];
 
-      // === RAG: Add search results as context BEFORE message history ===
-      if (ragContext) {
-        // Case 1: Search was performed and found results
+      // === RAG: Add search results (or why there are none) BEFORE message history ===
+      messages.push({
+        role: 'system',
+        content: ragContext || renderPrompt(prompts[ragKey].content, promptVariables),
+      });
+
+      // === Clarifying questions: the attributes that narrow the matching cars most ===
+      if (searchStatus === 'not_searched') {
+        candidates = await this.findPlanningCandidates(searchParams);
+      }
+      const questionPlan = planQuestions(candidates, currentPreferences, language);
+      const questionsContext = formatQuestionPlan(questionPlan, language);
+      if (questionsContext) {
+        logger.info(
+          {
+            userId: request.userId,
+            questions: questionPlan.questions.map((question) => question.attribute),
+            settled: questionPlan.settled.map((item) => item.attribute),
+          },
+          'Clarifying questions planned'
+        );
+        messages.push({
+          role: 'system',
+          content: questionsContext,
+        });
+      }
+
+      // === Exclusions: keep the model from suggesting ruled-out cars on its own ===
+      const exclusionsContext = this.formatExclusionsForContext(currentPreferences);
+      if (exclusionsContext) {
         messages.push({
           role: 'system',
-          content: ragContext,
+          content: exclusionsContext,
         });
-      } else if (this.hasEnoughPreferencesForSearch(currentPreferences)) {
-        // Case 2: Search was performed but found ZERO results
+      }
+
+      // === TCO: figures for VINs from the current message ===
+      if (request.tcoResults && request.tcoResults.length > 0) {
         messages.push({
           role: 'system',
-          content:
-            'РЕЗУЛЬТАТЫ ПОИСКА ПО БАЗЕ ДАННЫХ:\n\n' +
-            'Найдено автомобилей: 0\n\n' +
-            'В нашей базе нет автомобилей по этому запросу.\n' +
-            'ЗАПРЕЩЕНО придумывать или рекомендовать автомобили, которых нет в базе.\n' +
-            'Скажи пользователю, что по его запросу ничего не нашлось.\n' +
-            'Предложи скорректировать параметры поиска (другая марка, другой год, другой тип кузова).\n' +
-            'Задай уточняющие вопросы.',
+          content: this.formatTCOForContext(request.tcoResults),
         });
-      } else {
-        // Case 3: Search was NOT performed (insufficient preferences)
+      }
+
+      // === Rolling summary of the part of the dialog outside the history window ===
+      if (request.conversationSummary) {
         messages.push({
           role: 'system',
           content:
-            'СТАТУС ПОИСКА: поиск по базе не выполнялся (недостаточно конкретных параметров).\n\n' +
-            'ЗАПРЕЩЕНО рекомендовать конкретные автомобили — у тебя нет данных из базы.\n' +
-            'НЕ НАДО извиняться или говорить "я не могу" — просто помогай.\n' +
-            'Задай пользователю уточняющие вопросы, чтобы подобрать варианты из базы:\n' +
-            '— Какая марка интересует?\n' +
-            '— Какой тип кузова (седан, кроссовер, хэтчбек)?\n' +
-            '— Какой бюджет?\n' +
-            '— Какой год выпуска?\n' +
-            'Можешь отвечать на общие вопросы об автомобилях, но НЕ рекомендуй конкретные модели.',
+            'КРАТКОЕ СОДЕРЖАНИЕ ПРЕДЫДУЩЕЙ ЧАСТИ ДИАЛОГА:\n\n' +
+            request.conversationSummary +
+            '\n\n---\nУчитывай это при ответе. Последние сообщения ниже важнее резюме.',
         });
       }
 
       // Add message history (limit to last 20 messages to avoid token limit)
-      const recentHistory = request.messageHistory.slice(-20);
+      const recentHistory = request.messageHistory.slice(-HISTORY_LIMIT);
       for (const msg of recentHistory) {
         messages.push({
           role: msg.role.toLowerCase() as 'user' | 'assistant' | 'system',
@@ -154,168 +306,283 @@ export class AIService {
         content: request.userMessage,
       });
 
-      // Make streaming request to DeepSeek API
-      const response = await fetch(`${this.apiUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${this.apiKey}`,
-        },
-        body: JSON.stringify({
-          model: this.model,
+      // Stream completion from the configured LLM provider
+      let fullResponse = '';
+      let outputBuffer = ''; // Buffer to check for rejection BEFORE streaming
+      let rejectionDetected = false; // Flag for provider content moderation rejection
+      let usage: LLMUsage | undefined; // Summed over tool-calling rounds
+      let servedBy: Pick<LLMChatResult, 'provider' | 'model'> = {}; // Differs from primary after a fallback
+      let degraded = false; // No provider available: answer without the LLM
+      let cancelled = false; // Stopped by the user (request.signal)
+
+      // Tool-calling loop: the model may search the catalog / call TCO mid-turn.
+      // Each round streams text; tool calls are executed and fed back until
+      // the model answers without tools (or MAX_TOOL_ROUNDS is reached).
+      for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+        const offerTools = this.toolsEnabled && round < MAX_TOOL_ROUNDS;
+        const stream = this.provider.streamChat({
           messages,
           temperature: 0.7,
-          max_tokens: 2000,
-          stream: true,
-        } as DeepSeekChatRequest),
-      });
+          maxTokens: 2000,
+          tools: offerTools ? AI_TOOLS : undefined,
+          signal: request.signal,
+        });
+
+        let roundResult: LLMChatResult | undefined;
+        let roundContent = '';
+
+        while (true) {
+          let next: IteratorResult<string, LLMChatResult>;
+          try {
+            next = await stream.next();
+          } catch (error) {
+            if (request.signal?.aborted) {
+              cancelled = true;
+              break;
+            }
+            // Retries and fallbacks exhausted (or circuit open) before any token
+            if (!(error instanceof LLMUnavailableError)) {
+              throw error;
+            }
+            logger.warn(
+              { userId: request.userId, error: error.message },
+              'LLM unavailable - answering in degraded mode'
+            );
+            degraded = true;
+            break;
+          }
+
+          const { value, done } = next;
+
+          if (done) {
+            roundResult = value;
+            break;
+          }
+
+          // Provider ignored the signal: stop reading anyway
+          if (request.signal?.aborted) {
+            cancelled = true;
+            await stream.return({ content: roundContent, finishReason: 'cancelled' });
+            break;
+          }
+
+          const content = value;
+          roundContent += content;
+          fullResponse += content;
+          outputBuffer += content;
+
+          // Check for provider content moderation rejection EARLY
+          // Keep buffering more to detect rejection before streaming
+          if (
+            outputBuffer.includes('Извините, не могу ответить') ||
+            outputBuffer.includes('Sorry, I cannot') ||
+            outputBuffer.includes('Попробуйте переформулировать')
+          ) {
+            rejectionDetected = true;
+            logger.warn(
+              { userId: request.userId, provider: this.provider.name },
+              'LLM content moderation detected - discarding response'
+            );
+            // Stop processing stream (closes the upstream connection)
+            await stream.return({ content: fullResponse, finishReason: 'rejected' });
+            break;
+          }
+
+          // Buffer at least 500 chars before streaming to catch rejection early
+          // DeepSeek often adds rejection message at the end, so we need larger buffer
+          const REJECTION_BUFFER_SIZE = 500;
+          const safeLength = Math.max(0, outputBuffer.length - REJECTION_BUFFER_SIZE);
+          if (safeLength > 0) {
+            yield outputBuffer.substring(0, safeLength);
+            outputBuffer = outputBuffer.substring(safeLength);
+          }
+        }
+
+        if (degraded) {
+          break;
+        }
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        logger.error(
-          { status: response.status, error: errorText },
-          'DeepSeek API error'
+        if (roundResult?.model) {
+          servedBy = { provider: roundResult.provider, model: roundResult.model };
+        }
+
+        // Providers that don't report usage (or aborted streams) get an estimate
+        usage = addUsage(
+          usage,
+          roundResult?.usage ??
+            estimateUsage(
+              messages,
+              roundContent + (roundResult?.toolCalls || []).map((call) => call.arguments).join('')
+            )
         );
-        throw new Error(`DeepSeek API error: ${response.status}`);
-      }
 
-      // Process streaming response
-      let fullResponse = '';
-      let streamBuffer = ''; // Buffer for filtering [PREFERENCES] block and moderation
-      let outputBuffer = ''; // Buffer to check for rejection BEFORE streaming
-      let insidePreferencesBlock = false;
-      let rejectionDetected = false; // Flag for DeepSeek content moderation rejection
-      const body = response.body;
+        if (cancelled || rejectionDetected || !roundResult?.toolCalls?.length) {
+          break;
+        }
 
-      if (!body) {
-        throw new Error('No response body from DeepSeek API');
-      }
+        // Execute requested tools and feed results back to the model
+        messages.push({
+          role: 'assistant',
+          content: roundResult.content,
+          toolCalls: roundResult.toolCalls,
+        });
 
-      const reader = body.getReader();
-      const decoder = new TextDecoder();
-      let buffer = '';
+        for (const call of roundResult.toolCalls) {
+          const toolStartTime = Date.now();
+          const toolResult = await executeToolCall(call, exclusions);
 
-      while (true) {
-        const { done, value } = await reader.read();
-
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (!line.trim() || line.trim() === 'data: [DONE]') continue;
-
-          if (line.startsWith('data: ')) {
-            try {
-              const jsonData = line.slice(6);
-              const chunk: DeepSeekStreamChunk = JSON.parse(jsonData);
-
-              const content = chunk.choices?.[0]?.delta?.content;
-              if (content) {
-                fullResponse += content;
-                streamBuffer += content;
-                outputBuffer += content;
-
-                // Check for DeepSeek content moderation rejection EARLY
-                // Keep buffering more to detect rejection before streaming
-                if (
-                  outputBuffer.includes('Извините, не могу ответить') ||
-                  outputBuffer.includes('Sorry, I cannot') ||
-                  outputBuffer.includes('Попробуйте переформулировать')
-                ) {
-                  rejectionDetected = true;
-                  logger.warn(
-                    { userId: request.userId },
-                    'DeepSeek content moderation detected - discarding response'
-                  );
-                  break; // Stop processing stream
-                }
-
-                // Check if we're entering or inside PREFERENCES block
-                if (streamBuffer.includes('[PREFERENCES]')) {
-                  insidePreferencesBlock = true;
-                }
-
-                // If we're inside PREFERENCES block, check if it's closed
-                if (insidePreferencesBlock && streamBuffer.includes('[/PREFERENCES]')) {
-                  // Remove the entire PREFERENCES block from buffer
-                  const beforeBlock = streamBuffer.split('[PREFERENCES]')[0];
-                  const afterBlock = streamBuffer.split('[/PREFERENCES]')[1] || '';
-
-                  // Stream the content before and after the block
-                  if (beforeBlock) {
-                    yield beforeBlock;
-                    outputBuffer = ''; // Reset output buffer after yielding
-                  }
-                  if (afterBlock) {
-                    yield afterBlock;
-                    outputBuffer = ''; // Reset output buffer after yielding
-                  }
-
-                  streamBuffer = '';
-                  insidePreferencesBlock = false;
-                } else if (!insidePreferencesBlock) {
-                  // Buffer at least 500 chars before streaming to catch rejection early
-                  // DeepSeek often adds rejection message at the end, so we need larger buffer
-                  const REJECTION_BUFFER_SIZE = 500;
-                  const safeLength = Math.max(0, outputBuffer.length - REJECTION_BUFFER_SIZE);
-                  if (safeLength > 0) {
-                    const safeContent = outputBuffer.substring(0, safeLength);
-                    yield safeContent;
-                    outputBuffer = outputBuffer.substring(safeLength);
-                    streamBuffer = streamBuffer.substring(safeLength);
-                  }
-                }
-              }
-            } catch (parseError) {
-              logger.warn({ line, parseError }, 'Failed to parse SSE chunk');
-            }
+          await this.logToolCall(
+            request.userId,
+            request.dialogId,
+            call,
+            toolResult,
+            Date.now() - toolStartTime
+          );
+
+          if (toolResult.searchResults) {
+            searchResults = this.mergeSearchResults(searchResults, toolResult.searchResults);
           }
+
+          messages.push({
+            role: 'tool',
+            toolCallId: call.id,
+            content: JSON.stringify(toolResult.output),
+          });
         }
+
+        logger.info(
+          {
+            userId: request.userId,
+            round,
+            tools: roundResult.toolCalls.map((call) => call.name),
+          },
+          'LLM tool calls executed'
+        );
+      }
+
+      // Cancelled: the client keeps what was streamed; nothing else is yielded or extracted
+      if (cancelled) {
+        logger.info({ userId: request.userId }, 'AI response cancelled by user');
+
+        // An edited turn still drops what the replaced one added
+        await this.saveExtractedPreferences(request.userId, {}, request.savedPreferences);
+
+        await this.logProviderRequest(
+          request.userId,
+          request.dialogId,
+          messages,
+          fullResponse,
+          Date.now() - startTime,
+          { ...servedBy, usage, status: 'CANCELLED', promptVersions }
+        );
+
+        return {
+          assistantMessage: fullResponse.trim(),
+          extractedPreferences: {},
+          searchResults,
+          cancelled: true,
+          languageChanged,
+        };
       }
 
-      // If DeepSeek rejected the content, yield standard rejection message
+      // If the provider rejected the content, yield standard rejection message
       if (rejectionDetected) {
         const rejectionMessage =
           'Извините, я не могу ответить на этот вопрос. Попробуйте переформулировать или задать вопрос о гражданских автомобилях.';
         yield rejectionMessage;
         fullResponse = rejectionMessage; // Override full response for logging
       } else {
-        // Flush remaining buffer (except PREFERENCES block)
-        if (streamBuffer && !insidePreferencesBlock) {
-          // Remove any remaining PREFERENCES block
-          const cleaned = streamBuffer.replace(/\[PREFERENCES\][\s\S]*?\[\/PREFERENCES\]/g, '');
-          if (cleaned) {
-            yield cleaned;
-          }
+        // Flush the rejection-check buffer
+        if (outputBuffer) {
+          yield outputBuffer;
+        }
+
+        if (degraded) {
+          const degradedAnswer =
+            (fullResponse ? '\n\n' : '') + this.buildDegradedAnswer(language, searchResults);
+          yield degradedAnswer;
+          fullResponse += degradedAnswer;
         }
       }
 
-      // Extract preferences from response
-      const extractedPreferences = this.extractPreferences(fullResponse);
+      // === Grounding: cars named in the answer must come from what the model was given ===
+      let grounding: (GroundingCheck & { regenerated: boolean }) | undefined;
+      let cars: RecommendedCar[] = [];
 
-      // Update user preferences in database (MERGE, not replace)
-      if (Object.keys(extractedPreferences).length > 0) {
-        const currentUser = await prisma.user.findUnique({
-          where: { id: request.userId },
-          select: { preferences: true },
-        });
-        const currentSaved = (currentUser?.preferences as UserPreferences) || {};
-        const mergedPreferences = mergePreferences(currentSaved, extractedPreferences);
+      if (degraded) {
+        // The degraded answer lists the first pre-search results
+        cars = searchResults
+          .slice(0, 5)
+          .filter((result): result is SearchResultForContext & { id: string } => !!result.id)
+          .map(toRecommendedCar);
+      } else if (!rejectionDetected) {
+        const sources: GroundingSource[] = [
+          ...searchResults,
+          ...(request.tcoResults || []).map((result) => ({
+            brand: result.vehicle.make,
+            model: result.vehicle.model,
+          })),
+          // Cars recommended in earlier answers: "расскажи подробнее про второй вариант"
+          ...recentHistory.flatMap((msg) => (msg.role === 'ASSISTANT' && msg.cars) || []),
+        ];
+        const userMessages = [
+          ...recentHistory.filter((msg) => msg.role === 'USER').map((msg) => msg.content),
+          request.userMessage,
+        ];
 
-        await prisma.user.update({
-          where: { id: request.userId },
-          data: {
-            preferences: mergedPreferences as any,
-          },
-        });
+        const check = await groundingValidator.check(fullResponse, sources, userMessages);
+        grounding = { ...check, regenerated: false };
+        let answerMentions = check.mentions;
 
-        logger.info(
-          { userId: request.userId, preferences: mergedPreferences },
-          'User preferences merged and updated'
-        );
+        if (check.ungrounded.length > 0) {
+          logger.warn(
+            { userId: request.userId, dialogId: request.dialogId, ungrounded: check.ungrounded },
+            'AI response names cars missing from search results'
+          );
+
+          if (this.groundingRegenerate) {
+            const corrected = await this.regenerateGrounded(messages, fullResponse, check, request);
+            if (corrected) {
+              const recheck = await groundingValidator.check(corrected.content, sources, userMessages);
+              usage = addUsage(usage, corrected.usage);
+
+              if (recheck.ungrounded.length < check.ungrounded.length) {
+                fullResponse = corrected.content;
+                grounding.regenerated = true;
+                answerMentions = recheck.mentions;
+              }
+            }
+          }
+        }
+
+        cars = selectRecommendedCars(fullResponse, answerMentions, searchResults);
+      }
+
+      // Extract preferences with a separate structured call (skipped when the LLM
+      // is unavailable or refused: there is no real answer to learn from)
+      const extractedPreferences =
+        degraded || rejectionDetected
+          ? {}
+          : await this.preferenceExtractor.extract({
+              userId: request.userId,
+              dialogId: request.dialogId,
+              userMessage: request.userMessage,
+              assistantMessage: fullResponse,
+              messageHistory: recentHistory,
+              signal: request.signal,
+            });
+
+      await this.saveExtractedPreferences(
+        request.userId,
+        extractedPreferences,
+        request.savedPreferences
+      );
+
+      // Only clean answers are reused: no fallback text, no refusal, no invented cars
+      const cacheable =
+        !!cacheInput && !degraded && !rejectionDetected && grounding?.ungrounded.length === 0;
+      if (cacheable) {
+        await responseCache.set(cacheInput, { content: fullResponse, extractedPreferences });
       }
 
       // Log provider request/response
@@ -325,13 +592,30 @@ export class AIService {
         request.dialogId,
         messages,
         fullResponse,
-        duration
+        duration,
+        {
+          ...servedBy,
+          usage,
+          status: degraded ? 'DEGRADED' : 'SUCCESS',
+          promptVersions,
+          grounding,
+          cacheStatus: cacheInput ? 'MISS' : undefined,
+        }
       );
 
       return {
         assistantMessage: fullResponse,
         extractedPreferences,
         searchResults,
+        languageChanged,
+        ...(grounding?.regenerated && { regenerated: true }),
+        suggestions: buildSuggestions({
+          language,
+          preferences: mergePreferences(currentPreferences, extractedPreferences),
+          searchResults,
+          hasTco: !!request.tcoResults?.length,
+        }),
+        cars,
       };
     } catch (error) {
       logger.error({ error, userId: request.userId }, 'AI processing error');
@@ -340,71 +624,249 @@ export class AIService {
   }
 
   /**
-   * Extract preferences from assistant response
+   * Log provider request/response to database
    */
-  private extractPreferences(responseText: string): UserPreferences {
+  private async logProviderRequest(
+    userId: string,
+    dialogId: string,
+    messages: LLMMessage[],
+    response: string,
+    latencyMs: number,
+    details: {
+      usage?: LLMUsage;
+      provider?: string;
+      model?: string;
+      status?: string;
+      promptVersions?: Record<string, number>;
+      grounding?: GroundingCheck & { regenerated: boolean };
+      cacheStatus?: 'HIT' | 'MISS';
+    } = {}
+  ): Promise<void> {
+    const { usage, status = 'SUCCESS', promptVersions, grounding, cacheStatus } = details;
+    const provider = details.provider ?? this.provider.name;
+    const model = details.model ?? this.provider.model;
+
     try {
-      // Look for [PREFERENCES]...[/PREFERENCES] block
-      const match = responseText.match(
-        /\[PREFERENCES\]([\s\S]*?)\[\/PREFERENCES\]/
-      );
+      const costUsd = usage
+        ? await usageService.recordUsage({ userId, dialogId, model, usage })
+        : null;
 
-      if (!match) {
-        return {};
-      }
+      await prisma.providerLog.create({
+        data: {
+          kind: 'LLM',
+          userId,
+          dialogId,
+          request: {
+            provider,
+            model,
+            messages,
+          } as any,
+          response: { content: response, usage, grounding } as any,
+          status,
+          latencyMs,
+          model,
+          promptTokens: usage?.promptTokens,
+          completionTokens: usage?.completionTokens,
+          costUsd,
+          promptVersions,
+          ungroundedMentions: grounding?.ungrounded,
+          cacheStatus,
+        },
+      });
+    } catch (error) {
+      logger.error({ error }, 'Failed to log provider request');
+    }
+  }
 
-      const jsonText = match[1].trim();
-      const preferences = JSON.parse(jsonText);
+  /**
+   * Merge preferences extracted from an answer into the saved ones (MERGE, not replace).
+   * With a snapshot (edit / regenerate) it is the base instead of User.preferences,
+   * and is written back even when nothing was extracted.
+   */
+  private async saveExtractedPreferences(
+    userId: string,
+    extractedPreferences: UserPreferences,
+    savedPreferences?: UserPreferences
+  ): Promise<void> {
+    if (!savedPreferences && Object.keys(extractedPreferences).length === 0) {
+      return;
+    }
 
-      // Clean and validate preferences
-      const cleaned: UserPreferences = {};
+    let currentSaved = savedPreferences;
+    if (!currentSaved) {
+      const currentUser = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { preferences: true },
+      });
+      currentSaved = loadPreferences(currentUser?.preferences);
+    }
+    const mergedPreferences = mergePreferences(currentSaved, extractedPreferences);
 
-      if (preferences.marka && typeof preferences.marka === 'string') {
-        cleaned.marka = preferences.marka;
-      }
-      if (preferences.model && typeof preferences.model === 'string') {
-        cleaned.model = preferences.model;
-      }
-      if (preferences.country && typeof preferences.country === 'string') {
-        cleaned.country = preferences.country;
-      }
-      if (preferences.color && typeof preferences.color === 'string') {
-        cleaned.color = preferences.color;
-      }
-      if (preferences.power && typeof preferences.power === 'string') {
-        cleaned.power = preferences.power;
-      }
-      if (preferences.kpp && typeof preferences.kpp === 'string') {
-        cleaned.kpp = preferences.kpp;
-      }
-      if (preferences.yearFrom && typeof preferences.yearFrom === 'number') {
-        cleaned.yearFrom = preferences.yearFrom;
-      }
-      if (preferences.yearTo && typeof preferences.yearTo === 'number') {
-        cleaned.yearTo = preferences.yearTo;
-      }
-      if (preferences.bodyType && typeof preferences.bodyType === 'string') {
-        cleaned.bodyType = preferences.bodyType;
+    await prisma.user.update({
+      where: { id: userId },
+      data: {
+        preferences: mergedPreferences as any,
+      },
+    });
+
+    logger.info({ userId, preferences: mergedPreferences }, 'User preferences merged and updated');
+  }
+
+  /**
+   * Prompts a cached answer depends on, by version and content hash. Known before the
+   * search runs: every rag.* template the turn could use (not_searched, or results / no_results).
+   */
+  private cachePrompts(
+    prompts: Awaited<ReturnType<typeof promptRegistry.getPrompts>>,
+    willSearch: boolean
+  ): Pick<ResponseCacheKeyInput, 'promptVersions' | 'promptHashes'> {
+    const keys: PromptKey[] = willSearch
+      ? ['system', 'rag.results', 'rag.no_results']
+      : ['system', 'rag.not_searched'];
+    return {
+      promptVersions: Object.fromEntries(keys.map((key) => [key, prompts[key].version])),
+      promptHashes: Object.fromEntries(
+        keys.map((key) => [key, hashPromptContent(prompts[key].content)])
+      ),
+    };
+  }
+
+  /**
+   * Stream a cached answer right away, then look up only what its car cards need:
+   * the top structural matches (no semantic pass, no planning sample, no question planning)
+   */
+  private async *serveCachedResponse(
+    request: ProcessMessageRequest,
+    cached: CachedResponse,
+    turn: {
+      cacheInput: ResponseCacheKeyInput;
+      searchParams: SearchCarsParams | null; // null: the turn doesn't search
+      languageChanged?: MessageLanguage;
+      startTime: number;
+    }
+  ): AsyncGenerator<string, ProcessMessageResponse, undefined> {
+    const { cacheInput, languageChanged } = turn;
+
+    logger.info({ userId: request.userId }, 'AI response served from cache');
+    yield cached.content;
+
+    const searchResults = turn.searchParams
+      ? selectDiverseModels(
+          await carsService.searchCarsForRAG({
+            ...turn.searchParams,
+            semanticQuery: undefined,
+            limit: RAG_CANDIDATE_LIMIT,
+          })
+        ).flatMap((group) => group.variants)
+      : [];
+
+    const { mentions } = await groundingValidator.check(cached.content, searchResults, []);
+
+    await this.saveExtractedPreferences(
+      request.userId,
+      cached.extractedPreferences,
+      request.savedPreferences
+    );
+    await this.logProviderRequest(
+      request.userId,
+      request.dialogId,
+      [{ role: 'user', content: request.userMessage }],
+      cached.content,
+      Date.now() - turn.startTime,
+      { status: 'SUCCESS', promptVersions: cacheInput.promptVersions, cacheStatus: 'HIT' }
+    );
+
+    return {
+      assistantMessage: cached.content,
+      extractedPreferences: cached.extractedPreferences,
+      searchResults,
+      languageChanged,
+      suggestions: buildSuggestions({
+        language: cacheInput.language,
+        preferences: mergePreferences(cacheInput.preferences, cached.extractedPreferences),
+        searchResults,
+      }),
+      cars: selectRecommendedCars(cached.content, mentions, searchResults),
+    };
+  }
+
+  /**
+   * Answers are cached only for a dialog's first question: later ones depend on
+   * the conversation, a summary or VIN figures the key doesn't capture
+   */
+  private isCacheable(request: ProcessMessageRequest): boolean {
+    return (
+      this.responseCacheEnabled &&
+      request.messageHistory.length === 0 &&
+      !request.conversationSummary &&
+      !request.tcoResults?.length
+    );
+  }
+
+  /**
+   * Ask the model to rewrite an answer without the ungrounded cars (no tools, not streamed).
+   * Returns null if the rewrite fails: the original answer is kept.
+   */
+  private async regenerateGrounded(
+    messages: LLMMessage[],
+    answer: string,
+    check: GroundingCheck,
+    request: ProcessMessageRequest
+  ): Promise<{ content: string; usage: LLMUsage } | null> {
+    const correctionMessages: LLMMessage[] = [
+      ...messages,
+      { role: 'assistant', content: answer },
+      {
+        role: 'system',
+        content: renderPrompt(GROUNDING_CORRECTION_PROMPT, { cars: check.ungrounded.join(', ') }),
+      },
+    ];
+
+    try {
+      const stream = this.provider.streamChat({
+        messages: correctionMessages,
+        temperature: 0.3,
+        maxTokens: 2000,
+        signal: request.signal,
+      });
+
+      let result: LLMChatResult;
+      while (true) {
+        const { value, done } = await stream.next();
+        if (done) {
+          result = value;
+          break;
+        }
       }
-      if (preferences.budget && typeof preferences.budget === 'number') {
-        cleaned.budget = preferences.budget;
+
+      const content = result.content.trim();
+      if (!content || request.signal?.aborted) {
+        return null;
       }
 
-      return cleaned;
+      logger.info(
+        { userId: request.userId, ungrounded: check.ungrounded },
+        'AI response regenerated after grounding check'
+      );
+
+      return {
+        content,
+        usage: result.usage ?? estimateUsage(correctionMessages, content),
+      };
     } catch (error) {
-      logger.warn({ error, responseText }, 'Failed to extract preferences');
-      return {};
+      logger.error({ error, userId: request.userId }, 'Grounding regeneration failed');
+      return null;
     }
   }
 
   /**
-   * Log provider request/response to database
+   * Log a single tool call and its result to database
    */
-  private async logProviderRequest(
+  private async logToolCall(
     userId: string,
     dialogId: string,
-    messages: DeepSeekMessage[],
-    response: string,
+    call: LLMToolCall,
+    result: ToolExecutionResult,
     latencyMs: number
   ): Promise<void> {
     try {
@@ -413,15 +875,69 @@ export class AIService {
           kind: 'LLM',
           userId,
           dialogId,
-          request: messages as any,
-          response: { content: response } as any,
-          status: 'SUCCESS',
+          request: {
+            tool: call.name,
+            toolCallId: call.id,
+            arguments: call.arguments,
+          } as any,
+          response: { kind: 'TOOL_CALL', ok: result.ok, output: result.output } as any,
+          status: result.ok ? 'SUCCESS' : 'TOOL_ERROR',
           latencyMs,
         },
       });
     } catch (error) {
-      logger.error({ error }, 'Failed to log provider request');
+      logger.error({ error }, 'Failed to log tool call');
+    }
+  }
+
+  /**
+   * Append tool search results to the pre-search results (deduplicated)
+   */
+  private mergeSearchResults(
+    current: SearchResultForContext[],
+    added: SearchResultForContext[]
+  ): SearchResultForContext[] {
+    const keyOf = (r: SearchResultForContext) =>
+      r.id || `${r.brand}|${r.model}|${r.variant}`;
+    const seen = new Set(current.map(keyOf));
+    const merged = [...current];
+
+    for (const r of added) {
+      if (!seen.has(keyOf(r))) {
+        seen.add(keyOf(r));
+        merged.push(r);
+      }
     }
+
+    return merged;
+  }
+
+  /**
+   * Answer without the LLM: apologize and list what the pre-search found
+   */
+  private buildDegradedAnswer(
+    language: 'RU' | 'EN',
+    searchResults: SearchResultForContext[]
+  ): string {
+    const cars = searchResults
+      .slice(0, 5)
+      .map((car) => {
+        const years = car.yearFrom
+          ? ` (${car.yearFrom}${car.yearTo ? `-${car.yearTo}` : '+'})`
+          : '';
+        return `• ${car.brand} ${car.model} ${car.variant}${years}`;
+      })
+      .join('\n');
+
+    if (language === 'EN') {
+      return cars
+        ? `The assistant is temporarily unavailable, so here is a short answer. Cars matching your preferences in our database:\n${cars}\n\nPlease write again in a minute and I will help you compare them.`
+        : 'The assistant is temporarily unavailable. Please try again in a minute.';
+    }
+
+    return cars
+      ? `Ассистент временно недоступен, поэтому отвечаю кратко. По вашим параметрам в базе нашлись:\n${cars}\n\nНапишите через минуту — помогу сравнить варианты подробнее.`
+      : 'Ассистент временно недоступен. Попробуйте повторить запрос через минуту.';
   }
 
   /**
@@ -432,29 +948,75 @@ export class AIService {
     return vinRegex.test(vin);
   }
 
+  /**
+   * Switch User.language when the user's latest messages are consistently in another language.
+   * Returns the new language, or undefined if it stays the same.
+   */
+  private async followUserLanguage(
+    request: ProcessMessageRequest,
+    userLanguage: MessageLanguage
+  ): Promise<MessageLanguage | undefined> {
+    const userMessages = [
+      ...request.messageHistory
+        .filter((message) => message.role === 'USER')
+        .map((message) => message.content),
+      request.userMessage,
+    ];
+
+    const conversationLanguage = detectConversationLanguage(userMessages);
+    if (!conversationLanguage || conversationLanguage === userLanguage) {
+      return undefined;
+    }
+
+    try {
+      await prisma.user.update({
+        where: { id: request.userId },
+        data: { language: conversationLanguage },
+      });
+
+      logger.info(
+        { userId: request.userId, from: userLanguage, to: conversationLanguage },
+        'User language switched'
+      );
+
+      return conversationLanguage;
+    } catch (error) {
+      logger.error({ error, userId: request.userId }, 'Failed to update user language');
+      return undefined;
+    }
+  }
+
   /**
    * Extract preferences from user's saved preferences and current message.
    * Parses the current message for brand/bodyType/year/kpp/budget,
    * then merges with saved preferences (message takes priority).
+   * A snapshot passed for edit / regenerate replaces the saved preferences.
    */
   private async extractCurrentPreferences(
     userId: string,
-    currentMessage: string
+    currentMessage: string,
+    messageLanguage: MessageLanguage,
+    snapshot?: UserPreferences
   ): Promise<UserPreferences> {
     // Get user's saved preferences
-    const user = await prisma.user.findUnique({
-      where: { id: userId },
-      select: { preferences: true },
-    });
-
-    const savedPreferences = (user?.preferences as UserPreferences) || {};
+    let savedPreferences = snapshot;
+    if (!savedPreferences) {
+      const user = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { preferences: true },
+      });
+      savedPreferences = loadPreferences(user?.preferences);
+    }
 
     // Parse current message for preferences (solves one-message delay)
-    const messagePreferences = parseMessageForPreferences(currentMessage);
+    const messagePreferences =
+      messageLanguage === 'EN'
+        ? parseEnglishMessageForPreferences(currentMessage)
+        : parseMessageForPreferences(currentMessage);
 
-    // Normalize brand name (Cyrillic -> Latin)
+    // Normalize brand names (Cyrillic -> Latin)
     if (messagePreferences.marka) {
-      messagePreferences.marka = normalizeBrandName(messagePreferences.marka);
+      messagePreferences.marka = messagePreferences.marka.map(normalizeBrandName);
     }
 
     // Merge: message preferences take priority over saved ones
@@ -463,40 +1025,145 @@ export class AIService {
 
   /**
    * Format search results for LLM context
-   * Creates a structured text representation of cars from database
+   * Creates a structured text representation of cars from database (one entry per model,
+   * sibling variants listed as its modifications), placed into the rag.results template as {{ragContext}}
    */
-  private formatSearchResultsForContext(results: SearchResultForContext[]): string {
+  private formatSearchResultsForContext(
+    results: SearchResultForContext[],
+    template: string = RAG_RESULTS_PROMPT,
+    variables: Record<string, string | number> = {}
+  ): string {
     if (results.length === 0) {
       return '';
     }
 
-    let context = 'РЕЗУЛЬТАТЫ ПОИСКА ПО БАЗЕ ДАННЫХ:\n\n';
-    context += `Найдено автомобилей: ${results.length}\n\n`;
+    const groups = groupByModel(results);
+    let context = '';
 
-    results.forEach((car, index) => {
-      const years = car.yearFrom && car.yearTo
-        ? `${car.yearFrom}-${car.yearTo}`
-        : car.yearFrom
-        ? `${car.yearFrom}+`
-        : 'н/д';
+    groups.forEach(({ brand, model, variants }, index) => {
+      const [best] = variants;
+      const description = variants.find((car) => car.description)?.description;
+      const complectations = distinctValues(variants.flatMap((car) => car.complectations || []));
 
-      context += `${index + 1}. ${car.brand} ${car.model}\n`;
-      context += `   Вариант: ${car.variant}\n`;
-      context += `   Годы выпуска: ${years}\n`;
-      context += `   Тип кузова: ${car.bodyType || 'н/д'}\n`;
-      context += `   Мощность: ${car.powerText || 'н/д'}\n`;
-      context += `   КПП: ${car.kppText || 'н/д'}\n`;
-      if (car.description) {
-        context += `   Описание: ${car.description}\n`;
+      context += `${index + 1}. ${brand} ${model}\n`;
+      context +=
+        variants.length === 1
+          ? `   Вариант: ${best.variant}\n`
+          : `   Модификации (${variants.length}): ${variants.map((car) => car.variant).join('; ')}\n`;
+      context += `   Годы выпуска: ${modelYears(variants)}\n`;
+      context += `   Тип кузова: ${distinctValues(variants.map((car) => car.bodyType)).join(', ') || 'н/д'}\n`;
+      context += `   Мощность: ${distinctValues(variants.map((car) => car.powerText)).join(', ') || 'н/д'}\n`;
+      context += `   КПП: ${distinctValues(variants.map((car) => car.kppText)).join(', ') || 'н/д'}\n`;
+      if (best.matches?.length) {
+        context += `   Соответствие запросу: ${this.formatMatches(best.matches)}\n`;
+      }
+      if (description) {
+        context += `   Описание: ${description}\n`;
       }
-      if (car.complectations && car.complectations.length > 0) {
-        context += `   Комплектации: ${car.complectations.join(', ')}\n`;
+      if (complectations.length > 0) {
+        context += `   Комплектации: ${complectations.join(', ')}\n`;
       }
       context += '\n';
     });
 
+    return renderPrompt(template, { ...variables, count: groups.length, ragContext: context });
+  }
+
+  /**
+   * Cars the question planner looks at before there is enough for a search
+   * (the broad catalog sample). Never throws: without them no questions are planned.
+   */
+  private async findPlanningCandidates(params: SearchCarsParams): Promise<SearchResultForContext[]> {
+    try {
+      return await carsService.searchCarsForRAG(params);
+    } catch (error) {
+      logger.error({ error }, 'Failed to load candidates for clarifying questions');
+      return [];
+    }
+  }
+
+  /**
+   * Matched criteria as one line: "тип кузова; КПП — частично (AMT); мощность — нет данных"
+   */
+  private formatMatches(matches: CriterionMatch[]): string {
+    return matches
+      .map((match) => {
+        if (match.criterion === 'keyword') {
+          return `«${match.value}» в описании`;
+        }
+
+        const label = MATCH_CRITERION_LABELS[match.criterion];
+        switch (match.status) {
+          case 'matched':
+            return label;
+          case 'partial':
+            return `${label} — частично (${match.value})`;
+          case 'unknown':
+            return `${label} — нет данных`;
+        }
+      })
+      .join('; ');
+  }
+
+  /**
+   * Format ruled-out values for LLM context ('' when there are none)
+   */
+  private formatExclusionsForContext(preferences: UserPreferences): string {
+    const lines: string[] = [];
+
+    if (preferences.excludedBrands?.length) {
+      lines.push(`Марки: ${preferences.excludedBrands.join(', ')}`);
+    }
+    if (preferences.excludedBodyTypes?.length) {
+      lines.push(`Типы кузова: ${preferences.excludedBodyTypes.join(', ')}`);
+    }
+    if (preferences.excludedKpp?.length) {
+      lines.push(`КПП: ${preferences.excludedKpp.join(', ')}`);
+    }
+
+    if (lines.length === 0) {
+      return '';
+    }
+
+    return (
+      'ПОЛЬЗОВАТЕЛЬ ИСКЛЮЧИЛ:\n' +
+      lines.join('\n') +
+      '\n\nНе предлагай и не рекомендуй такие автомобили.'
+    );
+  }
+
+  /**
+   * Format TCO results for LLM context
+   * The client already shows the figures as a card; the model explains them
+   */
+  private formatTCOForContext(results: TCOResponse[]): string {
+    // Cached entries may lack some breakdown fields
+    const money = (value: number | undefined, currency: string) =>
+      Number.isFinite(value)
+        ? `${Math.round(value as number).toLocaleString('ru-RU')} ${currency}`
+        : 'н/д';
+
+    let context = 'РАСЧЕТ СТОИМОСТИ ВЛАДЕНИЯ (TCO) ПО VIN:\n\n';
+
+    results.forEach((result, index) => {
+      const { vehicle, tco } = result;
+      const { breakdown } = tco;
+
+      context += `${index + 1}. VIN ${result.vin}: ${vehicle.make} ${vehicle.model} ${vehicle.year}\n`;
+      context += `   Итого за 5 лет: ${money(tco.fiveYearTotal, tco.currency)}\n`;
+      context += `   В среднем в год: ${money(tco.averagePerYear, tco.currency)}\n`;
+      context += `   Амортизация: ${money(breakdown.depreciation, tco.currency)}\n`;
+      context += `   Топливо: ${money(breakdown.fuel, tco.currency)}\n`;
+      context += `   Страховка: ${money(breakdown.insurance, tco.currency)}\n`;
+      context += `   Обслуживание: ${money(breakdown.maintenance, tco.currency)}\n`;
+      context += `   Ремонт: ${money(breakdown.repairs, tco.currency)}\n`;
+      context += `   Налоги: ${money(breakdown.taxes, tco.currency)}\n\n`;
+    });
+
     context += '---\n';
-    context += 'ВАЖНО: Используй ТОЛЬКО эти автомобили для рекомендаций. Не придумывай другие модели.\n';
+    context +=
+      'Пользователь уже видит эти цифры в карточке. Кратко объясни, из чего складывается стоимость владения ' +
+      'и какие статьи расходов самые большие. Не меняй и не придумывай цифры.\n';
 
     return context;
   }
@@ -506,10 +1173,21 @@ export class AIService {
    * Need at least 1 key field filled (brand alone is enough to show results)
    */
   private hasEnoughPreferencesForSearch(preferences: UserPreferences): boolean {
-    const keyFields = ['marka', 'model', 'kpp', 'yearFrom', 'bodyType'] as const;
+    const keyFields = [
+      'marka',
+      'model',
+      'kpp',
+      'yearFrom',
+      'bodyType',
+      'powerFrom',
+      'powerTo',
+      'engineVolumeFrom',
+      'engineVolumeTo',
+    ] as const;
 
     for (const field of keyFields) {
-      if (preferences[field]) {
+      const value = preferences[field];
+      if (Array.isArray(value) ? value.length > 0 : value) {
         return true;
       }
     }
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { buildSuggestions } from './ai.suggestions';
+import type { SearchResultForContext } from './ai.types';
+
+const car = (model: string, kppText: string): SearchResultForContext => ({
+  brand: 'Toyota',
+  model,
+  variant: '2.0',
+  description: null,
+  yearFrom: 2019,
+  yearTo: null,
+  powerText: null,
+  kppText,
+  bodyType: 'Седан',
+});
+
+describe('buildSuggestions', () => {
+  it('should start with the cars found', () => {
+    expect(
+      buildSuggestions({
+        language: 'RU',
+        preferences: { marka: ['Toyota'] },
+        searchResults: [car('Camry', 'AT'), car('Corolla', 'MT')],
+      })
+    ).toEqual([
+      'Сравнить первые два',
+      'Показать только автомат',
+      'Рассчитать стоимость владения',
+      'Нужен кроссовер',
+    ]);
+  });
+
+  it('should not offer what is already known or done', () => {
+    expect(
+      buildSuggestions({
+        language: 'EN',
+        preferences: { bodyType: ['Седан'], yearFrom: 2020 },
+        searchResults: [car('Camry', 'AT'), car('Camry', 'AT')],
+        hasTco: true,
+      })
+    ).toEqual(['Budget up to $30k', 'Which are the most reliable?']);
+  });
+
+  it('should ask for missing preferences before the first search', () => {
+    expect(buildSuggestions({ language: 'RU', preferences: {}, searchResults: [] })).toEqual([
+      'Нужен кроссовер',
+      'Нужен седан',
+      'Не старше 5 лет',
+      'Бюджет до 2 млн',
+    ]);
+  });
+
+  it('should always return at least two suggestions', () => {
+    const suggestions = buildSuggestions({
+      language: 'RU',
+      preferences: { bodyType: ['Седан'], yearFrom: 2020, budget: 1_500_000 },
+      searchResults: [],
+    });
+
+    expect(suggestions).toEqual(['Какие самые надёжные?', 'Что экономичнее в обслуживании?']);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Quick replies offered after an answer (chat:assistant_done `suggestions`).
+ * Built from the search results and the preference fields that are still missing;
+ * a selected suggestion is sent back as an ordinary user message, so every text
+ * here must read naturally and parse with the message parser of its language.
+ */
+
+import type { SearchResultForContext, UserPreferences } from './ai.types';
+import type { MessageLanguage } from './language';
+
+export const MIN_SUGGESTIONS = 2;
+export const MAX_SUGGESTIONS = 4;
+
+type SuggestionKey =
+  | 'compare'
+  | 'automatic'
+  | 'tco'
+  | 'crossover'
+  | 'sedan'
+  | 'recent'
+  | 'budget'
+  | 'reliable'
+  | 'economical';
+
+const SUGGESTION_TEXTS: Record<MessageLanguage, Record<SuggestionKey, string>> = {
+  RU: {
+    compare: 'Сравнить первые два',
+    automatic: 'Показать только автомат',
+    tco: 'Рассчитать стоимость владения',
+    crossover: 'Нужен кроссовер',
+    sedan: 'Нужен седан',
+    recent: 'Не старше 5 лет',
+    budget: 'Бюджет до 2 млн',
+    reliable: 'Какие самые надёжные?',
+    economical: 'Что экономичнее в обслуживании?',
+  },
+  EN: {
+    compare: 'Compare the first two',
+    automatic: 'Automatic only',
+    tco: 'Calculate the cost of ownership',
+    crossover: 'I need an SUV',
+    sedan: 'A sedan',
+    recent: 'No older than 5 years',
+    budget: 'Budget up to $30k',
+    reliable: 'Which are the most reliable?',
+    economical: 'Which is cheaper to maintain?',
+  },
+};
+
+export interface SuggestionContext {
+  language: MessageLanguage;
+  preferences: UserPreferences; // Everything known after the turn
+  searchResults: SearchResultForContext[];
+  hasTco?: boolean; // Cost of ownership was already calculated this turn
+}
+
+/**
+ * 2–4 follow-ups: first about the cars found, then for missing preferences
+ */
+export function buildSuggestions(context: SuggestionContext): string[] {
+  const { preferences, searchResults } = context;
+  const keys: SuggestionKey[] = [];
+
+  if (searchResults.length > 0) {
+    const models = new Set(searchResults.map((car) => `${car.brand} ${car.model}`));
+    if (models.size >= 2) {
+      keys.push('compare');
+    }
+
+    // Only useful when the results actually mix automatics with other gearboxes
+    const automatic = searchResults.filter((car) => /^AT\b|автомат/i.test(car.kppText || ''));
+    if (!preferences.kpp?.length && automatic.length > 0 && automatic.length < searchResults.length) {
+      keys.push('automatic');
+    }
+
+    if (!context.hasTco) {
+      keys.push('tco');
+    }
+  }
+
+  if (!preferences.bodyType?.length) {
+    keys.push('crossover', 'sedan');
+  }
+  if (!preferences.yearFrom) {
+    keys.push('recent');
+  }
+  if (!preferences.budget) {
+    keys.push('budget');
+  }
+
+  // Nothing left to ask: general questions keep the conversation going
+  for (const key of ['reliable', 'economical'] as const) {
+    if (keys.length < MIN_SUGGESTIONS) {
+      keys.push(key);
+    }
+  }
+
+  return keys.slice(0, MAX_SUGGESTIONS).map((key) => SUGGESTION_TEXTS[context.language][key]);
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ConversationSummaryService, HISTORY_LIMIT } from './ai.summary';
+import { MockLLMProvider } from './providers/mock.provider';
+import { prisma } from '@/shared/utils/prisma';
+
+vi.mock('@/shared/utils/prisma', () => ({
+  prisma: {
+    dialog: { findUnique: vi.fn(), update: vi.fn().mockResolvedValue({}) },
+    user: { update: vi.fn().mockResolvedValue({}) },
+    message: { findMany: vi.fn() },
+    providerLog: { create: vi.fn().mockResolvedValue({}) },
+    $transaction: vi.fn().mockResolvedValue([]),
+  },
+}));
+
+/**
+ * Build dialog messages (alternating USER/ASSISTANT), oldest first
+ */
+function makeMessages(count: number, contentLength = 20) {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `msg-${i}`,
+    role: i % 2 === 0 ? ('USER' as const) : ('ASSISTANT' as const),
+    content: `${i}:`.padEnd(contentLength, 'x'),
+    createdAt: new Date(Date.UTC(2026, 0, 1, 0, i)),
+  }));
+}
+
+/**
+ * Mock DB: findMany returns newest first (orderBy desc) like Prisma would
+ */
+function mockDialog(messages: ReturnType<typeof makeMessages>, summary: string | null = null) {
+  vi.mocked(prisma.dialog.findUnique).mockResolvedValue({
+    summary,
+    summarizedUntil: null,
+    user: { language: 'RU' },
+  } as any);
+  vi.mocked(prisma.message.findMany).mockResolvedValue([...messages].reverse() as any);
+}
+
+describe('ConversationSummaryService', () => {
+  beforeEach(() => {
+    vi.mocked(prisma.dialog.update).mockClear();
+    vi.mocked(prisma.providerLog.create).mockClear();
+  });
+
+  it('should return latest messages oldest-first without summarizing short dialogs', async () => {
+    const provider = new MockLLMProvider();
+    const service = new ConversationSummaryService(provider, { tokenBudget: 1000, keepRecent: 4 });
+    mockDialog(makeMessages(5));
+
+    const context = await service.getContext('user-1', 'dialog-1', ['msg-4']);
+
+    expect(provider.requests).toHaveLength(0);
+    expect(context.summary).toBeNull();
+    expect(context.messages.map((m) => m.content.split(':')[0])).toEqual(['0', '1', '2', '3']);
+
+    const query = vi.mocked(prisma.message.findMany).mock.calls.at(-1)![0] as any;
+    expect(query.orderBy).toEqual({ createdAt: 'desc' });
+  });
+
+  it('should fold older messages into the summary when over the token budget', async () => {
+    const provider = new MockLLMProvider(['- Ищет кроссовер Toyota до 2020 года']);
+    const service = new ConversationSummaryService(provider, { tokenBudget: 50, keepRecent: 4 });
+    const messages = makeMessages(10, 40); // ~100 tokens
+    mockDialog(messages, '- Бюджет 2 млн');
+
+    const context = await service.getContext('user-1', 'dialog-1');
+
+    expect(context.summary).toBe('- Ищет кроссовер Toyota до 2020 года');
+    expect(context.messages).toHaveLength(4);
+    expect(context.messages[0].content).toBe(messages[6].content);
+
+    // Previous summary and folded messages are sent to the model
+    const prompt = provider.requests[0].messages[1].content;
+    expect(prompt).toContain('- Бюджет 2 млн');
+    expect(prompt).toContain(messages[5].content);
+    expect(prompt).not.toContain(messages[6].content);
+
+    expect(prisma.dialog.update).toHaveBeenCalledWith({
+      where: { id: 'dialog-1' },
+      data: {
+        summary: '- Ищет кроссовер Toyota до 2020 года',
+        summarizedUntil: messages[5].createdAt,
+      },
+    });
+
+    const log = vi.mocked(prisma.providerLog.create).mock.calls[0][0].data;
+    expect((log.response as any).kind).toBe('SUMMARY');
+  });
+
+  it('should summarize when history exceeds the message window', async () => {
+    const provider = new MockLLMProvider(['summary']);
+    const service = new ConversationSummaryService(provider, {
+      tokenBudget: 100_000,
+      keepRecent: 6,
+    });
+    mockDialog(makeMessages(HISTORY_LIMIT + 5, 4));
+
+    const context = await service.getContext('user-1', 'dialog-1');
+
+    expect(provider.requests).toHaveLength(1);
+    expect(context.messages).toHaveLength(6);
+  });
+
+  it('should fall back to truncated history if summarization fails', async () => {
+    const provider = new MockLLMProvider(['']); // Empty summary is rejected
+    const service = new ConversationSummaryService(provider, { tokenBudget: 10, keepRecent: 4 });
+    mockDialog(makeMessages(HISTORY_LIMIT + 5), 'старое резюме');
+
+    const context = await service.getContext('user-1', 'dialog-1');
+
+    expect(context.summary).toBe('старое резюме');
+    expect(context.messages).toHaveLength(HISTORY_LIMIT);
+    expect(context.messages.at(-1)?.content.startsWith(`${HISTORY_LIMIT + 4}:`)).toBe(true);
+    expect(prisma.dialog.update).not.toHaveBeenCalled();
+  });
+});
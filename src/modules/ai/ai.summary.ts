@@ -0,0 +1,235 @@
+/**
+ * Rolling conversation summary: messages that fall out of the LLM history
+ * window are folded into a per-dialog summary instead of being dropped
+ */
+
+import { prisma } from '@/shared/utils/prisma';
+import { logger } from '@/shared/utils/logger';
+import { dialogsService } from '@/modules/dialogs/dialogs.service';
+import {
+  ConversationContext,
+  LLMChatResult,
+  LLMMessage,
+  LLMProvider,
+  LLMUsage,
+  MessageHistoryItem,
+} from './ai.types';
+import { getSummaryPrompt } from './ai.prompts';
+import { estimateTokens, estimateUsage } from './ai.pricing';
+import { usageService } from './ai.usage';
+import { llmProvider } from './ai.provider';
+
+// Max messages sent verbatim to the model
+export const HISTORY_LIMIT = 20;
+
+// Upper bound of not-yet-summarized messages loaded per turn
+const MAX_PENDING_MESSAGES = 200;
+
+export interface SummaryOptions {
+  tokenBudget?: number; // Summarize when unsummarized history exceeds this (estimated tokens)
+  keepRecent?: number; // Messages kept verbatim after summarizing
+}
+
+type PendingMessage = MessageHistoryItem & { id: string; createdAt: Date };
+
+export class ConversationSummaryService {
+  private provider: LLMProvider;
+  private tokenBudget: number;
+  private keepRecent: number;
+
+  constructor(provider: LLMProvider = llmProvider, options: SummaryOptions = {}) {
+    this.provider = provider;
+    this.tokenBudget =
+      options.tokenBudget ?? (Number(process.env.HISTORY_TOKEN_BUDGET) || 3000);
+    this.keepRecent = options.keepRecent ?? (Number(process.env.SUMMARY_KEEP_RECENT) || 6);
+  }
+
+  /**
+   * Build LLM history for a dialog.
+   * If unsummarized messages exceed the token budget (or the history window),
+   * older ones are folded into the dialog summary first.
+   * @param excludeMessageIds - current user message (sent to the model separately)
+   *   and the answer being regenerated
+   */
+  async getContext(
+    userId: string,
+    dialogId: string,
+    excludeMessageIds: string[] = []
+  ): Promise<ConversationContext> {
+    const dialog = await prisma.dialog.findUnique({
+      where: { id: dialogId },
+      select: {
+        summary: true,
+        summarizedUntil: true,
+        user: { select: { language: true } },
+      },
+    });
+
+    let summary = dialog?.summary ?? null;
+    let pending: PendingMessage[] = (
+      await dialogsService.getRecentMessages(
+        dialogId,
+        MAX_PENDING_MESSAGES,
+        dialog?.summarizedUntil ?? undefined
+      )
+    ).filter((message) => !excludeMessageIds.includes(message.id));
+
+    if (this.needsSummary(pending)) {
+      const toFold = pending.slice(0, pending.length - this.keepRecent);
+      const updated = await this.summarize(
+        userId,
+        dialogId,
+        summary,
+        toFold,
+        dialog?.user.language || 'RU'
+      );
+
+      if (updated) {
+        summary = updated;
+        pending = pending.slice(toFold.length);
+      }
+    }
+
+    return {
+      summary,
+      messages: pending
+        .slice(-HISTORY_LIMIT)
+        .map(({ role, content, cars }) => ({ role, content, ...(cars?.length ? { cars } : {}) })),
+    };
+  }
+
+  /**
+   * History is too long to send verbatim
+   */
+  private needsSummary(pending: PendingMessage[]): boolean {
+    if (pending.length <= this.keepRecent) {
+      return false;
+    }
+
+    const tokens = pending.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+    return tokens > this.tokenBudget || pending.length > HISTORY_LIMIT;
+  }
+
+  /**
+   * Fold messages into the summary and persist it.
+   * Returns the new summary, or null if the LLM call failed (history is then just truncated).
+   */
+  private async summarize(
+    userId: string,
+    dialogId: string,
+    previousSummary: string | null,
+    messages: PendingMessage[],
+    language: 'RU' | 'EN'
+  ): Promise<string | null> {
+    const startTime = Date.now();
+
+    const transcript = messages
+      .map((message) => `${message.role}: ${message.content}`)
+      .join('\n\n');
+
+    const llmMessages: LLMMessage[] = [
+      { role: 'system', content: getSummaryPrompt(language) },
+      {
+        role: 'user',
+        content:
+          `PREVIOUS SUMMARY:\n${previousSummary || '—'}\n\n` +
+          `NEW MESSAGES:\n${transcript}`,
+      },
+    ];
+
+    try {
+      const stream = this.provider.streamChat({
+        messages: llmMessages,
+        temperature: 0.2,
+        maxTokens: 600,
+      });
+
+      let result: LLMChatResult;
+      while (true) {
+        const { value, done } = await stream.next();
+        if (done) {
+          result = value;
+          break;
+        }
+      }
+
+      const summary = result.content.trim();
+      if (!summary) {
+        throw new Error('Empty summary');
+      }
+
+      await prisma.dialog.update({
+        where: { id: dialogId },
+        data: {
+          summary,
+          summarizedUntil: messages[messages.length - 1].createdAt,
+        },
+      });
+
+      await this.logSummary(
+        userId,
+        dialogId,
+        llmMessages,
+        summary,
+        Date.now() - startTime,
+        result.usage ?? estimateUsage(llmMessages, summary)
+      );
+
+      logger.info(
+        { userId, dialogId, foldedMessages: messages.length },
+        'Conversation summary updated'
+      );
+
+      return summary;
+    } catch (error) {
+      logger.error({ error, userId, dialogId }, 'Failed to summarize conversation');
+      return null;
+    }
+  }
+
+  /**
+   * Record usage and log the summary call to database
+   */
+  private async logSummary(
+    userId: string,
+    dialogId: string,
+    messages: LLMMessage[],
+    summary: string,
+    latencyMs: number,
+    usage: LLMUsage
+  ): Promise<void> {
+    try {
+      const costUsd = await usageService.recordUsage({
+        userId,
+        dialogId,
+        model: this.provider.model,
+        usage,
+      });
+
+      await prisma.providerLog.create({
+        data: {
+          kind: 'LLM',
+          userId,
+          dialogId,
+          request: {
+            provider: this.provider.name,
+            model: this.provider.model,
+            messages,
+          } as any,
+          response: { kind: 'SUMMARY', content: summary, usage } as any,
+          status: 'SUCCESS',
+          latencyMs,
+          model: this.provider.model,
+          promptTokens: usage.promptTokens,
+          completionTokens: usage.completionTokens,
+          costUsd,
+        },
+      });
+    } catch (error) {
+      logger.error({ error }, 'Failed to log conversation summary');
+    }
+  }
+}
+
+// Export singleton instance
+export const conversationSummaryService = new ConversationSummaryService();
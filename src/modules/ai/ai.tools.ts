@@ -0,0 +1,256 @@
+/**
+ * LLM tools: functions the assistant may call mid-turn
+ * (catalog search, variant details, VIN decode, TCO)
+ */
+
+import { z } from 'zod';
+import { carsService, SearchCarsParams } from '@/modules/cars/cars.service';
+import { tcoService } from '@/modules/tco/tco.service';
+import { normalizeBrandName } from './brand-aliases';
+import { LLMToolCall, LLMToolDefinition, SearchResultForContext } from './ai.types';
+
+// ============================================
+// TOOL DEFINITIONS (sent to the model)
+// ============================================
+
+const VIN_PARAMETER = {
+  type: 'string',
+  description: 'VIN — 17 characters, A-Z and 0-9 without I, O, Q',
+};
+
+export const AI_TOOLS: LLMToolDefinition[] = [
+  {
+    name: 'searchCars',
+    description:
+      'Search the car catalog. Use it to refine or broaden the search during the conversation. ' +
+      'Only cars returned by this tool (or listed in the database search results) may be recommended.',
+    parameters: {
+      type: 'object',
+      properties: {
+        marka: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Brands (any of), e.g. ["Toyota", "Mazda"]',
+        },
+        model: { type: 'string', description: 'Model, e.g. "Camry"' },
+        yearFrom: { type: 'integer', description: 'Earliest model year' },
+        yearTo: { type: 'integer', description: 'Latest model year' },
+        kpp: {
+          type: 'array',
+          items: { type: 'string', enum: ['AT', 'MT', 'CVT', 'Robot', 'AMT'] },
+          description: 'Transmissions (any of)',
+        },
+        bodyType: {
+          type: 'array',
+          items: { type: 'string' },
+          description:
+            'Body types (any of): sedan/hatchback/suv/coupe/wagon/minivan/pickup or Russian DB value',
+        },
+        power: { type: 'string', description: 'Engine power text, e.g. "150 л.с."' },
+        powerFrom: { type: 'integer', description: 'Minimum engine power, HP' },
+        powerTo: { type: 'integer', description: 'Maximum engine power, HP' },
+        engineVolumeFrom: { type: 'number', description: 'Minimum engine volume, liters' },
+        engineVolumeTo: { type: 'number', description: 'Maximum engine volume, liters' },
+        descriptionKeywords: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Words to look for in car descriptions (e.g. "надежный", "семейный")',
+        },
+        excludedBrands: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Brands to leave out of the results',
+        },
+        excludedBodyTypes: { type: 'array', items: { type: 'string' } },
+        excludedKpp: {
+          type: 'array',
+          items: { type: 'string', enum: ['AT', 'MT', 'CVT', 'Robot', 'AMT'] },
+        },
+        limit: { type: 'integer', minimum: 1, maximum: 10 },
+      },
+    },
+  },
+  {
+    name: 'getVariantById',
+    description: 'Get full details of a catalog variant by its id (from searchCars results).',
+    parameters: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Variant id' },
+      },
+      required: ['id'],
+    },
+  },
+  {
+    name: 'decodeVIN',
+    description: 'Decode a VIN to get make, model, year and engine.',
+    parameters: {
+      type: 'object',
+      properties: { vin: VIN_PARAMETER },
+      required: ['vin'],
+    },
+  },
+  {
+    name: 'calculateTCO',
+    description: 'Calculate 5-year total cost of ownership for a specific car by VIN.',
+    parameters: {
+      type: 'object',
+      properties: { vin: VIN_PARAMETER },
+      required: ['vin'],
+    },
+  },
+];
+
+// ============================================
+// ARGUMENT VALIDATION
+// ============================================
+
+// Single string accepted too: models sometimes ignore the array type
+const stringList = z.preprocess(
+  (value) => (typeof value === 'string' ? [value] : value),
+  z.array(z.string().min(1)).min(1).max(10)
+);
+
+const searchCarsArgsSchema = z.object({
+  marka: stringList.optional(),
+  model: z.string().min(1).optional(),
+  yearFrom: z.coerce.number().int().min(1900).max(2100).optional(),
+  yearTo: z.coerce.number().int().min(1900).max(2100).optional(),
+  kpp: stringList.optional(),
+  bodyType: stringList.optional(),
+  power: z.string().min(1).optional(),
+  powerFrom: z.coerce.number().int().min(30).max(2000).optional(),
+  powerTo: z.coerce.number().int().min(30).max(2000).optional(),
+  engineVolumeFrom: z.coerce.number().min(0.5).max(10).optional(),
+  engineVolumeTo: z.coerce.number().min(0.5).max(10).optional(),
+  descriptionKeywords: z.array(z.string().min(1)).max(5).optional(),
+  excludedBrands: z.array(z.string().min(1)).max(20).optional(),
+  excludedBodyTypes: z.array(z.string().min(1)).max(10).optional(),
+  excludedKpp: z.array(z.string().min(1)).max(5).optional(),
+  limit: z.coerce.number().int().min(1).max(10).default(5),
+});
+
+const variantArgsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+const vinArgsSchema = z.object({
+  vin: z.string().regex(/^[A-HJ-NPR-Z0-9]{17}$/i, {
+    message: 'Invalid VIN format (must be 17 characters, A-Z, 0-9, no I/O/Q)',
+  }),
+});
+
+// ============================================
+// EXECUTION
+// ============================================
+
+function union(a: string[] = [], b: string[] = []): string[] | undefined {
+  const merged = Array.from(new Set([...a, ...b]));
+  return merged.length > 0 ? merged : undefined;
+}
+
+/**
+ * User exclusions applied to every catalog search, whatever the model asks for
+ */
+export type ToolSearchExclusions = Pick<
+  SearchCarsParams,
+  'excludedBrands' | 'excludedBodyTypes' | 'excludedKpp'
+>;
+
+export interface ToolExecutionResult {
+  name: string;
+  ok: boolean;
+  output: unknown; // JSON payload returned to the model
+  searchResults?: SearchResultForContext[]; // Cars surfaced by searchCars
+}
+
+/**
+ * Execute a tool call requested by the model.
+ * Never throws: validation and runtime errors are returned to the model as { error }.
+ */
+export async function executeToolCall(
+  call: LLMToolCall,
+  exclusions: ToolSearchExclusions = {}
+): Promise<ToolExecutionResult> {
+  let args: unknown;
+  try {
+    args = JSON.parse(call.arguments || '{}');
+  } catch {
+    return { name: call.name, ok: false, output: { error: 'Arguments must be valid JSON' } };
+  }
+
+  try {
+    switch (call.name) {
+      case 'searchCars': {
+        const params = searchCarsArgsSchema.parse(args);
+        const results = await carsService.searchCarsForRAG({
+          ...params,
+          marka: params.marka?.map(normalizeBrandName),
+          excludedBrands: union(params.excludedBrands, exclusions.excludedBrands),
+          excludedBodyTypes: union(params.excludedBodyTypes, exclusions.excludedBodyTypes),
+          excludedKpp: union(params.excludedKpp, exclusions.excludedKpp),
+        });
+        return {
+          name: call.name,
+          ok: true,
+          output: { found: results.length, cars: results },
+          searchResults: results,
+        };
+      }
+
+      case 'getVariantById': {
+        const { id } = variantArgsSchema.parse(args);
+        const variant = await carsService.getVariantById(id);
+        if (!variant) {
+          return { name: call.name, ok: false, output: { error: 'Variant not found' } };
+        }
+        return {
+          name: call.name,
+          ok: true,
+          output: {
+            id: variant.id,
+            brand: variant.model.brand.name,
+            model: variant.model.name,
+            variant: variant.name,
+            bodyType: variant.bodyType,
+            yearFrom: variant.yearFrom,
+            yearTo: variant.yearTo,
+            powerText: variant.powerText,
+            kppText: variant.kppText,
+            description: variant.description,
+          },
+        };
+      }
+
+      case 'decodeVIN': {
+        const { vin } = vinArgsSchema.parse(args);
+        const decoded = await tcoService.decodeVIN(vin);
+        return { name: call.name, ok: decoded.isValid, output: decoded };
+      }
+
+      case 'calculateTCO': {
+        const { vin } = vinArgsSchema.parse(args);
+        const tco = await tcoService.calculateTCO(vin);
+        if (!tco) {
+          return {
+            name: call.name,
+            ok: false,
+            output: { error: 'Could not calculate TCO for the provided VIN' },
+          };
+        }
+        return { name: call.name, ok: true, output: tco };
+      }
+
+      default:
+        return { name: call.name, ok: false, output: { error: `Unknown tool: ${call.name}` } };
+    }
+  } catch (error) {
+    const message =
+      error instanceof z.ZodError
+        ? error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ')
+        : error instanceof Error
+          ? error.message
+          : 'Tool execution failed';
+    return { name: call.name, ok: false, output: { error: message } };
+  }
+}
@@ -2,22 +2,19 @@
  * AI module types
  */
 
+import type { z } from 'zod';
+import type { TCOResponse } from '@/modules/tco/tco.types';
+import type { CriterionMatch, RelevanceScore } from '@/modules/cars/cars.ranking';
+import type { userPreferencesSchema } from './ai.preferences';
+
 // ============================================
 // USER PREFERENCES
 // ============================================
 
-export interface UserPreferences {
-  marka?: string; // Brand
-  model?: string; // Model
-  country?: string; // Country of origin
-  color?: string; // Color
-  power?: string; // Engine power (HP)
-  kpp?: string; // Transmission type (AT/MT/CVT/Robot)
-  yearFrom?: number; // Year from
-  yearTo?: number; // Year to
-  bodyType?: string; // Body type (sedan/hatchback/etc)
-  budget?: number; // Budget
-}
+/**
+ * Fields and validation rules are defined once in userPreferencesSchema (ai.preferences.ts)
+ */
+export type UserPreferences = z.infer<typeof userPreferencesSchema>;
 
 // ============================================
 // AI SERVICE REQUEST/RESPONSE
@@ -28,37 +25,138 @@ export interface ProcessMessageRequest {
   dialogId: string;
   userMessage: string;
   messageHistory: MessageHistoryItem[];
+  tcoResults?: TCOResponse[]; // TCO for VINs detected in the user message
+  conversationSummary?: string | null; // Rolling summary of messages outside the history window
+  signal?: AbortSignal; // Aborts the upstream LLM request (chat:cancel)
+  savedPreferences?: UserPreferences; // Start from these instead of User.preferences (edit / regenerate)
 }
 
 export interface MessageHistoryItem {
   role: 'USER' | 'ASSISTANT' | 'SYSTEM';
   content: string;
+  cars?: RecommendedCar[]; // Assistant messages: cars recommended in that answer (grounding sources)
+}
+
+/**
+ * LLM history for a turn: rolling summary + latest messages (oldest first)
+ */
+export interface ConversationContext {
+  summary: string | null;
+  messages: MessageHistoryItem[];
 }
 
 export interface ProcessMessageResponse {
   assistantMessage: string;
   extractedPreferences: UserPreferences;
   searchResults?: any[]; // Car search results if preferences are complete
+  cancelled?: boolean; // Stopped via signal; assistantMessage holds the partial text
+  languageChanged?: 'RU' | 'EN'; // User.language switched to this language during the turn
+  regenerated?: boolean; // Grounding check replaced the streamed text with assistantMessage
+  suggestions?: string[]; // Quick replies for the next step (see ai.suggestions.ts)
+  cars?: RecommendedCar[]; // Variants the answer recommends, for car cards
 }
 
 // ============================================
-// DEEPSEEK API TYPES
+// LLM PROVIDER TYPES
 // ============================================
 
-export interface DeepSeekMessage {
-  role: 'system' | 'user' | 'assistant';
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  toolCalls?: LLMToolCall[]; // assistant turn that requested tools
+  toolCallId?: string; // tool turn: id of the call it answers
+}
+
+/**
+ * Function the model may call (parameters is a JSON Schema object)
+ */
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: string; // Raw JSON string as produced by the model
+}
+
+export interface LLMChatRequest {
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  tools?: LLMToolDefinition[];
+  signal?: AbortSignal; // Abort the upstream request
+  responseFormat?: 'text' | 'json'; // 'json' asks the provider for a single JSON object (JSON mode)
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimated?: boolean; // true when the provider did not report usage
+}
+
+export interface LLMChatResult {
   content: string;
+  finishReason: string | null;
+  toolCalls?: LLMToolCall[];
+  usage?: LLMUsage;
+  provider?: string; // Provider/model that actually served the call (set by ResilientLLMProvider)
+  model?: string;
+}
+
+/**
+ * Pluggable LLM backend (DeepSeek, OpenAI-compatible, Ollama, mock).
+ * streamChat yields text deltas and returns the aggregated result.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  streamChat(request: LLMChatRequest): AsyncGenerator<string, LLMChatResult, undefined>;
+}
+
+// ============================================
+// OPENAI-COMPATIBLE API TYPES (DeepSeek, OpenRouter, OpenAI, vLLM)
+// ============================================
+
+export interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: Array<{
+    id: string;
+    type: 'function';
+    function: {
+      name: string;
+      arguments: string;
+    };
+  }>;
+  tool_call_id?: string;
+}
+
+export interface OpenAITool {
+  type: 'function';
+  function: LLMToolDefinition;
 }
 
-export interface DeepSeekChatRequest {
+export interface OpenAIChatRequest {
   model: string;
-  messages: DeepSeekMessage[];
+  messages: OpenAIMessage[];
   temperature?: number;
   max_tokens?: number;
   stream?: boolean;
+  tools?: OpenAITool[];
+  tool_choice?: 'auto' | 'none';
+  response_format?: {
+    type: 'text' | 'json_object';
+  };
+  stream_options?: {
+    include_usage: boolean;
+  };
 }
 
-export interface DeepSeekChatResponse {
+export interface OpenAIChatResponse {
   id: string;
   object: string;
   created: number;
@@ -78,7 +176,7 @@ export interface DeepSeekChatResponse {
   };
 }
 
-export interface DeepSeekStreamChunk {
+export interface OpenAIStreamChunk {
   id: string;
   object: string;
   created: number;
@@ -87,10 +185,66 @@ export interface DeepSeekStreamChunk {
     index: number;
     delta: {
       role?: string;
-      content?: string;
+      content?: string | null;
+      tool_calls?: Array<{
+        index: number;
+        id?: string;
+        type?: 'function';
+        function?: {
+          name?: string;
+          arguments?: string;
+        };
+      }>;
     };
     finish_reason: string | null;
   }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  } | null; // Sent in the final chunk when stream_options.include_usage is set
+}
+
+// ============================================
+// OLLAMA API TYPES
+// ============================================
+
+export interface OllamaMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  tool_calls?: OllamaToolCall[];
+}
+
+export interface OllamaToolCall {
+  function: {
+    name: string;
+    arguments: Record<string, any>;
+  };
+}
+
+export interface OllamaChatRequest {
+  model: string;
+  messages: OllamaMessage[];
+  stream: boolean;
+  tools?: OpenAITool[];
+  format?: 'json';
+  options?: {
+    temperature?: number;
+    num_predict?: number;
+  };
+}
+
+export interface OllamaChatChunk {
+  model: string;
+  message?: {
+    role: string;
+    content: string;
+    tool_calls?: OllamaToolCall[];
+  };
+  done: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number; // Prompt tokens (final chunk)
+  eval_count?: number; // Completion tokens (final chunk)
 }
 
 // ============================================
@@ -102,6 +256,7 @@ export interface DeepSeekStreamChunk {
  * Contains only essential information to include in LLM prompt
  */
 export interface SearchResultForContext {
+  id?: string; // CarVariant ID
   brand: string;
   model: string;
   variant: string;
@@ -112,4 +267,23 @@ export interface SearchResultForContext {
   kppText: string | null;
   bodyType: string | null;
   complectations?: string[];
+  score?: RelevanceScore; // Relevance ranking breakdown (cars.ranking.ts)
+  matches?: CriterionMatch[]; // Requested criteria it matched, partially matched or has no data for
+}
+
+/**
+ * Catalog variant the assistant recommended: rendered as a card next to the answer
+ * and linked to /cars/variants/:variantId
+ */
+export interface RecommendedCar {
+  variantId: string;
+  brand: string;
+  model: string;
+  variant: string;
+  yearFrom: number | null;
+  yearTo: number | null;
+  bodyType: string | null;
+  powerText: string | null;
+  kppText: string | null;
+  matches?: CriterionMatch[]; // Match badges: why the car fits the request
 }
@@ -0,0 +1,42 @@
+import { prisma } from '@/shared/utils/prisma';
+import { logger } from '@/shared/utils/logger';
+import { LLMUsage } from './ai.types';
+import { calculateCostUsd } from './ai.pricing';
+
+export interface RecordUsageParams {
+  userId: string;
+  dialogId?: string | null;
+  model: string;
+  usage: LLMUsage;
+}
+
+export class UsageService {
+  /**
+   * Price an LLM call and add it to per-user and per-dialog totals.
+   * Returns the call cost in USD (stored on the ProviderLog by the caller).
+   */
+  async recordUsage(params: RecordUsageParams): Promise<number> {
+    const { userId, dialogId, model, usage } = params;
+    const costUsd = calculateCostUsd(model, usage);
+
+    const increment = {
+      totalPromptTokens: { increment: usage.promptTokens },
+      totalCompletionTokens: { increment: usage.completionTokens },
+      totalCostUsd: { increment: costUsd },
+    };
+
+    try {
+      await prisma.$transaction([
+        prisma.user.update({ where: { id: userId }, data: increment }),
+        ...(dialogId ? [prisma.dialog.update({ where: { id: dialogId }, data: increment })] : []),
+      ]);
+    } catch (error) {
+      logger.error({ error, userId, dialogId }, 'Failed to update LLM usage totals');
+    }
+
+    return costUsd;
+  }
+}
+
+// Export singleton instance
+export const usageService = new UsageService();
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { detectConversationLanguage, detectMessageLanguage } from './language';
+
+describe('detectMessageLanguage', () => {
+  it('should detect Russian and English messages', () => {
+    expect(detectMessageLanguage('Хочу седан до 2 млн')).toBe('RU');
+    expect(detectMessageLanguage('I want a sedan under $30k')).toBe('EN');
+    expect(detectMessageLanguage("I'm looking for an SUV")).toBe('EN');
+  });
+
+  it('should keep Russian with Latin brand names', () => {
+    expect(detectMessageLanguage('Хочу Toyota Camry')).toBe('RU');
+  });
+
+  it('should not guess from numbers or bare names', () => {
+    expect(detectMessageLanguage('2020')).toBeNull();
+    expect(detectMessageLanguage('150 000')).toBeNull();
+    expect(detectMessageLanguage('Toyota Camry')).toBeNull();
+    expect(detectMessageLanguage('JTDKB20U403012345')).toBeNull();
+  });
+});
+
+describe('detectConversationLanguage', () => {
+  it('should return the language of consistent latest messages', () => {
+    expect(
+      detectConversationLanguage(
+        ['Привет', 'I need a car', 'something for the family', 'under $30k please'],
+        3
+      )
+    ).toBe('EN');
+  });
+
+  it('should skip messages without a detectable language', () => {
+    expect(
+      detectConversationLanguage(['I need a car', 'Toyota RAV4', '2020', 'with a CVT', 'thanks'], 3)
+    ).toBe('EN');
+  });
+
+  it('should return null for mixed or too few messages', () => {
+    expect(detectConversationLanguage(['I need a car', 'Хочу седан', 'thanks'], 3)).toBeNull();
+    expect(detectConversationLanguage(['I need a car', 'thanks'], 3)).toBeNull();
+  });
+});
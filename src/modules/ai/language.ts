@@ -0,0 +1,58 @@
+/**
+ * Message language detection (RU/EN): picks the preference parser and prompt per message
+ * and tells when the user has switched language for good
+ */
+
+export type MessageLanguage = 'RU' | 'EN';
+
+// Latest user messages that must all be in the new language before User.language follows
+const LANGUAGE_SWITCH_MESSAGES = Number(process.env.LANGUAGE_SWITCH_MESSAGES) || 3;
+
+/**
+ * Common English words: Latin text without any of them is usually just
+ * brand/model names or a VIN ("Toyota Camry", "XTA21099...") and says nothing about language
+ */
+const ENGLISH_MARKERS = new Set([
+  'i', 'im', 'me', 'my', 'we', 'you', 'it', 'is', 'are', 'am', 'be', 'do', 'does', 'can',
+  'a', 'an', 'the', 'this', 'that', 'what', 'which', 'how', 'why', 'any', 'some',
+  'and', 'or', 'but', 'not', 'no', 'yes', 'with', 'without', 'for', 'from', 'to', 'of',
+  'in', 'on', 'under', 'over', 'than', 'after', 'before',
+  'want', 'need', 'looking', 'like', 'show', 'find', 'tell', 'please', 'thanks',
+  'car', 'cars', 'good', 'best', 'cheap', 'new', 'used', 'family',
+]);
+
+/**
+ * Detect the language of a message by script.
+ * Any Cyrillic makes it Russian: Russian users type Latin brand names ("хочу Toyota Camry"),
+ * English users don't type Cyrillic. Latin text counts as English only with common
+ * English words in it. Returns null when the message doesn't tell ("2020", "Toyota Camry").
+ */
+export function detectMessageLanguage(text: string): MessageLanguage | null {
+  if (/[а-яё]/i.test(text)) {
+    return 'RU';
+  }
+
+  const words = text.toLowerCase().replace(/['’]/g, '').match(/[a-z]+/g) || [];
+  return words.some((word) => ENGLISH_MARKERS.has(word)) ? 'EN' : null;
+}
+
+/**
+ * Language the user has consistently written in: the latest `required` user messages
+ * with a detectable language all agree. Null if they are mixed or too few.
+ * @param userMessages - user messages, oldest first
+ */
+export function detectConversationLanguage(
+  userMessages: string[],
+  required = LANGUAGE_SWITCH_MESSAGES
+): MessageLanguage | null {
+  const detected = userMessages
+    .map(detectMessageLanguage)
+    .filter((language): language is MessageLanguage => language !== null)
+    .slice(-required);
+
+  if (detected.length < required) {
+    return null;
+  }
+
+  return detected.every((language) => language === detected[0]) ? detected[0] : null;
+}
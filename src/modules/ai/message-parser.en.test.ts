@@ -0,0 +1,281 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseEnglishMessageForPreferences,
+  extractEnglishDescriptionKeywords,
+} from './message-parser.en';
+
+describe('parseEnglishMessageForPreferences', () => {
+  describe('brand detection', () => {
+    it('should detect Latin brand names', () => {
+      expect(parseEnglishMessageForPreferences('I want a Toyota').marka).toEqual(['Toyota']);
+      expect(parseEnglishMessageForPreferences('looking at bmw').marka).toEqual(['BMW']);
+    });
+
+    it('should detect multi-word brands', () => {
+      expect(parseEnglishMessageForPreferences('Land Rover Defender').marka).toEqual([
+        'Land Rover',
+      ]);
+      expect(parseEnglishMessageForPreferences('something from Alfa Romeo').marka).toEqual([
+        'Alfa Romeo',
+      ]);
+    });
+
+    it('should return undefined for no brand', () => {
+      expect(parseEnglishMessageForPreferences('I need a reliable car').marka).toBeUndefined();
+    });
+  });
+
+  describe('body type detection', () => {
+    it('should detect English body types', () => {
+      expect(parseEnglishMessageForPreferences('a sedan please').bodyType).toEqual(['Седан']);
+      expect(parseEnglishMessageForPreferences('compact crossover').bodyType).toEqual([
+        'Внедорожник',
+      ]);
+      expect(parseEnglishMessageForPreferences('estate for the dog').bodyType).toEqual([
+        'Универсал',
+      ]);
+    });
+
+    it('should detect plurals', () => {
+      expect(parseEnglishMessageForPreferences('show me SUVs').bodyType).toEqual([
+        'Внедорожник',
+      ]);
+      expect(parseEnglishMessageForPreferences('any hatchbacks?').bodyType).toEqual(['Хэтчбек']);
+    });
+  });
+
+  describe('year detection', () => {
+    it('should detect a single year as yearFrom', () => {
+      const prefs = parseEnglishMessageForPreferences('Camry 2020');
+      expect(prefs.yearFrom).toBe(2020);
+      expect(prefs.yearTo).toBeUndefined();
+    });
+
+    it('should detect year range', () => {
+      expect(parseEnglishMessageForPreferences('from 2018 to 2022')).toEqual({
+        yearFrom: 2018,
+        yearTo: 2022,
+      });
+      expect(parseEnglishMessageForPreferences('between 2010 and 2015')).toEqual({
+        yearFrom: 2010,
+        yearTo: 2015,
+      });
+    });
+
+    it('should detect "after YEAR" and "YEAR or newer" as yearFrom', () => {
+      expect(parseEnglishMessageForPreferences('after 2018')).toEqual({ yearFrom: 2018 });
+      expect(parseEnglishMessageForPreferences('2015 or newer')).toEqual({ yearFrom: 2015 });
+      expect(parseEnglishMessageForPreferences('2015+ please')).toEqual({ yearFrom: 2015 });
+      expect(parseEnglishMessageForPreferences('not older than 2017')).toEqual({
+        yearFrom: 2017,
+      });
+    });
+
+    it('should detect "before YEAR" and "YEAR or older" as yearTo', () => {
+      expect(parseEnglishMessageForPreferences('before 2020')).toEqual({ yearTo: 2020 });
+      expect(parseEnglishMessageForPreferences('2012 or older')).toEqual({ yearTo: 2012 });
+    });
+
+    it('should not read money as a year', () => {
+      const prefs = parseEnglishMessageForPreferences('up to $2000');
+      expect(prefs.yearFrom).toBeUndefined();
+      expect(prefs.yearTo).toBeUndefined();
+      expect(prefs.budget).toBe(2000);
+    });
+
+    it('should not match years outside 1970-2030 range', () => {
+      expect(parseEnglishMessageForPreferences('in 1960').yearFrom).toBeUndefined();
+    });
+  });
+
+  describe('transmission detection', () => {
+    it('should detect transmission keywords', () => {
+      expect(parseEnglishMessageForPreferences('automatic please').kpp).toEqual(['AT']);
+      expect(parseEnglishMessageForPreferences('manual gearbox').kpp).toEqual(['MT']);
+      expect(parseEnglishMessageForPreferences('with a CVT').kpp).toEqual(['CVT']);
+      expect(parseEnglishMessageForPreferences('DSG is fine').kpp).toEqual(['Robot']);
+    });
+
+    it('should read "stick" as manual', () => {
+      expect(parseEnglishMessageForPreferences('I drive stick').kpp).toEqual(['MT']);
+      expect(parseEnglishMessageForPreferences('stick shift only').kpp).toEqual(['MT']);
+    });
+  });
+
+  describe('budget detection', () => {
+    it('should detect dollar budgets', () => {
+      expect(parseEnglishMessageForPreferences('$30k')).toEqual({
+        budget: 30_000,
+        budgetCurrency: 'USD',
+      });
+      expect(parseEnglishMessageForPreferences('30,000 USD')).toEqual({
+        budget: 30_000,
+        budgetCurrency: 'USD',
+      });
+      expect(parseEnglishMessageForPreferences('under $25,000').budget).toBe(25_000);
+    });
+
+    it('should detect euro and ruble budgets', () => {
+      expect(parseEnglishMessageForPreferences('€25k')).toEqual({
+        budget: 25_000,
+        budgetCurrency: 'EUR',
+      });
+      expect(parseEnglishMessageForPreferences('2.5m rubles')).toEqual({
+        budget: 2_500_000,
+        budgetCurrency: 'RUB',
+      });
+    });
+
+    it('should detect a budget without currency', () => {
+      expect(parseEnglishMessageForPreferences('budget 30k')).toEqual({ budget: 30_000 });
+    });
+
+    it('should return undefined for no budget', () => {
+      expect(parseEnglishMessageForPreferences('I want a car').budget).toBeUndefined();
+      expect(parseEnglishMessageForPreferences('under 5 years old').budget).toBeUndefined();
+    });
+  });
+
+  describe('false positive prevention', () => {
+    it('should not match "at" as a transmission', () => {
+      expect(parseEnglishMessageForPreferences('look at this car').kpp).toBeUndefined();
+    });
+
+    it('should not match brand substrings inside words', () => {
+      expect(parseEnglishMessageForPreferences('Oxford is my city').marka).toBeUndefined();
+    });
+
+    it('should not read horsepower as engine volume', () => {
+      const prefs = parseEnglishMessageForPreferences('200 hp');
+      expect(prefs.engineVolumeFrom).toBeUndefined();
+      expect(prefs.engineVolumeTo).toBeUndefined();
+    });
+  });
+
+  describe('multiple values', () => {
+    it('should detect several brands in order', () => {
+      expect(parseEnglishMessageForPreferences('Toyota or Mazda').marka).toEqual([
+        'Toyota',
+        'Mazda',
+      ]);
+    });
+
+    it('should detect several body types', () => {
+      expect(parseEnglishMessageForPreferences('SUVs and sedans').bodyType).toEqual([
+        'Внедорожник',
+        'Седан',
+      ]);
+    });
+  });
+
+  describe('negation detection', () => {
+    it('should read "no" and "without" as exclusions', () => {
+      expect(parseEnglishMessageForPreferences('no CVT')).toEqual({ excludedKpp: ['CVT'] });
+      expect(parseEnglishMessageForPreferences('a sedan without a CVT')).toEqual({
+        bodyType: ['Седан'],
+        excludedKpp: ['CVT'],
+      });
+    });
+
+    it('should handle contractions', () => {
+      const prefs = parseEnglishMessageForPreferences("I don't want a Toyota, maybe Honda");
+      expect(prefs.marka).toEqual(['Honda']);
+      expect(prefs.excludedBrands).toEqual(['Toyota']);
+    });
+
+    it('should negate the clause of a negated verb', () => {
+      expect(parseEnglishMessageForPreferences("I'm not interested in Kia")).toEqual({
+        excludedBrands: ['Kia'],
+      });
+    });
+
+    it('should not treat comparatives as exclusions', () => {
+      const prefs = parseEnglishMessageForPreferences('Toyota, no older than 2018');
+      expect(prefs.marka).toEqual(['Toyota']);
+      expect(prefs.yearFrom).toBe(2018);
+      expect(prefs.excludedBrands).toBeUndefined();
+    });
+  });
+
+  describe('numeric constraints', () => {
+    const now = new Date('2026-10-19T12:00:00Z');
+
+    it('should detect power bounds', () => {
+      expect(parseEnglishMessageForPreferences('at least 150 hp', now)).toEqual({
+        powerFrom: 150,
+      });
+      expect(parseEnglishMessageForPreferences('no more than 200 hp', now)).toEqual({
+        powerTo: 200,
+      });
+      expect(parseEnglishMessageForPreferences('150-200 horsepower', now)).toEqual({
+        powerFrom: 150,
+        powerTo: 200,
+      });
+    });
+
+    it('should detect engine volume', () => {
+      expect(parseEnglishMessageForPreferences('2.0L engine', now)).toEqual({
+        engineVolumeFrom: 2,
+        engineVolumeTo: 2,
+      });
+      expect(parseEnglishMessageForPreferences('under 1.6 liters', now)).toEqual({
+        engineVolumeTo: 1.6,
+      });
+    });
+
+    it('should resolve relative age against the current date', () => {
+      expect(parseEnglishMessageForPreferences('under 5 years old', now).yearFrom).toBe(2021);
+      expect(parseEnglishMessageForPreferences('no older than three years', now).yearFrom).toBe(
+        2023
+      );
+      expect(parseEnglishMessageForPreferences('less than a year old', now).yearFrom).toBe(2025);
+    });
+  });
+
+  describe('combined extraction', () => {
+    it('should extract everything from a detailed request', () => {
+      const prefs = parseEnglishMessageForPreferences(
+        'Looking for a Honda SUV, automatic, 2018 or newer, up to $30k'
+      );
+      expect(prefs).toEqual({
+        marka: ['Honda'],
+        bodyType: ['Внедорожник'],
+        kpp: ['AT'],
+        yearFrom: 2018,
+        budget: 30_000,
+        budgetCurrency: 'USD',
+      });
+    });
+  });
+});
+
+describe('extractEnglishDescriptionKeywords', () => {
+  it('should extract content keywords', () => {
+    const keywords = extractEnglishDescriptionKeywords(
+      'I need a reliable family car with a spacious trunk'
+    );
+    expect(keywords).toEqual(['reliable', 'family', 'spacious', 'trunk']);
+  });
+
+  it('should filter out brands, body types and transmissions', () => {
+    const keywords = extractEnglishDescriptionKeywords('Toyota sedan automatic with leather seats');
+    expect(keywords).toEqual(['leather', 'seats']);
+  });
+
+  it('should filter out numbers and constraint words', () => {
+    expect(
+      extractEnglishDescriptionKeywords('no older than three years, at least 150 hp, $30k')
+    ).toEqual([]);
+  });
+
+  it('should skip negated words', () => {
+    expect(extractEnglishDescriptionKeywords('quiet, but not noisy')).toEqual(['quiet']);
+  });
+
+  it('should return max 5 keywords', () => {
+    const keywords = extractEnglishDescriptionKeywords(
+      'comfortable spacious reliable economical quiet powerful safe'
+    );
+    expect(keywords.length).toBeLessThanOrEqual(5);
+  });
+});
@@ -0,0 +1,405 @@
+import { UserPreferences } from './ai.types';
+import {
+  NumericRange,
+  POWER_TOLERANCE,
+  RangeGrammar,
+  WORD_START,
+  findBrands,
+  findLookupValues,
+  parseRange,
+  splitNegatedTokens,
+} from './message-parser';
+
+type Kpp = NonNullable<UserPreferences['kpp']>[number];
+type Currency = NonNullable<UserPreferences['budgetCurrency']>;
+
+// ============================================
+// KEYWORD DATA
+// ============================================
+
+/**
+ * Body type mappings: English keyword -> DB bodyType substring
+ */
+const BODY_TYPE_KEYWORDS: Map<string, string> = new Map([
+  ['sedan', 'Седан'],
+  ['saloon', 'Седан'],
+  ['hatchback', 'Хэтчбек'],
+  ['hatch', 'Хэтчбек'],
+  ['suv', 'Внедорожник'],
+  ['crossover', 'Внедорожник'],
+  ['cuv', 'Внедорожник'],
+  ['coupe', 'Купе'],
+  ['wagon', 'Универсал'],
+  ['estate', 'Универсал'],
+  ['minivan', 'Минивэн'],
+  ['mpv', 'Минивэн'],
+  ['van', 'Минивэн'],
+  ['pickup', 'Пикап'],
+  ['truck', 'Пикап'],
+  ['convertible', 'Кабриолет'],
+  ['cabriolet', 'Кабриолет'],
+  ['cabrio', 'Кабриолет'],
+  ['liftback', 'Лифтбек'],
+]);
+
+/**
+ * Transmission keywords -> DB kppText value ("stick" and "stick shift" are manual)
+ */
+const KPP_KEYWORDS: Map<string, Kpp> = new Map<string, Kpp>([
+  ['automatic', 'AT'],
+  ['tiptronic', 'AT'],
+  ['manual', 'MT'],
+  ['stick', 'MT'],
+  ['stickshift', 'MT'],
+  ['cvt', 'CVT'],
+  ['variator', 'CVT'],
+  ['robot', 'Robot'],
+  ['robotic', 'Robot'],
+  ['dct', 'Robot'],
+  ['dsg', 'Robot'],
+  ['amt', 'AMT'],
+]);
+
+/**
+ * Number words used with ages: "under three years old"
+ */
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5,
+  six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+
+/**
+ * Currency symbols and words -> currency code
+ */
+const CURRENCY_WORDS: Array<{ pattern: string; currency: Currency }> = [
+  { pattern: '\\$|usd|dollars?|bucks', currency: 'USD' },
+  { pattern: '€|eur|euros?', currency: 'EUR' },
+  { pattern: '₽|rub|rubles?|roubles?', currency: 'RUB' },
+];
+
+// ============================================
+// TOKEN LOOKUPS
+// ============================================
+
+/**
+ * Keyword and plural forms ("suvs", "coupes")
+ */
+function lookupForms<T>(keywords: Map<string, T>): Map<string, T> {
+  const forms = new Map<string, T>();
+  for (const [keyword, value] of keywords.entries()) {
+    forms.set(keyword, value);
+    forms.set(`${keyword}s`, value);
+  }
+  return forms;
+}
+
+const bodyTypeWordForms = lookupForms(BODY_TYPE_KEYWORDS);
+const kppWordForms = lookupForms(KPP_KEYWORDS);
+
+// ============================================
+// NUMERIC CONSTRAINTS (power, engine volume, age)
+// ============================================
+
+const LOWER_BOUND = `${WORD_START}(?:at\\s+least|(?:no|not)\\s+less\\s+than|min(?:imum)?(?:\\s+of)?|from|over|above|(?<!(?:no|not)\\s)more\\s+than|greater\\s+than)`;
+const UPPER_BOUND = `${WORD_START}(?:up\\s+to|under|below|less\\s+than|(?:no|not)\\s+more\\s+than|at\\s+most|max(?:imum)?(?:\\s+of)?|within)`;
+const BETWEEN: RangeGrammar['between'] = [
+  `(?:${WORD_START}(?:from|between)\\s*)?`,
+  '(?:to|and|-|–)',
+];
+
+const POWER_GRAMMAR: RangeGrammar = {
+  number: '\\d{2,4}',
+  unit: '(?:hp|bhp|horsepower|horses|ps)(?![a-z])',
+  lower: LOWER_BOUND,
+  upper: UPPER_BOUND,
+  between: BETWEEN,
+  min: 30,
+  max: 2000,
+};
+
+const ENGINE_VOLUME_GRAMMAR: RangeGrammar = {
+  number: '\\d(?:\\.\\d)?',
+  // "2.0l", "2 liter", "2.5-litre"
+  unit: '-?(?:lit(?:er|re)s?|l)(?![a-z])',
+  prefix: '(?:engine\\s+(?:size|volume|displacement)|displacement)(?:\\s+of)?',
+  lower: LOWER_BOUND,
+  upper: UPPER_BOUND,
+  between: BETWEEN,
+  min: 0.6,
+  max: 8,
+};
+
+const AGE_NUMBER = `\\d{1,2}|${Object.keys(NUMBER_WORDS).join('|')}`;
+
+/**
+ * Parse a maximum age into the earliest model year against the current year:
+ * "under 5 years old", "no older than three years", "up to 3 years"
+ */
+function parseMaxAge(text: string, currentYear: number): number | null {
+  const match = text.match(
+    new RegExp(
+      `${WORD_START}(?:under|less\\s+than|(?:no|not)\\s+older\\s+than|younger\\s+than|up\\s+to|at\\s+most|max(?:imum)?)\\s+(${AGE_NUMBER})\\s+years?(?![a-z])`
+    )
+  );
+  if (!match) return null;
+
+  return currentYear - (NUMBER_WORDS[match[1]] ?? Number(match[1]));
+}
+
+/**
+ * Numeric constraints of a message as preference fields
+ */
+function parseNumericConstraints(text: string, now: Date): UserPreferences {
+  const preferences: UserPreferences = {};
+
+  const power = parseRange(text, POWER_GRAMMAR);
+  if (power?.exact !== undefined) {
+    preferences.powerFrom = Math.round(power.exact * (1 - POWER_TOLERANCE));
+    preferences.powerTo = Math.round(power.exact * (1 + POWER_TOLERANCE));
+  } else if (power) {
+    if (power.from !== undefined) preferences.powerFrom = power.from;
+    if (power.to !== undefined) preferences.powerTo = power.to;
+  }
+
+  const volume = parseRange(text, ENGINE_VOLUME_GRAMMAR);
+  if (volume?.exact !== undefined) {
+    preferences.engineVolumeFrom = volume.exact;
+    preferences.engineVolumeTo = volume.exact;
+  } else if (volume) {
+    if (volume.from !== undefined) preferences.engineVolumeFrom = volume.from;
+    if (volume.to !== undefined) preferences.engineVolumeTo = volume.to;
+  }
+
+  const yearFrom = parseMaxAge(text, now.getFullYear());
+  if (yearFrom !== null) preferences.yearFrom = yearFrom;
+
+  return preferences;
+}
+
+// ============================================
+// YEARS
+// ============================================
+
+// Years not written as money: "$2000", "2000 usd"
+const YEAR_PATTERN = /(?<![$€₽]\s?)\b(19[7-9]\d|20[0-3]\d)\b(?!\s*(?:usd|eur|rub|dollars?|euros?|bucks|k\b))/g;
+
+/**
+ * "after 2018", "2015 or newer", "2015+", "before 2020", "2010-2015"
+ */
+function parseYears(text: string): NumericRange | null {
+  const matches = Array.from(text.matchAll(YEAR_PATTERN));
+  if (matches.length === 0) return null;
+
+  if (matches.length >= 2) {
+    const years = matches.map((match) => Number(match[1])).sort((a, b) => a - b);
+    return { from: years[0], to: years[years.length - 1] };
+  }
+
+  const year = Number(matches[0][1]);
+  const before = text.slice(0, matches[0].index);
+  const after = text.slice(matches[0].index! + matches[0][0].length);
+
+  if (/^\s*(?:\+|(?:or|and)\s+(?:newer|later|above|up))/.test(after)) {
+    return { from: year };
+  }
+  if (/^\s*(?:or|and)\s+(?:older|earlier|below)/.test(after)) {
+    return { to: year };
+  }
+  if (/(?:after|since|from|starting|newer\s+than|(?:no|not)\s+older\s+than)\s*$/.test(before)) {
+    return { from: year };
+  }
+  if (/(?:before|until|till|up\s+to|older\s+than|(?:no|not)\s+newer\s+than)\s*$/.test(before)) {
+    return { to: year };
+  }
+  return { from: year };
+}
+
+// ============================================
+// BUDGET
+// ============================================
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1_000,
+  thousand: 1_000,
+  m: 1_000_000,
+  mln: 1_000_000,
+  million: 1_000_000,
+};
+
+const AMOUNT = '(\\d{1,3}(?:,\\d{3})+|\\d+(?:\\.\\d+)?)\\s*(k|thousand|mln|million|m)?(?![a-z])';
+
+function currencyOf(word: string): Currency | undefined {
+  return CURRENCY_WORDS.find(({ pattern }) => new RegExp(`^(?:${pattern})$`).test(word))?.currency;
+}
+
+function amountOf(number: string, multiplier: string | undefined): number {
+  const value = parseFloat(number.replace(/,/g, ''));
+  return Math.round(value * (multiplier ? MULTIPLIERS[multiplier] : 1));
+}
+
+/**
+ * "$30k", "30,000 USD", "€25k", "2.5m rubles", "budget 30k" (no currency)
+ */
+function parseBudget(text: string): { budget: number; currency?: Currency } | null {
+  const currencies = CURRENCY_WORDS.map(({ pattern }) => pattern).join('|');
+
+  const prefixed = text.match(new RegExp(`([$€₽])\\s*${AMOUNT}`));
+  if (prefixed) {
+    return { budget: amountOf(prefixed[2], prefixed[3]), currency: currencyOf(prefixed[1]) };
+  }
+
+  const suffixed = text.match(new RegExp(`${AMOUNT}\\s*(${currencies})(?![a-z])`));
+  if (suffixed) {
+    return { budget: amountOf(suffixed[1], suffixed[2]), currency: currencyOf(suffixed[3]) };
+  }
+
+  const bare = text.match(
+    new RegExp(`${WORD_START}(?:budget(?:\\s+(?:is|of))?|under|up\\s+to|below|max(?:imum)?)[:\\s]*${AMOUNT}`)
+  );
+  // Bare numbers need a multiplier or 4+ digits: "under 5 years" is not money
+  if (bare && (bare[2] || /\d{4,}|,/.test(bare[1]))) {
+    return { budget: amountOf(bare[1], bare[2]) };
+  }
+
+  return null;
+}
+
+// ============================================
+// MAIN PARSER
+// ============================================
+
+/**
+ * Parse an English user message to extract car preferences.
+ * Mirrors parseMessageForPreferences (brands, exclusions and ranges share its machinery);
+ * budgets keep the stated currency in budgetCurrency.
+ */
+export function parseEnglishMessageForPreferences(
+  message: string,
+  now: Date = new Date(),
+): UserPreferences {
+  const preferences: UserPreferences = {};
+  const text = message.toLowerCase();
+  // Negated mentions ("no toyota", "I don't want a sedan") become exclusions
+  const { positive: tokens, negated } = splitNegatedTokens(message);
+
+  // 1. Brand detection
+  const brands = findBrands(tokens);
+  if (brands.length > 0) {
+    preferences.marka = brands;
+  }
+
+  // 2. Body type detection
+  const bodyTypes = findLookupValues(tokens, bodyTypeWordForms);
+  if (bodyTypes.length > 0) {
+    preferences.bodyType = bodyTypes;
+  }
+
+  // 3. Year detection, then relative age ("under 5 years old") if no year is given
+  const years = parseYears(text);
+  const numeric = parseNumericConstraints(text, now);
+  if (years) {
+    if (years.from !== undefined) preferences.yearFrom = years.from;
+    if (years.to !== undefined) preferences.yearTo = years.to;
+  } else if (numeric.yearFrom !== undefined) {
+    preferences.yearFrom = numeric.yearFrom;
+  }
+
+  // 4. Transmission detection
+  const kpps = findLookupValues(tokens, kppWordForms);
+  if (kpps.length > 0) {
+    preferences.kpp = kpps;
+  }
+
+  // 5. Exclusions from negated clauses
+  const excludedBrands = findBrands(negated);
+  if (excludedBrands.length > 0) {
+    preferences.excludedBrands = excludedBrands;
+  }
+
+  const excludedBodyTypes = findLookupValues(negated, bodyTypeWordForms);
+  if (excludedBodyTypes.length > 0) {
+    preferences.excludedBodyTypes = excludedBodyTypes;
+  }
+
+  const excludedKpp = findLookupValues(negated, kppWordForms);
+  if (excludedKpp.length > 0) {
+    preferences.excludedKpp = excludedKpp;
+  }
+
+  // 6. Power and engine volume ranges ("at least 150 hp", "2.0l")
+  for (const key of ['powerFrom', 'powerTo', 'engineVolumeFrom', 'engineVolumeTo'] as const) {
+    if (numeric[key] !== undefined) preferences[key] = numeric[key];
+  }
+
+  // 7. Budget detection
+  const budget = parseBudget(text);
+  if (budget) {
+    preferences.budget = budget.budget;
+    if (budget.currency) preferences.budgetCurrency = budget.currency;
+  }
+
+  return preferences;
+}
+
+// ============================================
+// DESCRIPTION KEYWORD EXTRACTION
+// ============================================
+
+/**
+ * English stop words — common words that don't carry meaning for description search.
+ */
+const STOP_WORDS = new Set([
+  // Pronouns & determiners
+  'this', 'that', 'these', 'those', 'they', 'them', 'their', 'there', 'what', 'which',
+  'something', 'anything', 'some', 'such', 'each', 'every', 'other', 'your', 'mine',
+  // Verbs (common)
+  'want', 'wants', 'need', 'needs', 'looking', 'look', 'find', 'search', 'show', 'tell',
+  'know', 'think', 'would', 'could', 'should', 'have', 'does', 'like', 'please',
+  'recommend', 'suggest', 'help', 'pick', 'choose', 'give', 'about', 'consider', 'considering',
+  // Nouns (generic / automotive-context)
+  'car', 'cars', 'vehicle', 'vehicles', 'auto', 'automobile', 'ride',
+  'brand', 'brands', 'make', 'model', 'models', 'year', 'years', 'price', 'budget',
+  'engine', 'power', 'horsepower', 'horses', 'liter', 'liters', 'litre', 'litres',
+  'transmission', 'gearbox', 'shift', 'dollars', 'euros', 'rubles', 'bucks', 'thousand', 'million',
+  // Adjectives (generic)
+  'good', 'best', 'better', 'nice', 'great', 'fresh', 'used', 'older', 'newer',
+  // Prepositions & conjunctions (4+ chars that pass length filter)
+  'with', 'from', 'into', 'than', 'then', 'under', 'over', 'above', 'below', 'after',
+  'before', 'since', 'until', 'least', 'most', 'more', 'less', 'between', 'around',
+  'also', 'just', 'only', 'very', 'really', 'maybe', 'because', 'while',
+]);
+
+/**
+ * Extract keywords from an English message for description text search.
+ * Removes brands, body types, transmissions, numbers, negated clauses and stop words.
+ */
+export function extractEnglishDescriptionKeywords(message: string): string[] {
+  const tokens = splitNegatedTokens(message).positive;
+
+  const keywords: string[] = [];
+  const seen = new Set<string>();
+
+  for (const word of tokens) {
+    // Skip short words (< 4 chars) — filters most prepositions/particles
+    if (word.length < 4) continue;
+
+    // Skip numbers and amounts ("30k", "2.0l" tokenizes to "0l")
+    if (/^\d+[a-z]?$/.test(word) || word in NUMBER_WORDS) continue;
+
+    // Skip known patterns (brands, body types, KPP)
+    if (findBrands([word]).length > 0) continue;
+    if (bodyTypeWordForms.has(word) || kppWordForms.has(word)) continue;
+
+    // Skip stop words
+    if (STOP_WORDS.has(word)) continue;
+
+    // Skip duplicates
+    if (seen.has(word)) continue;
+    seen.add(word);
+
+    keywords.push(word);
+  }
+
+  // Return max 5 keywords
+  return keywords.slice(0, 5);
+}
@@ -5,27 +5,27 @@ import type { UserPreferences } from './ai.types';
 describe('parseMessageForPreferences', () => {
   describe('brand detection', () => {
     it('should detect Cyrillic brand names', () => {
-      expect(parseMessageForPreferences('Хочу тойоту').marka).toBe('Toyota');
-      expect(parseMessageForPreferences('Посоветуй бмв').marka).toBe('BMW');
-      expect(parseMessageForPreferences('Ищу мерседес').marka).toBe('Mercedes-Benz');
-      expect(parseMessageForPreferences('Нравится ауди').marka).toBe('Audi');
+      expect(parseMessageForPreferences('Хочу тойоту').marka).toEqual(['Toyota']);
+      expect(parseMessageForPreferences('Посоветуй бмв').marka).toEqual(['BMW']);
+      expect(parseMessageForPreferences('Ищу мерседес').marka).toEqual(['Mercedes-Benz']);
+      expect(parseMessageForPreferences('Нравится ауди').marka).toEqual(['Audi']);
     });
 
     it('should detect Latin brand names', () => {
-      expect(parseMessageForPreferences('I want a Toyota').marka).toBe('Toyota');
-      expect(parseMessageForPreferences('Looking for BMW').marka).toBe('BMW');
-      expect(parseMessageForPreferences('Show me Hyundai').marka).toBe('Hyundai');
+      expect(parseMessageForPreferences('I want a Toyota').marka).toEqual(['Toyota']);
+      expect(parseMessageForPreferences('Looking for BMW').marka).toEqual(['BMW']);
+      expect(parseMessageForPreferences('Show me Hyundai').marka).toEqual(['Hyundai']);
     });
 
     it('should handle multi-word Cyrillic brands', () => {
-      expect(parseMessageForPreferences('Хочу ленд ровер').marka).toBe('Land Rover');
-      expect(parseMessageForPreferences('альфа ромео подойдет').marka).toBe('Alfa Romeo');
-      expect(parseMessageForPreferences('астон мартин — мечта').marka).toBe('Aston Martin');
+      expect(parseMessageForPreferences('Хочу ленд ровер').marka).toEqual(['Land Rover']);
+      expect(parseMessageForPreferences('альфа ромео подойдет').marka).toEqual(['Alfa Romeo']);
+      expect(parseMessageForPreferences('астон мартин — мечта').marka).toEqual(['Aston Martin']);
     });
 
     it('should handle multi-word Latin brands', () => {
-      expect(parseMessageForPreferences('I like Land Rover').marka).toBe('Land Rover');
-      expect(parseMessageForPreferences('Alfa Romeo is nice').marka).toBe('Alfa Romeo');
+      expect(parseMessageForPreferences('I like Land Rover').marka).toEqual(['Land Rover']);
+      expect(parseMessageForPreferences('Alfa Romeo is nice').marka).toEqual(['Alfa Romeo']);
     });
 
     it('should return undefined marka when no brand found', () => {
@@ -36,17 +36,17 @@ describe('parseMessageForPreferences', () => {
 
   describe('body type detection', () => {
     it('should detect Russian body type keywords and map to DB values', () => {
-      expect(parseMessageForPreferences('Хочу седан').bodyType).toBe('Седан');
-      expect(parseMessageForPreferences('Нужен кроссовер').bodyType).toBe('Внедорожник');
-      expect(parseMessageForPreferences('Ищу внедорожник').bodyType).toBe('Внедорожник');
-      expect(parseMessageForPreferences('Подбери универсал').bodyType).toBe('Универсал');
-      expect(parseMessageForPreferences('Хочу минивэн').bodyType).toBe('Минивэн');
-      expect(parseMessageForPreferences('Нравится купе').bodyType).toBe('Купе');
+      expect(parseMessageForPreferences('Хочу седан').bodyType).toEqual(['Седан']);
+      expect(parseMessageForPreferences('Нужен кроссовер').bodyType).toEqual(['Внедорожник']);
+      expect(parseMessageForPreferences('Ищу внедорожник').bodyType).toEqual(['Внедорожник']);
+      expect(parseMessageForPreferences('Подбери универсал').bodyType).toEqual(['Универсал']);
+      expect(parseMessageForPreferences('Хочу минивэн').bodyType).toEqual(['Минивэн']);
+      expect(parseMessageForPreferences('Нравится купе').bodyType).toEqual(['Купе']);
     });
 
     it('should detect English body types and map to DB values', () => {
-      expect(parseMessageForPreferences('I want an SUV').bodyType).toBe('Внедорожник');
-      expect(parseMessageForPreferences('Looking for a sedan').bodyType).toBe('Седан');
+      expect(parseMessageForPreferences('I want an SUV').bodyType).toEqual(['Внедорожник']);
+      expect(parseMessageForPreferences('Looking for a sedan').bodyType).toEqual(['Седан']);
     });
 
     it('should return undefined for no body type', () => {
@@ -98,20 +98,20 @@ describe('parseMessageForPreferences', () => {
 
   describe('transmission detection', () => {
     it('should detect Russian transmission keywords', () => {
-      expect(parseMessageForPreferences('хочу на автомате').kpp).toBe('AT');
-      expect(parseMessageForPreferences('только механика').kpp).toBe('MT');
-      expect(parseMessageForPreferences('с вариатором').kpp).toBe('CVT');
-      expect(parseMessageForPreferences('на роботе').kpp).toBe('Robot');
+      expect(parseMessageForPreferences('хочу на автомате').kpp).toEqual(['AT']);
+      expect(parseMessageForPreferences('только механика').kpp).toEqual(['MT']);
+      expect(parseMessageForPreferences('с вариатором').kpp).toEqual(['CVT']);
+      expect(parseMessageForPreferences('на роботе').kpp).toEqual(['Robot']);
     });
 
     it('should detect abbreviations', () => {
-      expect(parseMessageForPreferences('нужна акпп').kpp).toBe('AT');
-      expect(parseMessageForPreferences('нужна мкпп').kpp).toBe('MT');
+      expect(parseMessageForPreferences('нужна акпп').kpp).toEqual(['AT']);
+      expect(parseMessageForPreferences('нужна мкпп').kpp).toEqual(['MT']);
     });
 
     it('should detect English transmission keywords', () => {
-      expect(parseMessageForPreferences('automatic transmission').kpp).toBe('AT');
-      expect(parseMessageForPreferences('manual gearbox').kpp).toBe('MT');
+      expect(parseMessageForPreferences('automatic transmission').kpp).toEqual(['AT']);
+      expect(parseMessageForPreferences('manual gearbox').kpp).toEqual(['MT']);
     });
   });
 
@@ -164,23 +164,172 @@ describe('parseMessageForPreferences', () => {
 
   describe('declension support', () => {
     it('should match declined brand names', () => {
-      expect(parseMessageForPreferences('Доволен фордом').marka).toBe('Ford');
-      expect(parseMessageForPreferences('Расскажи о мазде').marka).toBe('Mazda');
+      expect(parseMessageForPreferences('Доволен фордом').marka).toEqual(['Ford']);
+      expect(parseMessageForPreferences('Расскажи о мазде').marka).toEqual(['Mazda']);
     });
 
     it('should match declined body types', () => {
-      expect(parseMessageForPreferences('В седане удобно').bodyType).toBe('Седан');
-      expect(parseMessageForPreferences('Кроссовером доволен').bodyType).toBe('Внедорожник');
+      expect(parseMessageForPreferences('В седане удобно').bodyType).toEqual(['Седан']);
+      expect(parseMessageForPreferences('Кроссовером доволен').bodyType).toEqual(['Внедорожник']);
     });
 
     it('should match купе exactly (indeclinable)', () => {
-      expect(parseMessageForPreferences('Хочу купе').bodyType).toBe('Купе');
+      expect(parseMessageForPreferences('Хочу купе').bodyType).toEqual(['Купе']);
     });
 
     it('should match declined KPP keywords', () => {
-      expect(parseMessageForPreferences('хочу на автомате').kpp).toBe('AT');
-      expect(parseMessageForPreferences('с вариатором').kpp).toBe('CVT');
-      expect(parseMessageForPreferences('на роботе').kpp).toBe('Robot');
+      expect(parseMessageForPreferences('хочу на автомате').kpp).toEqual(['AT']);
+      expect(parseMessageForPreferences('с вариатором').kpp).toEqual(['CVT']);
+      expect(parseMessageForPreferences('на роботе').kpp).toEqual(['Robot']);
+    });
+  });
+
+  describe('multiple values', () => {
+    it('should collect every brand, body type and transmission', () => {
+      const prefs = parseMessageForPreferences(
+        'Кроссовер от Тойоты или Мазды на автомате или вариаторе',
+      );
+      expect(prefs.marka).toEqual(['Toyota', 'Mazda']);
+      expect(prefs.bodyType).toEqual(['Внедорожник']);
+      expect(prefs.kpp).toEqual(['AT', 'CVT']);
+    });
+
+    it('should keep brands in order of mention without duplicates', () => {
+      expect(parseMessageForPreferences('Land Rover или тойота, а может снова тойоту').marka).toEqual([
+        'Land Rover',
+        'Toyota',
+      ]);
+      expect(parseMessageForPreferences('Седан или универсал').bodyType).toEqual([
+        'Седан',
+        'Универсал',
+      ]);
+    });
+  });
+
+  describe('negation detection', () => {
+    it('should turn negated brands into exclusions', () => {
+      const prefs = parseMessageForPreferences('Не хочу тойоту');
+      expect(prefs.marka).toBeUndefined();
+      expect(prefs.excludedBrands).toEqual(['Toyota']);
+    });
+
+    it('should keep the positive part of a contrast', () => {
+      const prefs = parseMessageForPreferences('Не хочу тойоту, хочу хонду');
+      expect(prefs.marka).toEqual(['Honda']);
+      expect(prefs.excludedBrands).toEqual(['Toyota']);
+
+      const withConjunction = parseMessageForPreferences('Хочу седан, только не Лада');
+      expect(withConjunction.bodyType).toEqual(['Седан']);
+      expect(withConjunction.excludedBrands).toEqual(['LADA']);
+    });
+
+    it('should exclude every brand in a negated list', () => {
+      const prefs = parseMessageForPreferences('Любой кроссовер кроме лады и киа');
+      expect(prefs.bodyType).toEqual(['Внедорожник']);
+      expect(prefs.excludedBrands).toEqual(['LADA', 'Kia']);
+    });
+
+    it('should detect excluded transmissions and body types', () => {
+      const prefs = parseMessageForPreferences('Хочу тойоту без вариатора и не хэтчбек');
+      expect(prefs.marka).toEqual(['Toyota']);
+      expect(prefs.kpp).toBeUndefined();
+      expect(prefs.excludedKpp).toEqual(['CVT']);
+      expect(prefs.excludedBodyTypes).toEqual(['Хэтчбек']);
+    });
+
+    it('should negate mentions before a negated verb', () => {
+      const prefs = parseMessageForPreferences('Ладу не предлагай');
+      expect(prefs.marka).toBeUndefined();
+      expect(prefs.excludedBrands).toEqual(['LADA']);
+    });
+
+    it('should handle English negation', () => {
+      const prefs = parseMessageForPreferences("I don't want a Kia, show me Mazda");
+      expect(prefs.marka).toEqual(['Mazda']);
+      expect(prefs.excludedBrands).toEqual(['Kia']);
+      expect(parseMessageForPreferences('No manual please').excludedKpp).toEqual(['MT']);
+    });
+
+    it('should not treat comparative limits as exclusions', () => {
+      const prefs = parseMessageForPreferences('Тойоту не старше 2015 года');
+      expect(prefs.marka).toEqual(['Toyota']);
+      expect(prefs.excludedBrands).toBeUndefined();
+    });
+  });
+
+  describe('numeric constraints', () => {
+    const now = new Date('2026-10-19T12:00:00Z');
+
+    it('should detect power bounds', () => {
+      expect(parseMessageForPreferences('от 150 л.с.', now)).toEqual({ powerFrom: 150 });
+      expect(parseMessageForPreferences('не больше 200 сил', now)).toEqual({ powerTo: 200 });
+      expect(parseMessageForPreferences('мощнее 120 лошадиных сил', now)).toEqual({
+        powerFrom: 120,
+      });
+    });
+
+    it('should detect a power range', () => {
+      const prefs = parseMessageForPreferences('от 150 до 200 л.с.', now);
+      expect(prefs.powerFrom).toBe(150);
+      expect(prefs.powerTo).toBe(200);
+    });
+
+    it('should detect a dash power range', () => {
+      expect(parseMessageForPreferences('мощность 150-200 л.с.', now)).toEqual({
+        powerFrom: 150,
+        powerTo: 200,
+      });
+      expect(parseMessageForPreferences('150–200 л.с.', now)).toEqual({ powerFrom: 150, powerTo: 200 });
+    });
+
+    it('should search an exact power within ±10%', () => {
+      const prefs = parseMessageForPreferences('нужно 150 лс', now);
+      expect(prefs.powerFrom).toBe(135);
+      expect(prefs.powerTo).toBe(165);
+    });
+
+    it('should detect engine volume', () => {
+      expect(parseMessageForPreferences('объём 2 литра', now)).toEqual({
+        engineVolumeFrom: 2,
+        engineVolumeTo: 2,
+      });
+      expect(parseMessageForPreferences('двигатель до 1,6 л', now).engineVolumeTo).toBe(1.6);
+      expect(parseMessageForPreferences('от 2.5 литров', now).engineVolumeFrom).toBe(2.5);
+    });
+
+    it('should detect a dash engine volume range', () => {
+      expect(parseMessageForPreferences('двигатель 1.6-2.0 л', now)).toEqual({
+        engineVolumeFrom: 1.6,
+        engineVolumeTo: 2,
+      });
+      expect(parseMessageForPreferences('1,4–1,8 литра', now)).toEqual({
+        engineVolumeFrom: 1.4,
+        engineVolumeTo: 1.8,
+      });
+    });
+
+    it('should not read "л.с." or "лет" as liters', () => {
+      const prefs = parseMessageForPreferences('200 л.с., не старше 3 лет', now);
+      expect(prefs.engineVolumeFrom).toBeUndefined();
+      expect(prefs.engineVolumeTo).toBeUndefined();
+    });
+
+    it('should resolve relative age against the current date', () => {
+      expect(parseMessageForPreferences('не старше 5 лет', now).yearFrom).toBe(2021);
+      expect(parseMessageForPreferences('свежий, до трёх лет', now).yearFrom).toBe(2023);
+      expect(parseMessageForPreferences('младше года', now).yearFrom).toBe(2025);
+    });
+
+    it('should prefer an explicit year over a relative age', () => {
+      const prefs = parseMessageForPreferences('не старше 2015 года', now);
+      expect(prefs.yearFrom).toBe(2015);
+      expect(prefs.yearTo).toBeUndefined();
+    });
+
+    it('should not read an age or power as budget', () => {
+      const prefs = parseMessageForPreferences('до 3 лет, 150 л.с., бюджет 2 млн', now);
+      expect(prefs.budget).toBe(2_000_000);
+      expect(prefs.yearFrom).toBe(2023);
     });
   });
 
@@ -189,26 +338,26 @@ describe('parseMessageForPreferences', () => {
       const prefs = parseMessageForPreferences(
         'Хочу тойоту седан 2020 на автомате бюджет 2 млн',
       );
-      expect(prefs.marka).toBe('Toyota');
-      expect(prefs.bodyType).toBe('Седан');
+      expect(prefs.marka).toEqual(['Toyota']);
+      expect(prefs.bodyType).toEqual(['Седан']);
       expect(prefs.yearFrom).toBe(2020);
-      expect(prefs.kpp).toBe('AT');
+      expect(prefs.kpp).toEqual(['AT']);
       expect(prefs.budget).toBe(2_000_000);
     });
 
     it('should extract brand + body type from simple request', () => {
       const prefs = parseMessageForPreferences('Ищу кроссовер Hyundai');
-      expect(prefs.marka).toBe('Hyundai');
-      expect(prefs.bodyType).toBe('Внедорожник');
+      expect(prefs.marka).toEqual(['Hyundai']);
+      expect(prefs.bodyType).toEqual(['Внедорожник']);
     });
 
     it('should extract from Russian casual message', () => {
       const prefs = parseMessageForPreferences(
         'Посоветуй бмв универсал на механике от 2018',
       );
-      expect(prefs.marka).toBe('BMW');
-      expect(prefs.bodyType).toBe('Универсал');
-      expect(prefs.kpp).toBe('MT');
+      expect(prefs.marka).toEqual(['BMW']);
+      expect(prefs.bodyType).toEqual(['Универсал']);
+      expect(prefs.kpp).toEqual(['MT']);
       expect(prefs.yearFrom).toBe(2018);
     });
   });
@@ -229,6 +378,11 @@ describe('extractDescriptionKeywords', () => {
     expect(keywords).not.toContain('1983');
   });
 
+  it('should filter out numeric constraint words', () => {
+    const keywords = extractDescriptionKeywords('свежий, до трёх лет, не больше 200 сил, объём 2 литра');
+    expect(keywords).toEqual([]);
+  });
+
   it('should filter out brand names', () => {
     const keywords = extractDescriptionKeywords('Расскажи про тойоту с полным приводом');
     expect(keywords).not.toContain('тойоту');
@@ -269,65 +423,115 @@ describe('extractDescriptionKeywords', () => {
     // All words are either < 4 chars or stop words
     expect(keywords).toHaveLength(0);
   });
+
+  it('should skip VINs', () => {
+    const keywords = extractDescriptionKeywords('Посчитай расходы по WBA3A5C51CF256985');
+    expect(keywords).toContain('расходы');
+    expect(keywords).not.toContain('wba3a5c51cf256985');
+  });
 });
 
 describe('mergePreferences', () => {
   it('should merge new preferences over old', () => {
-    const old: UserPreferences = { marka: 'Toyota', kpp: 'AT' };
-    const newer: UserPreferences = { marka: 'BMW', yearFrom: 2020 };
+    const old: UserPreferences = { marka: ['Toyota'], kpp: ['AT'] };
+    const newer: UserPreferences = { marka: ['BMW'], yearFrom: 2020 };
     const merged = mergePreferences(old, newer);
 
-    expect(merged.marka).toBe('BMW');
-    expect(merged.kpp).toBe('AT');
+    expect(merged.marka).toEqual(['BMW']);
+    expect(merged.kpp).toEqual(['AT']);
     expect(merged.yearFrom).toBe(2020);
   });
 
+  it('should drop the old budget currency when a budget is restated without one', () => {
+    const old: UserPreferences = { budget: 30_000, budgetCurrency: 'USD' };
+
+    expect(mergePreferences(old, { budget: 2_000_000 })).toEqual({ budget: 2_000_000 });
+    expect(mergePreferences(old, { yearFrom: 2020 })).toEqual({
+      budget: 30_000,
+      budgetCurrency: 'USD',
+      yearFrom: 2020,
+    });
+  });
+
   it('should not clear old values with undefined new values', () => {
-    const old: UserPreferences = { marka: 'Toyota', kpp: 'AT', yearFrom: 2018 };
+    const old: UserPreferences = { marka: ['Toyota'], kpp: ['AT'], yearFrom: 2018 };
     const newer: UserPreferences = { yearFrom: 2020 };
     const merged = mergePreferences(old, newer);
 
-    expect(merged.marka).toBe('Toyota');
-    expect(merged.kpp).toBe('AT');
+    expect(merged.marka).toEqual(['Toyota']);
+    expect(merged.kpp).toEqual(['AT']);
     expect(merged.yearFrom).toBe(2020);
   });
 
   it('should handle empty old preferences', () => {
     const old: UserPreferences = {};
-    const newer: UserPreferences = { marka: 'BMW', kpp: 'MT' };
+    const newer: UserPreferences = { marka: ['BMW'], kpp: ['MT'] };
     const merged = mergePreferences(old, newer);
 
-    expect(merged.marka).toBe('BMW');
-    expect(merged.kpp).toBe('MT');
+    expect(merged.marka).toEqual(['BMW']);
+    expect(merged.kpp).toEqual(['MT']);
   });
 
   it('should handle empty new preferences', () => {
-    const old: UserPreferences = { marka: 'Toyota', kpp: 'AT' };
+    const old: UserPreferences = { marka: ['Toyota'], kpp: ['AT'] };
     const newer: UserPreferences = {};
     const merged = mergePreferences(old, newer);
 
-    expect(merged.marka).toBe('Toyota');
-    expect(merged.kpp).toBe('AT');
+    expect(merged.marka).toEqual(['Toyota']);
+    expect(merged.kpp).toEqual(['AT']);
   });
 
   it('should not overwrite with empty string', () => {
-    const old: UserPreferences = { marka: 'Toyota' };
+    const old: UserPreferences = { marka: ['Toyota'] };
     const newer: UserPreferences = { marka: '' as any };
     const merged = mergePreferences(old, newer);
 
-    expect(merged.marka).toBe('Toyota');
+    expect(merged.marka).toEqual(['Toyota']);
+  });
+
+  it('should accumulate exclusions without duplicates', () => {
+    const merged = mergePreferences(
+      { excludedBrands: ['LADA'] },
+      { excludedBrands: ['lada', 'Kia'], excludedKpp: ['CVT'] }
+    );
+
+    expect(merged.excludedBrands).toEqual(['LADA', 'Kia']);
+    expect(merged.excludedKpp).toEqual(['CVT']);
+  });
+
+  it('should drop the current brand and its model when it gets excluded', () => {
+    const merged = mergePreferences(
+      { marka: ['Toyota'], model: 'Camry', kpp: ['AT'] },
+      { excludedBrands: ['Toyota'] }
+    );
+
+    expect(merged.marka).toBeUndefined();
+    expect(merged.model).toBeUndefined();
+    expect(merged.kpp).toEqual(['AT']);
+    expect(merged.excludedBrands).toEqual(['Toyota']);
+  });
+
+  it('should lift an exclusion when the value is asked for again', () => {
+    const merged = mergePreferences(
+      { excludedBrands: ['Toyota', 'LADA'], excludedKpp: ['CVT'] },
+      { marka: ['Toyota'], kpp: ['CVT'] }
+    );
+
+    expect(merged.marka).toEqual(['Toyota']);
+    expect(merged.excludedBrands).toEqual(['LADA']);
+    expect(merged.excludedKpp).toBeUndefined();
   });
 
   it('should accumulate preferences across multiple merges', () => {
     let prefs: UserPreferences = {};
-    prefs = mergePreferences(prefs, { marka: 'Toyota' });
-    prefs = mergePreferences(prefs, { bodyType: 'Седан' });
-    prefs = mergePreferences(prefs, { kpp: 'AT', yearFrom: 2020 });
+    prefs = mergePreferences(prefs, { marka: ['Toyota'] });
+    prefs = mergePreferences(prefs, { bodyType: ['Седан'] });
+    prefs = mergePreferences(prefs, { kpp: ['AT'], yearFrom: 2020 });
 
     expect(prefs).toEqual({
-      marka: 'Toyota',
-      bodyType: 'Седан',
-      kpp: 'AT',
+      marka: ['Toyota'],
+      bodyType: ['Седан'],
+      kpp: ['AT'],
       yearFrom: 2020,
     });
   });
@@ -1,6 +1,8 @@
 import { UserPreferences } from './ai.types';
 import { BRAND_ALIASES } from './brand-aliases';
 
+type Kpp = NonNullable<UserPreferences['kpp']>[number];
+
 const CYRILLIC_VOWELS = 'аеёиоуыэюя';
 
 // ============================================
@@ -122,7 +124,7 @@ const BODY_TYPE_KEYWORDS: Map<string, string> = new Map([
  * Transmission keywords: Russian/English -> DB kppText value
  * DB uses: "AT", "MT", "CVT", "Robot", "AMT"
  */
-const KPP_KEYWORDS: Map<string, string> = new Map([
+const KPP_KEYWORDS: Map<string, Kpp> = new Map<string, Kpp>([
   ['автомат', 'AT'],
   ['акпп', 'AT'],
   ['автоматическая', 'AT'],
@@ -173,7 +175,7 @@ const multiWordBrandPatterns: MultiWordPattern[] = [];
 
 // Body type and KPP lookups
 const bodyTypeWordForms = new Map<string, string>();
-const kppWordForms = new Map<string, string>();
+const kppWordForms = new Map<string, Kpp>();
 
 // Latin brand lookups
 const singleWordLatinBrandLookup = new Map<string, string>();
@@ -251,90 +253,329 @@ function buildLookups() {
 buildLookups();
 
 // ============================================
-// MULTI-WORD PATTERN MATCHING
+// MENTION DETECTION
 // ============================================
 
 /**
- * Check if consecutive tokens match a multi-word pattern.
- * Each position's token must be in the corresponding wordSet.
+ * Find all brands mentioned in tokens, in order of appearance.
+ * Multi-word patterns are matched first (longer patterns first) and their
+ * tokens are not reused, so "ленд ровер" is not also read as "Rover".
  */
-function matchMultiWordPattern(tokens: string[], pattern: MultiWordPattern): boolean {
-  const patternLen = pattern.wordSets.length;
-  for (let i = 0; i <= tokens.length - patternLen; i++) {
-    let match = true;
-    for (let j = 0; j < patternLen; j++) {
-      if (!pattern.wordSets[j].has(tokens[i + j])) {
-        match = false;
-        break;
+export function findBrands(tokens: string[]): string[] {
+  const matches: Array<{ position: number; value: string }> = [];
+  const used = new Set<number>();
+
+  for (const pattern of [...multiWordBrandPatterns, ...multiWordLatinBrandPatterns]) {
+    const patternLen = pattern.wordSets.length;
+    for (let i = 0; i <= tokens.length - patternLen; i++) {
+      const free = pattern.wordSets.every((set, j) => !used.has(i + j) && set.has(tokens[i + j]));
+      if (free) {
+        for (let j = 0; j < patternLen; j++) used.add(i + j);
+        matches.push({ position: i, value: pattern.value });
       }
     }
-    if (match) return true;
   }
-  return false;
+
+  tokens.forEach((token, i) => {
+    if (used.has(i)) return;
+    // Cyrillic aliases take priority over Latin names
+    const brand = singleWordBrandLookup.get(token) ?? singleWordLatinBrandLookup.get(token);
+    if (brand) matches.push({ position: i, value: brand });
+  });
+
+  const found: string[] = [];
+  for (const { value } of matches.sort((a, b) => a.position - b.position)) {
+    if (!found.includes(value)) found.push(value);
+  }
+  return found;
+}
+
+/**
+ * Find all distinct values of a token lookup (body types, KPP) in tokens
+ */
+export function findLookupValues<T>(tokens: string[], lookup: Map<string, T>): T[] {
+  const found: T[] = [];
+  for (const token of tokens) {
+    const value = lookup.get(token);
+    if (value !== undefined && !found.includes(value)) found.push(value);
+  }
+  return found;
+}
+
+/**
+ * Body type a catalog value belongs to, as the parser names it:
+ * "Внедорожник 5 дв." -> "Внедорожник" (undefined for values it has no keyword for)
+ */
+export function bodyTypeFamily(bodyType: string): string | undefined {
+  const value = bodyType.toLowerCase();
+  for (const family of new Set(BODY_TYPE_KEYWORDS.values())) {
+    if (value.includes(family.toLowerCase())) return family;
+  }
+  return undefined;
 }
 
 // ============================================
-// MAIN PARSER
+// NEGATION DETECTION
 // ============================================
 
 /**
- * Parse user message to extract car preferences using token-based matching.
- * Runs BEFORE LLM call so preferences are available for RAG search immediately.
- *
- * Uses word tokenization + pre-built lookup Maps instead of regex/substring matching.
- * This prevents false positives like "Купер" → "Купе" or "Оксфорд" → "Ford".
+ * Words that turn the rest of their clause into exclusions:
+ * "не хочу тойоту", "без вариатора", "кроме лады и киа", "no CVT"
  */
-export function parseMessageForPreferences(message: string): UserPreferences {
-  const preferences: UserPreferences = {};
-  const tokens = tokenize(message);
+const NEGATION_WORDS = new Set([
+  'не', 'без', 'кроме', 'исключая', 'никаких', 'ни',
+  'not', 'no', 'without', 'except', 'excluding', 'dont',
+]);
 
-  // 1. Brand detection — Cyrillic multi-word first (longer patterns first)
-  for (const pattern of multiWordBrandPatterns) {
-    if (matchMultiWordPattern(tokens, pattern)) {
-      preferences.marka = pattern.value;
-      break;
-    }
-  }
+/**
+ * Comparatives after "не" express limits, not exclusions: "не дороже 2 млн", "не старше 2015"
+ */
+const NEGATION_EXCEPTIONS = new Set([
+  'дороже', 'дешевле', 'старше', 'новее', 'раньше', 'позже', 'больше', 'меньше', 'более', 'менее',
+  'only', 'older', 'newer', 'more', 'less',
+]);
+
+/**
+ * Verbs that negate mentions BEFORE them: "тойоту не предлагай", "лада не нравится"
+ */
+const TRAILING_NEGATION_VERBS = new Set([
+  'нравится', 'нравятся', 'подходит', 'подходят', 'интересует', 'интересуют',
+  'предлагай', 'предлагайте', 'советуй', 'советуйте', 'показывай', 'показывайте',
+  'рассматриваю', 'рассматриваем', 'хочу', 'хотим', 'нужен', 'нужна', 'нужно', 'надо',
+  'interested', 'want', 'like', 'need', 'suggest', 'recommend', 'show', 'considering',
+]);
+
+/**
+ * Clause boundaries: punctuation and contrast conjunctions ("не хочу тойоту, а хочу хонду")
+ */
+const CLAUSE_CONJUNCTIONS = new Set(['но', 'а', 'зато', 'лучше', 'but', 'rather', 'instead']);
+
+/**
+ * Split a message into tokens the user wants and tokens the user rules out.
+ * A negation word negates the rest of its clause; a negated verb
+ * ("не нравится") negates what comes before it in the clause.
+ */
+export function splitNegatedTokens(message: string): { positive: string[]; negated: string[] } {
+  const positive: string[] = [];
+  const negated: string[] = [];
+
+  for (const clause of message.split(/[.,;:!?()\n]+/)) {
+    let tokens = tokenize(clause.replace(/n['’]t\b/gi, ' not'));
 
-  // Cyrillic single-word brands
-  if (!preferences.marka) {
+    // Contrast conjunctions start a new clause
+    const parts: string[][] = [[]];
     for (const token of tokens) {
-      const brand = singleWordBrandLookup.get(token);
-      if (brand) {
-        preferences.marka = brand;
-        break;
+      if (CLAUSE_CONJUNCTIONS.has(token)) {
+        parts.push([]);
+      } else {
+        parts[parts.length - 1].push(token);
       }
     }
-  }
 
-  // Latin multi-word brands
-  if (!preferences.marka) {
-    for (const pattern of multiWordLatinBrandPatterns) {
-      if (matchMultiWordPattern(tokens, pattern)) {
-        preferences.marka = pattern.value;
-        break;
+    for (tokens of parts) {
+      const cue = tokens.findIndex(
+        (token, i) => NEGATION_WORDS.has(token) && !NEGATION_EXCEPTIONS.has(tokens[i + 1])
+      );
+
+      if (cue === -1) {
+        positive.push(...tokens);
+      } else if (TRAILING_NEGATION_VERBS.has(tokens[cue + 1]) && cue > 0) {
+        // "тойоту не предлагай" — everything in the clause is ruled out
+        negated.push(...tokens);
+      } else {
+        positive.push(...tokens.slice(0, cue));
+        negated.push(...tokens.slice(cue + 1));
       }
     }
   }
 
-  // Latin single-word brands
-  if (!preferences.marka) {
-    for (const token of tokens) {
-      const brand = singleWordLatinBrandLookup.get(token);
-      if (brand) {
-        preferences.marka = brand;
-        break;
-      }
-    }
+  return { positive, negated };
+}
+
+// ============================================
+// NUMERIC CONSTRAINTS (power, engine volume, age)
+// ============================================
+
+export interface NumericRange {
+  from?: number;
+  to?: number;
+}
+
+export interface RangeGrammar {
+  number: string; // Regex source of the value
+  unit: string; // Regex source of the unit after the value
+  prefix?: string; // Regex source that makes the unit optional: "объём 2"
+  lower: string; // Lower bound words: "от", "не меньше"
+  upper: string; // Upper bound words: "до", "не больше"
+  between: [start: string, join: string]; // "от X до Y", "X-Y"
+  min: number;
+  max: number;
+}
+
+// Bound words must not be the end of a longer word ("болото 150 л.с.")
+export const WORD_START = '(?<![а-яa-z])';
+
+const LOWER_BOUND = `${WORD_START}(?:не\\s+(?:меньше|менее|слабее)|(?<!не\\s)(?:от|минимум|больше|более|свыше|мощнее))`;
+const UPPER_BOUND = `${WORD_START}(?:не\\s+(?:больше|более|мощнее)|(?<!не\\s)(?:до|максимум|меньше|менее|слабее))`;
+// "от 150 до 200" or "150-200" / "150–200" (not the tail of a longer number)
+const BETWEEN: RangeGrammar['between'] = [`(?:${WORD_START}от\\s*|(?<![\\d.,]))`, '(?:до|-|–|—)'];
+
+const POWER_GRAMMAR: RangeGrammar = {
+  number: '\\d{2,4}',
+  unit: '(?:л\\.?\\s*с\\.?|лс|л\\/с|лошадин[а-я]*(?:\\s+сил[а-я]*)?|сил[а-я]*|hp)',
+  lower: LOWER_BOUND,
+  upper: UPPER_BOUND,
+  between: BETWEEN,
+  min: 30,
+  max: 2000,
+};
+
+const ENGINE_VOLUME_GRAMMAR: RangeGrammar = {
+  number: '\\d(?:[.,]\\d)?',
+  // "2 л" but not "2 лет" or "200 л.с."
+  unit: '(?:литр[а-я]*|л(?![а-я]|\\.?\\s*с)|l(?![a-z]))',
+  prefix: 'объем[а-я]*(?:\\s+двигателя)?',
+  lower: LOWER_BOUND,
+  upper: UPPER_BOUND,
+  between: BETWEEN,
+  min: 0.6,
+  max: 8,
+};
+
+// Exact power ("150 л.с.") is searched within ±10%
+export const POWER_TOLERANCE = 0.1;
+
+/**
+ * Number words used with ages: "до трёх лет", "не старше пяти лет"
+ */
+const NUMBER_WORDS: Record<string, number> = {
+  один: 1, одного: 1, два: 2, двух: 2, три: 3, трех: 3, четыре: 4, четырех: 4,
+  пять: 5, пяти: 5, шесть: 6, шести: 6, семь: 7, семи: 7, восемь: 8, восьми: 8,
+  девять: 9, девяти: 9, десять: 10, десяти: 10,
+};
+
+const AGE_NUMBER = `\\d{1,2}|${Object.keys(NUMBER_WORDS).join('|')}`;
+
+/**
+ * Parse "от 150 до 200 л.с.", "150-200 л.с.", "от 150 л.с.", "не больше 200 сил", "150 л.с.".
+ * Returns null when the message has no value in the grammar's range.
+ */
+export function parseRange(
+  text: string,
+  grammar: RangeGrammar
+): (NumericRange & { exact?: number }) | null {
+  const n = `(${grammar.number})`;
+  const withUnit = grammar.prefix
+    ? `(?:${grammar.prefix}\\s*${n}(?:\\s*${grammar.unit})?|${n}\\s*${grammar.unit})`
+    : `${n}\\s*${grammar.unit}`;
+
+  const value = (raw: string | undefined): number | undefined => {
+    if (raw === undefined) return undefined;
+    const parsed = parseFloat(raw.replace(',', '.'));
+    return parsed >= grammar.min && parsed <= grammar.max ? parsed : undefined;
+  };
+  // Value of the first capture group that participated (prefix or unit form)
+  const first = (match: RegExpMatchArray, from: number) => value(match.slice(from).find(Boolean));
+
+  const [start, join] = grammar.between;
+  const between = text.match(
+    new RegExp(`${start}${n}\\s*(?:${grammar.unit}\\s*)?${join}\\s*${n}\\s*${grammar.unit}`)
+  );
+  if (between) {
+    const from = value(between[1]);
+    const to = value(between[2]);
+    if (from !== undefined && to !== undefined) return { from, to };
+  }
+
+  const lower = text.match(new RegExp(`${grammar.lower}\\s*${withUnit}`));
+  if (lower && first(lower, 1) !== undefined) return { from: first(lower, 1) };
+
+  const upper = text.match(new RegExp(`${grammar.upper}\\s*${withUnit}`));
+  if (upper && first(upper, 1) !== undefined) return { to: first(upper, 1) };
+
+  const exact = text.match(new RegExp(withUnit));
+  if (exact && first(exact, 1) !== undefined) return { exact: first(exact, 1) };
+
+  return null;
+}
+
+/**
+ * Parse a maximum age into the earliest model year against the current year:
+ * "не старше 5 лет" / "до трёх лет" / "младше года".
+ * A bare "старше 10 лет" is left alone: it is usually negated ("старше 10 лет не надо").
+ */
+function parseMaxAge(text: string, currentYear: number): number | null {
+  const match = text.match(
+    new RegExp(
+      `${WORD_START}(?:не\\s+старше|младше|моложе|до)\\s+(?:(${AGE_NUMBER})\\s+)?(?:лет|года?)(?![а-я])`
+    )
+  );
+  if (!match) return null;
+
+  const years = match[1] === undefined ? 1 : (NUMBER_WORDS[match[1]] ?? Number(match[1]));
+  return currentYear - years;
+}
+
+/**
+ * Numeric constraints of a message as preference fields
+ */
+function parseNumericConstraints(message: string, now: Date): UserPreferences {
+  const text = message.toLowerCase().replace(/ё/g, 'е');
+  const preferences: UserPreferences = {};
+
+  const power = parseRange(text, POWER_GRAMMAR);
+  if (power?.exact !== undefined) {
+    preferences.powerFrom = Math.round(power.exact * (1 - POWER_TOLERANCE));
+    preferences.powerTo = Math.round(power.exact * (1 + POWER_TOLERANCE));
+  } else if (power) {
+    if (power.from !== undefined) preferences.powerFrom = power.from;
+    if (power.to !== undefined) preferences.powerTo = power.to;
+  }
+
+  const volume = parseRange(text, ENGINE_VOLUME_GRAMMAR);
+  if (volume?.exact !== undefined) {
+    preferences.engineVolumeFrom = volume.exact;
+    preferences.engineVolumeTo = volume.exact;
+  } else if (volume) {
+    if (volume.from !== undefined) preferences.engineVolumeFrom = volume.from;
+    if (volume.to !== undefined) preferences.engineVolumeTo = volume.to;
+  }
+
+  const yearFrom = parseMaxAge(text, now.getFullYear());
+  if (yearFrom !== null) preferences.yearFrom = yearFrom;
+
+  return preferences;
+}
+
+// ============================================
+// MAIN PARSER
+// ============================================
+
+/**
+ * Parse user message to extract car preferences using token-based matching.
+ * Runs BEFORE LLM call so preferences are available for RAG search immediately.
+ *
+ * Uses word tokenization + pre-built lookup Maps instead of regex/substring matching.
+ * This prevents false positives like "Купер" → "Купе" or "Оксфорд" → "Ford".
+ */
+export function parseMessageForPreferences(
+  message: string,
+  now: Date = new Date(),
+): UserPreferences {
+  const preferences: UserPreferences = {};
+  // Negated mentions ("не хочу тойоту") become exclusions, not preferences
+  const { positive: tokens, negated } = splitNegatedTokens(message);
+
+  // 1. Brand detection — every brand mentioned ("тойоту или мазду")
+  const brands = findBrands(tokens);
+  if (brands.length > 0) {
+    preferences.marka = brands;
   }
 
   // 2. Body type detection — token lookup
-  for (const token of tokens) {
-    const bodyType = bodyTypeWordForms.get(token);
-    if (bodyType) {
-      preferences.bodyType = bodyType;
-      break;
-    }
+  const bodyTypes = findLookupValues(tokens, bodyTypeWordForms);
+  if (bodyTypes.length > 0) {
+    preferences.bodyType = bodyTypes;
   }
 
   // 3. Year detection: 4-digit years in automotive range (1970-2030)
@@ -348,7 +589,7 @@ export function parseMessageForPreferences(message: string): UserPreferences {
       const year = years[0];
       const idx = message.indexOf(String(year));
       const beforeYear = message.substring(0, idx);
-      if (/(?:от|с|после|новее|начиная)\s*$/i.test(beforeYear)) {
+      if (/(?:от|с|после|новее|начиная|не\s+старше)\s*$/i.test(beforeYear)) {
         preferences.yearFrom = year;
       } else if (/(?:до|раньше|старше)\s*$/i.test(beforeYear)) {
         preferences.yearTo = year;
@@ -358,16 +599,40 @@ export function parseMessageForPreferences(message: string): UserPreferences {
     }
   }
 
+  // Relative age ("не старше 5 лет") when no explicit year is given
+  const numeric = parseNumericConstraints(message, now);
+  if (!yearMatches && numeric.yearFrom !== undefined) {
+    preferences.yearFrom = numeric.yearFrom;
+  }
+
   // 4. Transmission detection — token lookup
-  for (const token of tokens) {
-    const kpp = kppWordForms.get(token);
-    if (kpp) {
-      preferences.kpp = kpp;
-      break;
-    }
+  const kpps = findLookupValues(tokens, kppWordForms);
+  if (kpps.length > 0) {
+    preferences.kpp = kpps;
+  }
+
+  // 5. Exclusions from negated clauses
+  const excludedBrands = findBrands(negated);
+  if (excludedBrands.length > 0) {
+    preferences.excludedBrands = excludedBrands;
   }
 
-  // 5. Budget detection
+  const excludedBodyTypes = findLookupValues(negated, bodyTypeWordForms);
+  if (excludedBodyTypes.length > 0) {
+    preferences.excludedBodyTypes = excludedBodyTypes;
+  }
+
+  const excludedKpp = findLookupValues(negated, kppWordForms);
+  if (excludedKpp.length > 0) {
+    preferences.excludedKpp = excludedKpp;
+  }
+
+  // 6. Power and engine volume ranges ("от 150 л.с.", "объём 2 литра")
+  for (const key of ['powerFrom', 'powerTo', 'engineVolumeFrom', 'engineVolumeTo'] as const) {
+    if (numeric[key] !== undefined) preferences[key] = numeric[key];
+  }
+
+  // 7. Budget detection
   const budgetPatterns: Array<{ pattern: RegExp; multiplier: number }> = [
     { pattern: /(\d+(?:[.,]\d+)?)\s*млн/i, multiplier: 1_000_000 },
     { pattern: /(\d+)\s*(?:тыс|тысяч)/i, multiplier: 1_000 },
@@ -425,23 +690,28 @@ const STOP_WORDS = new Set([
   'модель', 'модели', 'моделей',
   'класс', 'класса', 'классе', 'классу',
   'года', 'году', 'годов', 'годы',
+  'литр', 'литра', 'литров', 'литрах', 'объем', 'объём', 'объемом', 'объёмом', 'двигателя',
+  'мощность', 'мощности', 'мощнее', 'слабее', 'лошадиных', 'силы',
+  'старше', 'младше', 'моложе', 'возрастом', 'минимум', 'максимум', 'свыше',
   // Adjectives (generic)
   'лучший', 'лучшая', 'лучшее', 'лучшую', 'лучших', 'лучшие', 'лучшем',
   'хороший', 'хорошая', 'хорошее', 'хороших', 'хорошие',
   'самый', 'самая', 'самое', 'самую', 'самых', 'самые',
   'новый', 'новая', 'новое', 'новую', 'новых', 'новые',
+  'свежий', 'свежая', 'свежее', 'свежую', 'свежих', 'свежие',
   // Prepositions & conjunctions (4+ chars that pass length filter)
-  'если', 'либо', 'тоже', 'также', 'чтобы', 'потому', 'более', 'менее',
+  'если', 'либо', 'тоже', 'также', 'чтобы', 'потому', 'более', 'менее', 'больше', 'меньше',
   'между', 'через', 'после', 'перед', 'около',
 ]);
 
 /**
  * Extract keywords from user message for description text search.
- * Removes known patterns (brands, body types, KPP, years, budgets)
- * and stop words, returning content words that might match descriptions.
+ * Removes known patterns (brands, body types, KPP, years, budgets),
+ * negated clauses and stop words, returning content words that might match descriptions.
  */
 export function extractDescriptionKeywords(message: string): string[] {
-  const tokens = tokenize(message);
+  // Ruled-out words ("не шумный") must not become search keywords
+  const tokens = splitNegatedTokens(message).positive;
 
   const keywords: string[] = [];
   const seen = new Set<string>();
@@ -453,9 +723,15 @@ export function extractDescriptionKeywords(message: string): string[] {
     // Skip numbers (years are parsed separately)
     if (/^\d+$/.test(word)) continue;
 
+    // Skip VINs (handled by the TCO pipeline)
+    if (/^[a-hj-npr-z0-9]{17}$/.test(word) && /\d/.test(word)) continue;
+
     // Skip known patterns (brand names, body types, KPP) — pre-built lookup
     if (allKnownWordForms.has(word)) continue;
 
+    // Skip number words ("до трёх лет")
+    if (word.replace(/ё/g, 'е') in NUMBER_WORDS) continue;
+
     // Skip stop words
     if (STOP_WORDS.has(word)) continue;
 
@@ -474,9 +750,21 @@ export function extractDescriptionKeywords(message: string): string[] {
 // PREFERENCE MERGING
 // ============================================
 
+/**
+ * Positive field and the exclusion list that can contradict it
+ */
+const EXCLUSION_FIELDS = [
+  { field: 'marka', excluded: 'excludedBrands' },
+  { field: 'bodyType', excluded: 'excludedBodyTypes' },
+  { field: 'kpp', excluded: 'excludedKpp' },
+] as const;
+
 /**
  * Merge two preference objects. New values override old, but
  * undefined/null/empty in newPrefs does NOT clear old values.
+ * Lists (brands, body types, KPP) are replaced as a whole: the latest request wins.
+ * Exclusion lists accumulate; the latest statement wins on conflicts:
+ * naming an excluded brand removes the exclusion, excluding a wanted brand drops it.
  */
 export function mergePreferences(
   oldPrefs: UserPreferences,
@@ -486,10 +774,53 @@ export function mergePreferences(
 
   for (const key of Object.keys(newPrefs) as Array<keyof UserPreferences>) {
     const newValue = newPrefs[key];
-    if (newValue !== undefined && newValue !== null && newValue !== '') {
+    const isEmpty =
+      newValue === undefined ||
+      newValue === null ||
+      newValue === '' ||
+      (Array.isArray(newValue) && newValue.length === 0);
+    if (!isEmpty) {
       (merged as any)[key] = newValue;
     }
   }
 
+  // A budget without a stated currency is in rubles, not in the previous budget's currency
+  if (newPrefs.budget !== undefined && newPrefs.budgetCurrency === undefined) {
+    delete merged.budgetCurrency;
+  }
+
+  const includes = (list: readonly string[], value: string) =>
+    list.some((item) => item.toLowerCase() === value.toLowerCase());
+
+  for (const { field, excluded } of EXCLUSION_FIELDS) {
+    const newExcluded: string[] = newPrefs[excluded] ?? [];
+    const wanted: string[] = newPrefs[field] ?? [];
+
+    const exclusions = [...(oldPrefs[excluded] ?? [])];
+    for (const value of newExcluded) {
+      if (!includes(exclusions, value)) exclusions.push(value);
+    }
+
+    const remaining = exclusions.filter((item) => !includes(wanted, item));
+    if (remaining.length > 0) {
+      (merged as any)[excluded] = remaining;
+    } else {
+      delete merged[excluded];
+    }
+
+    const current: string[] = merged[field] ?? [];
+    const kept = current.filter((item) => !includes(newExcluded, item));
+    if (kept.length < current.length) {
+      if (kept.length > 0) {
+        (merged as any)[field] = kept;
+      } else {
+        delete merged[field];
+      }
+      if (field === 'marka') {
+        delete merged.model; // May belong to a ruled-out brand
+      }
+    }
+  }
+
   return merged;
 }
@@ -0,0 +1,96 @@
+/**
+ * Per-provider circuit breaker.
+ * CLOSED → OPEN after `failureThreshold` consecutive failures;
+ * OPEN → HALF_OPEN after `cooldownMs` (one trial request, other callers are refused
+ * until it reports back or `cooldownMs` passes without an outcome);
+ * HALF_OPEN → CLOSED on success, back to OPEN on failure.
+ */
+
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+export interface CircuitStateChange {
+  provider: string;
+  model: string;
+  from: CircuitState;
+  to: CircuitState;
+  failures: number;
+  reason?: string; // Last error message when opening
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'CLOSED';
+  private failures = 0;
+  private openedAt = 0;
+  private trialStartedAt: number | null = null; // HALF_OPEN trial in flight
+
+  constructor(
+    private provider: string,
+    private model: string,
+    private options: CircuitBreakerOptions,
+    private onStateChange?: (change: CircuitStateChange) => void,
+    private now: () => number = Date.now
+  ) {}
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Whether a request may be sent now (moves OPEN → HALF_OPEN after cooldown)
+   */
+  canRequest(): boolean {
+    if (this.state === 'OPEN' && this.now() - this.openedAt >= this.options.cooldownMs) {
+      this.transition('HALF_OPEN');
+    }
+
+    if (this.state === 'HALF_OPEN') {
+      // A trial that never reported back (cancelled, stopped early) doesn't block forever
+      const trialPending =
+        this.trialStartedAt !== null && this.now() - this.trialStartedAt < this.options.cooldownMs;
+      if (trialPending) {
+        return false;
+      }
+      this.trialStartedAt = this.now();
+      return true;
+    }
+
+    return this.state !== 'OPEN';
+  }
+
+  recordSuccess(): void {
+    this.trialStartedAt = null;
+    this.failures = 0;
+    if (this.state !== 'CLOSED') {
+      this.transition('CLOSED');
+    }
+  }
+
+  recordFailure(reason?: string): void {
+    this.trialStartedAt = null;
+    this.failures++;
+    if (this.state === 'HALF_OPEN' || this.failures >= this.options.failureThreshold) {
+      this.openedAt = this.now();
+      if (this.state !== 'OPEN') {
+        this.transition('OPEN', reason);
+      }
+    }
+  }
+
+  private transition(to: CircuitState, reason?: string): void {
+    const from = this.state;
+    this.state = to;
+    this.onStateChange?.({
+      provider: this.provider,
+      model: this.model,
+      from,
+      to,
+      failures: this.failures,
+      ...(reason ? { reason } : {}),
+    });
+  }
+}
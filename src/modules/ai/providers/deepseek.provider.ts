@@ -0,0 +1,24 @@
+import { logger } from '@/shared/utils/logger';
+import { OpenAICompatibleProvider } from './openai-compatible.provider';
+import { StreamTimeouts } from './provider.utils';
+
+/**
+ * DeepSeek (directly or via OpenRouter) — OpenAI-compatible protocol
+ * with DEEPSEEK_* environment defaults
+ */
+export class DeepSeekProvider extends OpenAICompatibleProvider {
+  readonly name = 'deepseek';
+
+  constructor(options: { model?: string; timeouts?: StreamTimeouts } = {}) {
+    super({
+      apiUrl: process.env.DEEPSEEK_API_URL || 'https://api.deepseek.com/v1',
+      apiKey: process.env.DEEPSEEK_API_KEY || '',
+      model: options.model || process.env.DEEPSEEK_MODEL || 'deepseek-chat',
+      timeouts: options.timeouts,
+    });
+
+    if (!this.apiKey) {
+      logger.warn('DEEPSEEK_API_KEY not configured');
+    }
+  }
+}
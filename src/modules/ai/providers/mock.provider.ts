@@ -0,0 +1,83 @@
+import { LLMProvider, LLMChatRequest, LLMChatResult, LLMToolCall } from '../ai.types';
+import { abortedError } from './provider.utils';
+
+/**
+ * Scripted turn that asks for tools instead of answering
+ */
+export interface MockToolCallReply {
+  content?: string;
+  toolCalls: Array<{ name: string; arguments: Record<string, any> }>;
+}
+
+/**
+ * Scripted reply: fixed text, tool calls, or a function of the request
+ */
+export type MockReply =
+  | string
+  | MockToolCallReply
+  | ((request: LLMChatRequest) => string | MockToolCallReply);
+
+export interface MockProviderOptions {
+  chunkSize?: number; // Characters per streamed delta
+  fallback?: MockReply; // Used when the script queue is empty
+}
+
+const DEFAULT_FALLBACK =
+  'Расскажите подробнее о ваших предпочтениях: марка, тип кузова, бюджет, год выпуска.';
+
+/**
+ * Deterministic offline provider for tests and local runs without API keys.
+ * Replies are taken from the script queue in order, then from the fallback.
+ * Every request is recorded in `requests` for assertions.
+ */
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly model = 'mock';
+  readonly requests: LLMChatRequest[] = [];
+
+  private script: MockReply[];
+  private chunkSize: number;
+  private fallback: MockReply;
+
+  constructor(script: MockReply[] = [], options: MockProviderOptions = {}) {
+    this.script = [...script];
+    this.chunkSize = options.chunkSize ?? 16;
+    this.fallback = options.fallback ?? DEFAULT_FALLBACK;
+  }
+
+  /**
+   * Append replies to the script queue
+   */
+  enqueue(...replies: MockReply[]): void {
+    this.script.push(...replies);
+  }
+
+  async *streamChat(
+    request: LLMChatRequest
+  ): AsyncGenerator<string, LLMChatResult, undefined> {
+    // Snapshot messages: callers keep appending to the same array
+    this.requests.push({ ...request, messages: [...request.messages] });
+
+    const next = this.script.length > 0 ? this.script.shift()! : this.fallback;
+    const reply = typeof next === 'function' ? next(request) : next;
+    const content = typeof reply === 'string' ? reply : reply.content || '';
+
+    for (let i = 0; i < content.length; i += this.chunkSize) {
+      if (request.signal?.aborted) {
+        throw abortedError(this.name);
+      }
+      yield content.slice(i, i + this.chunkSize);
+    }
+
+    if (typeof reply !== 'string' && reply.toolCalls.length > 0) {
+      const toolCalls: LLMToolCall[] = reply.toolCalls.map((call, index) => ({
+        id: `mock_call_${this.requests.length}_${index}`,
+        name: call.name,
+        arguments: JSON.stringify(call.arguments),
+      }));
+      return { content, finishReason: 'tool_calls', toolCalls };
+    }
+
+    return { content, finishReason: 'stop' };
+  }
+}
@@ -0,0 +1,158 @@
+import { logger } from '@/shared/utils/logger';
+import {
+  LLMProvider,
+  LLMChatRequest,
+  LLMChatResult,
+  LLMMessage,
+  LLMToolCall,
+  LLMUsage,
+  OllamaChatRequest,
+  OllamaChatChunk,
+  OllamaMessage,
+} from '../ai.types';
+import { fetchWithTimeout, readLines, StreamTimeouts } from './provider.utils';
+import { LLMProviderError } from './provider.errors';
+
+export interface OllamaConfig {
+  baseUrl: string; // e.g. http://localhost:11434
+  model: string;
+  timeouts?: StreamTimeouts;
+}
+
+/**
+ * Local Ollama server — /api/chat with NDJSON streaming
+ */
+export class OllamaProvider implements LLMProvider {
+  readonly name = 'ollama';
+  readonly model: string;
+  private baseUrl: string;
+  private timeouts: StreamTimeouts;
+
+  constructor(config: OllamaConfig) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.model = config.model;
+    this.timeouts = config.timeouts ?? {};
+  }
+
+  async *streamChat(
+    request: LLMChatRequest
+  ): AsyncGenerator<string, LLMChatResult, undefined> {
+    const response = await fetchWithTimeout(
+      this.name,
+      `${this.baseUrl}/api/chat`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: this.model,
+          messages: request.messages.map(toOllamaMessage),
+          stream: true,
+          ...(request.tools?.length
+            ? { tools: request.tools.map((tool) => ({ type: 'function', function: tool })) }
+            : {}),
+          ...(request.responseFormat === 'json' ? { format: 'json' } : {}),
+          options: {
+            temperature: request.temperature ?? 0.7,
+            num_predict: request.maxTokens ?? 2000,
+          },
+        } as OllamaChatRequest),
+      },
+      this.timeouts.connectMs,
+      request.signal
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      logger.error({ status: response.status, error: errorText }, 'Ollama API error');
+      throw new LLMProviderError(
+        `Ollama API error: ${response.status}`,
+        this.name,
+        'HTTP_ERROR',
+        response.status
+      );
+    }
+
+    if (!response.body) {
+      throw new Error('No response body from Ollama API');
+    }
+
+    let content = '';
+    let finishReason: string | null = null;
+    const toolCalls: LLMToolCall[] = [];
+    let usage: LLMUsage | undefined;
+
+    for await (const rawLine of readLines(response.body, {
+      idleMs: this.timeouts.idleMs,
+      provider: this.name,
+      signal: request.signal,
+    })) {
+      const line = rawLine.trim();
+      if (!line) continue;
+
+      let chunk: OllamaChatChunk;
+      try {
+        chunk = JSON.parse(line);
+      } catch (parseError) {
+        logger.warn({ line, parseError }, 'Failed to parse Ollama chunk');
+        continue;
+      }
+
+      // Ollama sends tool calls whole, with arguments already parsed
+      for (const call of chunk.message?.tool_calls || []) {
+        toolCalls.push({
+          id: `call_${toolCalls.length}`,
+          name: call.function.name,
+          arguments: JSON.stringify(call.function.arguments ?? {}),
+        });
+      }
+
+      const delta = chunk.message?.content;
+      if (delta) {
+        content += delta;
+        yield delta;
+      }
+
+      if (chunk.done) {
+        finishReason = chunk.done_reason || 'stop';
+        if (chunk.prompt_eval_count !== undefined || chunk.eval_count !== undefined) {
+          const promptTokens = chunk.prompt_eval_count ?? 0;
+          const completionTokens = chunk.eval_count ?? 0;
+          usage = { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+        }
+        break;
+      }
+    }
+
+    return {
+      content,
+      finishReason: toolCalls.length > 0 ? 'tool_calls' : finishReason,
+      ...(toolCalls.length > 0 ? { toolCalls } : {}),
+      ...(usage ? { usage } : {}),
+    };
+  }
+}
+
+/**
+ * Convert provider-neutral message to Ollama wire format
+ */
+function toOllamaMessage(message: LLMMessage): OllamaMessage {
+  if (message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: message.content,
+      tool_calls: message.toolCalls.map((call) => ({
+        function: { name: call.name, arguments: safeParseArguments(call.arguments) },
+      })),
+    };
+  }
+
+  return { role: message.role, content: message.content };
+}
+
+function safeParseArguments(raw: string): Record<string, any> {
+  try {
+    return JSON.parse(raw || '{}');
+  } catch {
+    return {};
+  }
+}
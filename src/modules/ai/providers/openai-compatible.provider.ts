@@ -0,0 +1,174 @@
+import { logger } from '@/shared/utils/logger';
+import {
+  LLMProvider,
+  LLMChatRequest,
+  LLMChatResult,
+  LLMMessage,
+  LLMToolCall,
+  LLMUsage,
+  OpenAIChatRequest,
+  OpenAIMessage,
+  OpenAIStreamChunk,
+} from '../ai.types';
+import { fetchWithTimeout, readLines, StreamTimeouts } from './provider.utils';
+import { LLMProviderError } from './provider.errors';
+
+export interface OpenAICompatibleConfig {
+  apiUrl: string; // Base URL without trailing /chat/completions
+  apiKey: string;
+  model: string;
+  timeouts?: StreamTimeouts;
+}
+
+/**
+ * Any endpoint speaking the OpenAI /chat/completions SSE protocol
+ * (OpenAI, OpenRouter, vLLM, LM Studio, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string = 'openai';
+  readonly model: string;
+  protected apiUrl: string;
+  protected apiKey: string;
+  protected timeouts: StreamTimeouts;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.apiUrl = config.apiUrl.replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+    this.model = config.model;
+    this.timeouts = config.timeouts ?? {};
+  }
+
+  async *streamChat(
+    request: LLMChatRequest
+  ): AsyncGenerator<string, LLMChatResult, undefined> {
+    const response = await fetchWithTimeout(
+      this.name,
+      `${this.apiUrl}/chat/completions`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: this.model,
+          messages: request.messages.map(toOpenAIMessage),
+          temperature: request.temperature ?? 0.7,
+          max_tokens: request.maxTokens ?? 2000,
+          stream: true,
+          stream_options: { include_usage: true },
+          ...(request.tools?.length
+            ? {
+                tools: request.tools.map((tool) => ({ type: 'function', function: tool })),
+                tool_choice: 'auto',
+              }
+            : {}),
+          ...(request.responseFormat === 'json'
+            ? { response_format: { type: 'json_object' } }
+            : {}),
+        } as OpenAIChatRequest),
+      },
+      this.timeouts.connectMs,
+      request.signal
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      logger.error(
+        { provider: this.name, status: response.status, error: errorText },
+        'LLM API error'
+      );
+      throw new LLMProviderError(
+        `LLM API error (${this.name}): ${response.status}`,
+        this.name,
+        'HTTP_ERROR',
+        response.status
+      );
+    }
+
+    if (!response.body) {
+      throw new Error(`No response body from LLM API (${this.name})`);
+    }
+
+    let content = '';
+    let finishReason: string | null = null;
+    // Tool calls arrive as fragments keyed by index
+    const toolCalls: LLMToolCall[] = [];
+    let usage: LLMUsage | undefined;
+
+    for await (const rawLine of readLines(response.body, {
+      idleMs: this.timeouts.idleMs,
+      provider: this.name,
+      signal: request.signal,
+    })) {
+      const line = rawLine.trim();
+      if (!line || line === 'data: [DONE]' || !line.startsWith('data: ')) continue;
+
+      let chunk: OpenAIStreamChunk;
+      try {
+        chunk = JSON.parse(line.slice(6));
+      } catch (parseError) {
+        logger.warn({ line, parseError }, 'Failed to parse SSE chunk');
+        continue;
+      }
+
+      if (chunk.usage) {
+        usage = {
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+          totalTokens: chunk.usage.total_tokens,
+        };
+      }
+
+      const choice = chunk.choices?.[0];
+      if (choice?.finish_reason) {
+        finishReason = choice.finish_reason;
+      }
+
+      for (const fragment of choice?.delta?.tool_calls || []) {
+        const call = (toolCalls[fragment.index] ??= { id: '', name: '', arguments: '' });
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.name += fragment.function.name;
+        if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+      }
+
+      const delta = choice?.delta?.content;
+      if (delta) {
+        content += delta;
+        yield delta;
+      }
+    }
+
+    const completedCalls = toolCalls.filter((call) => call && call.name);
+
+    return {
+      content,
+      finishReason,
+      ...(completedCalls.length > 0 ? { toolCalls: completedCalls } : {}),
+      ...(usage ? { usage } : {}),
+    };
+  }
+}
+
+/**
+ * Convert provider-neutral message to OpenAI wire format
+ */
+function toOpenAIMessage(message: LLMMessage): OpenAIMessage {
+  if (message.role === 'tool') {
+    return { role: 'tool', content: message.content, tool_call_id: message.toolCallId };
+  }
+
+  if (message.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.toolCalls.map((call) => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: call.arguments },
+      })),
+    };
+  }
+
+  return { role: message.role, content: message.content };
+}
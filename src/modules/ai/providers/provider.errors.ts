@@ -0,0 +1,51 @@
+/**
+ * Errors raised by LLM providers
+ */
+
+export type LLMErrorCode =
+  | 'HTTP_ERROR' // Non-OK status from the API
+  | 'CONNECT_TIMEOUT' // No response headers within the connect timeout
+  | 'IDLE_TIMEOUT' // Stream stalled between chunks
+  | 'NETWORK_ERROR' // Connection refused/reset, DNS, ...
+  | 'ABORTED'; // Cancelled by the caller (request.signal)
+
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public provider: string,
+    public code: LLMErrorCode,
+    public status?: number
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+    Error.captureStackTrace(this, this.constructor);
+  }
+
+  /**
+   * Transient failure worth retrying (timeouts, network, 429, 5xx)
+   */
+  get retryable(): boolean {
+    if (this.code === 'ABORTED') {
+      return false;
+    }
+    if (this.code !== 'HTTP_ERROR') {
+      return true;
+    }
+    return this.status === 429 || (this.status !== undefined && this.status >= 500);
+  }
+}
+
+/**
+ * No provider could serve the request: all failed before the first token
+ * or their circuit breakers are open
+ */
+export class LLMUnavailableError extends Error {
+  constructor(
+    message: string,
+    public cause?: unknown
+  ) {
+    super(message);
+    this.name = 'LLMUnavailableError';
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
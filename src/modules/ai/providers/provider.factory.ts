@@ -0,0 +1,119 @@
+import { logger } from '@/shared/utils/logger';
+import { LLMProvider } from '../ai.types';
+import { DeepSeekProvider } from './deepseek.provider';
+import { OpenAICompatibleProvider } from './openai-compatible.provider';
+import { OllamaProvider } from './ollama.provider';
+import { MockLLMProvider } from './mock.provider';
+import { ResilientLLMProvider } from './resilient.provider';
+import { CircuitStateChange } from './circuit-breaker';
+import { StreamTimeouts } from './provider.utils';
+
+export type LLMProviderName = 'deepseek' | 'openai' | 'ollama' | 'mock';
+
+/**
+ * Resolve provider name from environment.
+ * LLM_PROVIDER wins; tests (NODE_ENV=test) default to the offline mock.
+ */
+export function resolveProviderName(env: NodeJS.ProcessEnv = process.env): LLMProviderName {
+  const configured = env.LLM_PROVIDER?.toLowerCase();
+  const name = parseProviderName(configured);
+
+  if (name) {
+    return name;
+  }
+
+  const fallback = env.NODE_ENV === 'test' ? 'mock' : 'deepseek';
+
+  if (configured) {
+    logger.warn(
+      { provider: configured, fallback },
+      `Unknown LLM_PROVIDER, falling back to ${fallback}`
+    );
+  }
+
+  return fallback;
+}
+
+function parseProviderName(value: string | undefined): LLMProviderName | null {
+  return value === 'deepseek' || value === 'openai' || value === 'ollama' || value === 'mock'
+    ? value
+    : null;
+}
+
+/**
+ * Read a non-negative number from env (0 is a valid value, unlike `Number(x) || d`)
+ */
+function envNumber(env: NodeJS.ProcessEnv, key: string, defaultValue: number): number {
+  const value = Number(env[key]);
+  return env[key] !== undefined && env[key] !== '' && Number.isFinite(value) && value >= 0
+    ? value
+    : defaultValue;
+}
+
+/**
+ * Create LLM provider for the current environment
+ * @param model - overrides the provider's configured model (fallback model)
+ */
+export function createLLMProvider(
+  name: LLMProviderName = resolveProviderName(),
+  model?: string
+): LLMProvider {
+  const timeouts: StreamTimeouts = {
+    connectMs: envNumber(process.env, 'LLM_CONNECT_TIMEOUT_MS', 10_000),
+    idleMs: envNumber(process.env, 'LLM_IDLE_TIMEOUT_MS', 30_000),
+  };
+
+  switch (name) {
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        apiUrl: process.env.LLM_API_URL || 'https://api.openai.com/v1',
+        apiKey: process.env.LLM_API_KEY || '',
+        model: model || process.env.LLM_MODEL || 'gpt-4o-mini',
+        timeouts,
+      });
+    case 'ollama':
+      return new OllamaProvider({
+        baseUrl: process.env.OLLAMA_URL || 'http://localhost:11434',
+        model: model || process.env.OLLAMA_MODEL || 'qwen3:8b',
+        timeouts,
+      });
+    case 'mock':
+      return new MockLLMProvider();
+    case 'deepseek':
+    default:
+      return new DeepSeekProvider({ model, timeouts });
+  }
+}
+
+/**
+ * Create the configured provider wrapped with retries, circuit breaker
+ * and optional fallback (LLM_FALLBACK_PROVIDER and/or LLM_FALLBACK_MODEL)
+ */
+export function createResilientLLMProvider(
+  onBreakerStateChange?: (change: CircuitStateChange) => void,
+  env: NodeJS.ProcessEnv = process.env
+): LLMProvider {
+  const primaryName = resolveProviderName(env);
+  const providers = [createLLMProvider(primaryName)];
+
+  const fallbackName = parseProviderName(env.LLM_FALLBACK_PROVIDER?.toLowerCase());
+  const fallbackModel = env.LLM_FALLBACK_MODEL || undefined;
+
+  if (env.LLM_FALLBACK_PROVIDER && !fallbackName) {
+    logger.warn({ provider: env.LLM_FALLBACK_PROVIDER }, 'Unknown LLM_FALLBACK_PROVIDER, ignoring');
+  }
+
+  if (fallbackName || fallbackModel) {
+    providers.push(createLLMProvider(fallbackName ?? primaryName, fallbackModel));
+  }
+
+  return new ResilientLLMProvider(providers, {
+    maxRetries: envNumber(env, 'LLM_MAX_RETRIES', 2),
+    retryBaseMs: envNumber(env, 'LLM_RETRY_BASE_MS', 500),
+    breaker: {
+      failureThreshold: envNumber(env, 'LLM_BREAKER_THRESHOLD', 5) || 1,
+      cooldownMs: envNumber(env, 'LLM_BREAKER_COOLDOWN_MS', 30_000),
+    },
+    onBreakerStateChange,
+  });
+}
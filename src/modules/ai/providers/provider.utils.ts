@@ -0,0 +1,156 @@
+import { fetch, RequestInit, Response } from 'undici';
+import { LLMProviderError } from './provider.errors';
+
+/**
+ * Connect / idle-stream timeouts for HTTP providers (ms, 0 = disabled)
+ */
+export interface StreamTimeouts {
+  connectMs?: number; // Until response headers arrive
+  idleMs?: number; // Max gap between streamed chunks
+}
+
+/**
+ * fetch with a connect timeout and caller abort signal;
+ * network failures become LLMProviderError.
+ * The signal is followed until the response headers arrive; pass it to readLines()
+ * to close the body on a later abort.
+ */
+export async function fetchWithTimeout(
+  provider: string,
+  url: string,
+  init: RequestInit,
+  connectMs = 0,
+  signal?: AbortSignal
+): Promise<Response> {
+  if (signal?.aborted) {
+    throw abortedError(provider);
+  }
+
+  const controller = new AbortController();
+  const timer = connectMs > 0 ? setTimeout(() => controller.abort(), connectMs) : undefined;
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (signal?.aborted) {
+      throw abortedError(provider);
+    }
+    if (controller.signal.aborted) {
+      throw new LLMProviderError(
+        `LLM connect timeout (${provider}) after ${connectMs}ms`,
+        provider,
+        'CONNECT_TIMEOUT'
+      );
+    }
+    throw new LLMProviderError(
+      `LLM network error (${provider}): ${error instanceof Error ? error.message : String(error)}`,
+      provider,
+      'NETWORK_ERROR'
+    );
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Split a streamed HTTP body into text lines.
+ * Used for both SSE (OpenAI-compatible) and NDJSON (Ollama) streams.
+ * With idleMs set, a stream that stalls between chunks fails with IDLE_TIMEOUT;
+ * aborting the signal closes the body and fails with ABORTED.
+ */
+export async function* readLines(
+  body: ReadableStream<Uint8Array>,
+  options: { idleMs?: number; provider?: string; signal?: AbortSignal } = {}
+): AsyncGenerator<string, void, undefined> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let finished = false;
+  // Closing the reader settles a pending read
+  const onAbort = () => reader.cancel().catch(() => undefined);
+  options.signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    while (true) {
+      let result: Awaited<ReturnType<typeof reader.read>>;
+      try {
+        if (options.signal?.aborted) {
+          throw abortedError(options.provider);
+        }
+        result = await readWithTimeout(reader, options.idleMs, options.provider);
+        if (options.signal?.aborted) {
+          throw abortedError(options.provider);
+        }
+      } catch (error) {
+        // Body reads fail with a generic AbortError once the request is aborted
+        throw options.signal?.aborted ? abortedError(options.provider) : error;
+      }
+
+      const { done, value } = result;
+
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        yield line;
+      }
+    }
+
+    finished = true;
+    buffer += decoder.decode();
+    if (buffer) {
+      yield buffer;
+    }
+  } finally {
+    options.signal?.removeEventListener('abort', onAbort);
+    // Consumer stopped early (or stream stalled): close the upstream connection
+    if (!finished) {
+      await reader.cancel().catch(() => undefined);
+    }
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Error for requests cancelled via the caller's AbortSignal
+ */
+export function abortedError(provider = 'llm'): LLMProviderError {
+  return new LLMProviderError(`LLM request aborted (${provider})`, provider, 'ABORTED');
+}
+
+async function readWithTimeout(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  idleMs = 0,
+  provider = 'llm'
+): ReturnType<ReadableStreamDefaultReader<Uint8Array>['read']> {
+  if (idleMs <= 0) {
+    return reader.read();
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () =>
+        reject(
+          new LLMProviderError(
+            `LLM stream idle timeout (${provider}) after ${idleMs}ms`,
+            provider,
+            'IDLE_TIMEOUT'
+          )
+        ),
+      idleMs
+    );
+  });
+
+  try {
+    return await Promise.race([reader.read(), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,501 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { fetch } from 'undici';
+import { MockLLMProvider } from './mock.provider';
+import { OpenAICompatibleProvider } from './openai-compatible.provider';
+import { OllamaProvider } from './ollama.provider';
+import { resolveProviderName } from './provider.factory';
+import { ResilientLLMProvider, ResilientProviderOptions } from './resilient.provider';
+import { CircuitBreaker, CircuitStateChange } from './circuit-breaker';
+import { LLMProviderError, LLMUnavailableError } from './provider.errors';
+import type { LLMChatResult, LLMProvider } from '../ai.types';
+
+vi.mock('undici', () => ({ fetch: vi.fn() }));
+
+const fetchMock = vi.mocked(fetch);
+
+/**
+ * Build a fetch-like response whose body streams the given raw chunks
+ */
+function streamResponse(chunks: string[], status = 200) {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+      }
+      controller.close();
+    },
+  });
+
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    body,
+    text: async () => chunks.join(''),
+  } as any;
+}
+
+/**
+ * Drain a provider stream into deltas + final result
+ */
+async function collect(
+  stream: AsyncGenerator<string, LLMChatResult, undefined>
+): Promise<{ deltas: string[]; result: LLMChatResult }> {
+  const deltas: string[] = [];
+  while (true) {
+    const { value, done } = await stream.next();
+    if (done) return { deltas, result: value };
+    deltas.push(value);
+  }
+}
+
+const request = { messages: [{ role: 'user' as const, content: 'Привет' }] };
+
+describe('MockLLMProvider', () => {
+  it('should stream scripted replies in order', async () => {
+    const provider = new MockLLMProvider(['первый ответ', 'второй ответ'], { chunkSize: 5 });
+
+    const first = await collect(provider.streamChat(request));
+    expect(first.deltas).toEqual(['первы', 'й отв', 'ет']);
+    expect(first.result.content).toBe('первый ответ');
+    expect(first.result.finishReason).toBe('stop');
+
+    const second = await collect(provider.streamChat(request));
+    expect(second.result.content).toBe('второй ответ');
+  });
+
+  it('should return scripted tool calls', async () => {
+    const provider = new MockLLMProvider([
+      { toolCalls: [{ name: 'searchCars', arguments: { marka: 'Toyota' } }] },
+    ]);
+
+    const { deltas, result } = await collect(provider.streamChat(request));
+    expect(deltas).toEqual([]);
+    expect(result.finishReason).toBe('tool_calls');
+    expect(result.toolCalls?.[0].name).toBe('searchCars');
+    expect(JSON.parse(result.toolCalls![0].arguments)).toEqual({ marka: 'Toyota' });
+  });
+
+  it('should use fallback when the script is exhausted', async () => {
+    const provider = new MockLLMProvider([], { fallback: 'fallback' });
+    const { result } = await collect(provider.streamChat(request));
+    expect(result.content).toBe('fallback');
+  });
+
+  it('should support function replies and record requests', async () => {
+    const provider = new MockLLMProvider();
+    provider.enqueue((req) => `echo: ${req.messages[req.messages.length - 1].content}`);
+
+    const { result } = await collect(provider.streamChat(request));
+    expect(result.content).toBe('echo: Привет');
+    expect(provider.requests).toHaveLength(1);
+    expect(provider.requests[0].messages[0].content).toBe('Привет');
+  });
+});
+
+describe('OpenAICompatibleProvider', () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+  });
+
+  it('should parse SSE chunks split across reads', async () => {
+    fetchMock.mockResolvedValue(
+      streamResponse([
+        'data: {"choices":[{"index":0,"delta":{"content":"Прив"},"finish_reason":null}]}\n',
+        'data: {"choices":[{"index":0,"delta":{"content":"ет"},"fin',
+        'ish_reason":null}]}\n\ndata: {"choices":[{"index":0,"delta":{},"finish_reason":"stop"}]}\n',
+        'data: [DONE]\n',
+      ])
+    );
+
+    const provider = new OpenAICompatibleProvider({
+      apiUrl: 'https://llm.example.com/v1/',
+      apiKey: 'key',
+      model: 'test-model',
+    });
+    const { deltas, result } = await collect(provider.streamChat(request));
+
+    expect(deltas).toEqual(['Прив', 'ет']);
+    expect(result).toEqual({ content: 'Привет', finishReason: 'stop' });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://llm.example.com/v1/chat/completions');
+    expect(JSON.parse((init as any).body).model).toBe('test-model');
+  });
+
+  it('should assemble streamed tool call fragments', async () => {
+    fetchMock.mockResolvedValue(
+      streamResponse([
+        'data: {"choices":[{"index":0,"delta":{"tool_calls":[{"index":0,"id":"call_1","type":"function","function":{"name":"searchCars","arguments":""}}]},"finish_reason":null}]}\n',
+        'data: {"choices":[{"index":0,"delta":{"tool_calls":[{"index":0,"function":{"arguments":"{\\"marka\\":"}}]},"finish_reason":null}]}\n',
+        'data: {"choices":[{"index":0,"delta":{"tool_calls":[{"index":0,"function":{"arguments":"\\"BMW\\"}"}}]},"finish_reason":null}]}\n',
+        'data: {"choices":[{"index":0,"delta":{},"finish_reason":"tool_calls"}]}\n',
+      ])
+    );
+
+    const provider = new OpenAICompatibleProvider({ apiUrl: 'http://x', apiKey: '', model: 'm' });
+    const { result } = await collect(
+      provider.streamChat({
+        ...request,
+        tools: [{ name: 'searchCars', description: 'search', parameters: { type: 'object' } }],
+      })
+    );
+
+    expect(result.finishReason).toBe('tool_calls');
+    expect(result.toolCalls).toEqual([
+      { id: 'call_1', name: 'searchCars', arguments: '{"marka":"BMW"}' },
+    ]);
+
+    const body = JSON.parse((fetchMock.mock.calls[0][1] as any).body);
+    expect(body.tools[0]).toEqual({
+      type: 'function',
+      function: { name: 'searchCars', description: 'search', parameters: { type: 'object' } },
+    });
+  });
+
+  it('should skip malformed SSE lines', async () => {
+    fetchMock.mockResolvedValue(
+      streamResponse([
+        'data: {broken\n',
+        'data: {"choices":[{"index":0,"delta":{"content":"ok"},"finish_reason":null}]}\n',
+      ])
+    );
+
+    const provider = new OpenAICompatibleProvider({ apiUrl: 'http://x', apiKey: '', model: 'm' });
+    const { result } = await collect(provider.streamChat(request));
+
+    expect(result.content).toBe('ok');
+  });
+
+  it('should capture usage from the final chunk', async () => {
+    fetchMock.mockResolvedValue(
+      streamResponse([
+        'data: {"choices":[{"index":0,"delta":{"content":"ok"},"finish_reason":"stop"}]}\n',
+        'data: {"choices":[],"usage":{"prompt_tokens":12,"completion_tokens":3,"total_tokens":15}}\n',
+        'data: [DONE]\n',
+      ])
+    );
+
+    const provider = new OpenAICompatibleProvider({ apiUrl: 'http://x', apiKey: '', model: 'm' });
+    const { result } = await collect(provider.streamChat(request));
+
+    expect(result.usage).toEqual({ promptTokens: 12, completionTokens: 3, totalTokens: 15 });
+
+    const body = JSON.parse((fetchMock.mock.calls[0][1] as any).body);
+    expect(body.stream_options).toEqual({ include_usage: true });
+  });
+
+  it('should request JSON mode when asked', async () => {
+    fetchMock.mockResolvedValue(
+      streamResponse(['data: {"choices":[{"index":0,"delta":{"content":"{}"},"finish_reason":"stop"}]}\n'])
+    );
+
+    const provider = new OpenAICompatibleProvider({ apiUrl: 'http://x', apiKey: '', model: 'm' });
+    await collect(provider.streamChat({ ...request, responseFormat: 'json' }));
+
+    const body = JSON.parse((fetchMock.mock.calls[0][1] as any).body);
+    expect(body.response_format).toEqual({ type: 'json_object' });
+  });
+
+  it('should throw on non-OK status', async () => {
+    fetchMock.mockResolvedValue(streamResponse(['rate limited'], 429));
+
+    const provider = new OpenAICompatibleProvider({ apiUrl: 'http://x', apiKey: '', model: 'm' });
+
+    const error = await collect(provider.streamChat(request)).catch((e) => e);
+    expect(error).toBeInstanceOf(LLMProviderError);
+    expect(error.message).toContain('429');
+    expect(error.retryable).toBe(true);
+  });
+
+  it('should not mark client errors as retryable', async () => {
+    fetchMock.mockResolvedValue(streamResponse(['bad request'], 400));
+
+    const provider = new OpenAICompatibleProvider({ apiUrl: 'http://x', apiKey: '', model: 'm' });
+
+    const error = await collect(provider.streamChat(request)).catch((e) => e);
+    expect(error.retryable).toBe(false);
+  });
+
+  it('should fail with IDLE_TIMEOUT when the stream stalls', async () => {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const chunk = '{"choices":[{"index":0,"delta":{"content":"Hi"},"finish_reason":null}]}';
+        controller.enqueue(encoder.encode(`data: ${chunk}\n`));
+        // Never closes
+      },
+    });
+    fetchMock.mockResolvedValue({ ok: true, status: 200, body } as any);
+
+    const provider = new OpenAICompatibleProvider({
+      apiUrl: 'http://x',
+      apiKey: '',
+      model: 'm',
+      timeouts: { idleMs: 20 },
+    });
+
+    const error = await collect(provider.streamChat(request)).catch((e) => e);
+    expect(error).toBeInstanceOf(LLMProviderError);
+    expect(error.code).toBe('IDLE_TIMEOUT');
+  });
+
+  it('should not call the API when already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const provider = new OpenAICompatibleProvider({ apiUrl: 'http://x', apiKey: '', model: 'm' });
+
+    const error = await collect(
+      provider.streamChat({ ...request, signal: controller.signal })
+    ).catch((e) => e);
+    expect(error.code).toBe('ABORTED');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should close a stalled stream when aborted and release the signal', async () => {
+    const encoder = new TextEncoder();
+    const chunk = JSON.stringify({ choices: [{ delta: { content: 'Прив' }, finish_reason: null }] });
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode(`data: ${chunk}\n`));
+        // Never closes
+      },
+    });
+    fetchMock.mockResolvedValue({ ok: true, status: 200, body } as any);
+
+    const controller = new AbortController();
+    const removeListener = vi.spyOn(controller.signal, 'removeEventListener');
+    const provider = new OpenAICompatibleProvider({ apiUrl: 'http://x', apiKey: '', model: 'm' });
+    const stream = provider.streamChat({ ...request, signal: controller.signal });
+
+    expect((await stream.next()).value).toBe('Прив');
+    const pending = stream.next();
+    controller.abort();
+
+    const error = await pending.catch((e) => e);
+    expect(error.code).toBe('ABORTED');
+    // fetch and readLines both detach their listeners
+    expect(removeListener).toHaveBeenCalledTimes(2);
+  });
+
+  it('should wrap network failures', async () => {
+    fetchMock.mockRejectedValue(new Error('ECONNREFUSED'));
+
+    const provider = new OpenAICompatibleProvider({ apiUrl: 'http://x', apiKey: '', model: 'm' });
+
+    const error = await collect(provider.streamChat(request)).catch((e) => e);
+    expect(error.code).toBe('NETWORK_ERROR');
+    expect(error.retryable).toBe(true);
+  });
+});
+
+describe('OllamaProvider', () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+  });
+
+  it('should parse NDJSON chunks', async () => {
+    fetchMock.mockResolvedValue(
+      streamResponse([
+        '{"model":"qwen3:8b","message":{"role":"assistant","content":"Добрый "},"done":false}\n',
+        '{"model":"qwen3:8b","message":{"role":"assistant","content":"день"},"done":false}\n',
+        '{"model":"qwen3:8b","done":true,"done_reason":"stop"}\n',
+      ])
+    );
+
+    const provider = new OllamaProvider({ baseUrl: 'http://localhost:11434', model: 'qwen3:8b' });
+    const { deltas, result } = await collect(provider.streamChat(request));
+
+    expect(deltas).toEqual(['Добрый ', 'день']);
+    expect(result).toEqual({ content: 'Добрый день', finishReason: 'stop' });
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/api/chat');
+  });
+
+  it('should report usage from eval counts', async () => {
+    fetchMock.mockResolvedValue(
+      streamResponse([
+        '{"model":"qwen3:8b","message":{"role":"assistant","content":"ok"},"done":false}\n',
+        '{"model":"qwen3:8b","done":true,"done_reason":"stop","prompt_eval_count":20,"eval_count":4}\n',
+      ])
+    );
+
+    const provider = new OllamaProvider({ baseUrl: 'http://localhost:11434', model: 'qwen3:8b' });
+    const { result } = await collect(provider.streamChat(request));
+
+    expect(result.usage).toEqual({ promptTokens: 20, completionTokens: 4, totalTokens: 24 });
+  });
+});
+
+describe('ResilientLLMProvider', () => {
+  const options: ResilientProviderOptions = {
+    maxRetries: 2,
+    retryBaseMs: 0,
+    breaker: { failureThreshold: 3, cooldownMs: 1000 },
+  };
+
+  const fail = (status: number) => () => {
+    throw new LLMProviderError(`LLM API error (mock): ${status}`, 'mock', 'HTTP_ERROR', status);
+  };
+
+  /**
+   * Provider that streams one token and then fails
+   */
+  const midStreamFailure: LLMProvider = {
+    name: 'flaky',
+    model: 'flaky-model',
+    async *streamChat() {
+      yield 'Hel';
+      throw new LLMProviderError('LLM stream idle timeout (flaky)', 'flaky', 'IDLE_TIMEOUT');
+    },
+  };
+
+  it('should retry 5xx before the first token', async () => {
+    const primary = new MockLLMProvider([fail(503), fail(502), 'ok']);
+    const provider = new ResilientLLMProvider([primary], options);
+
+    const { result } = await collect(provider.streamChat(request));
+
+    expect(result.content).toBe('ok');
+    expect(result.model).toBe('mock');
+    expect(primary.requests).toHaveLength(3);
+  });
+
+  it('should not retry client errors but use the fallback', async () => {
+    const primary = new MockLLMProvider([fail(400)]);
+    const fallback = new MockLLMProvider(['from fallback']);
+    const provider = new ResilientLLMProvider([primary, fallback], options);
+
+    const { result } = await collect(provider.streamChat(request));
+
+    expect(result.content).toBe('from fallback');
+    expect(primary.requests).toHaveLength(1);
+  });
+
+  it('should not retry once tokens were streamed', async () => {
+    const fallback = new MockLLMProvider(['from fallback']);
+    const provider = new ResilientLLMProvider([midStreamFailure, fallback], options);
+
+    await expect(collect(provider.streamChat(request))).rejects.toThrow('idle timeout');
+    expect(fallback.requests).toHaveLength(0);
+  });
+
+  it('should throw LLMUnavailableError when all providers fail', async () => {
+    const primary = new MockLLMProvider([fail(500), fail(500), fail(500)]);
+    const provider = new ResilientLLMProvider([primary], options);
+
+    await expect(collect(provider.streamChat(request))).rejects.toBeInstanceOf(
+      LLMUnavailableError
+    );
+  });
+
+  it('should not retry or fall back when the caller aborts', async () => {
+    const controller = new AbortController();
+    const changes: CircuitStateChange[] = [];
+    const primary = new MockLLMProvider(['first answer'], { chunkSize: 5 });
+    const fallback = new MockLLMProvider(['from fallback']);
+    const provider = new ResilientLLMProvider([primary, fallback], {
+      ...options,
+      breaker: { failureThreshold: 1, cooldownMs: 1000 },
+      onBreakerStateChange: (change) => changes.push(change),
+    });
+
+    const stream = provider.streamChat({ ...request, signal: controller.signal });
+    await stream.next();
+    controller.abort();
+
+    await expect(collect(stream)).rejects.toThrow('aborted');
+    expect(primary.requests).toHaveLength(1);
+    expect(fallback.requests).toHaveLength(0);
+    expect(changes).toEqual([]);
+  });
+
+  it('should open the circuit, skip the provider and recover after cooldown', async () => {
+    let now = 0;
+    const changes: CircuitStateChange[] = [];
+    const primary = new MockLLMProvider([fail(500), fail(500), fail(500)], { fallback: 'back' });
+    const provider = new ResilientLLMProvider([primary], {
+      ...options,
+      now: () => now,
+      onBreakerStateChange: (change) => changes.push(change),
+    });
+
+    await collect(provider.streamChat(request)).catch(() => undefined);
+    expect(changes.map((c) => c.to)).toEqual(['OPEN']);
+    expect(changes[0].reason).toContain('500');
+
+    // Circuit open: provider is not called at all
+    await expect(collect(provider.streamChat(request))).rejects.toThrow('circuit open');
+    expect(primary.requests).toHaveLength(3);
+
+    now = 1000;
+    const { result } = await collect(provider.streamChat(request));
+    expect(result.content).toBe('back');
+    expect(changes.map((c) => c.to)).toEqual(['OPEN', 'HALF_OPEN', 'CLOSED']);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  it('should reopen on a failed half-open trial', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker(
+      'p',
+      'm',
+      { failureThreshold: 2, cooldownMs: 100 },
+      undefined,
+      () => now
+    );
+
+    breaker.recordFailure();
+    expect(breaker.canRequest()).toBe(true);
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('OPEN');
+    expect(breaker.canRequest()).toBe(false);
+
+    now = 100;
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.getState()).toBe('HALF_OPEN');
+
+    breaker.recordFailure();
+    expect(breaker.getState()).toBe('OPEN');
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it('should let a single trial request through while half-open', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker(
+      'p',
+      'm',
+      { failureThreshold: 1, cooldownMs: 100 },
+      undefined,
+      () => now
+    );
+
+    breaker.recordFailure();
+    now = 100;
+    expect(breaker.canRequest()).toBe(true); // The trial
+    expect(breaker.canRequest()).toBe(false); // Concurrent caller waits for its outcome
+
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('CLOSED');
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(true);
+  });
+});
+
+describe('resolveProviderName', () => {
+  it('should honor LLM_PROVIDER', () => {
+    expect(resolveProviderName({ LLM_PROVIDER: 'ollama' } as any)).toBe('ollama');
+    expect(resolveProviderName({ LLM_PROVIDER: 'OpenAI' } as any)).toBe('openai');
+  });
+
+  it('should default to mock in tests and deepseek elsewhere', () => {
+    expect(resolveProviderName({ NODE_ENV: 'test' } as any)).toBe('mock');
+    expect(resolveProviderName({ NODE_ENV: 'production' } as any)).toBe('deepseek');
+  });
+
+  it('should fall back to the default provider for unknown names', () => {
+    expect(resolveProviderName({ LLM_PROVIDER: 'unknown' } as any)).toBe('deepseek');
+    expect(resolveProviderName({ LLM_PROVIDER: 'unknown', NODE_ENV: 'test' } as any)).toBe('mock');
+  });
+});
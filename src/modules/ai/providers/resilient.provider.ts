@@ -0,0 +1,146 @@
+import { logger } from '@/shared/utils/logger';
+import { LLMProvider, LLMChatRequest, LLMChatResult } from '../ai.types';
+import { CircuitBreaker, CircuitBreakerOptions, CircuitStateChange } from './circuit-breaker';
+import { LLMProviderError, LLMUnavailableError } from './provider.errors';
+
+export interface ResilientProviderOptions {
+  maxRetries: number; // Retries per provider for transient errors (before the first token)
+  retryBaseMs: number; // Backoff: retryBaseMs * 2^attempt + jitter
+  breaker: CircuitBreakerOptions;
+  onBreakerStateChange?: (change: CircuitStateChange) => void;
+  now?: () => number; // Clock for the breakers (tests)
+}
+
+interface Target {
+  provider: LLMProvider;
+  breaker: CircuitBreaker;
+}
+
+/**
+ * Wraps a primary provider and optional fallbacks:
+ * - retries 429/5xx/timeouts with exponential backoff while no token was streamed;
+ * - falls back to the next provider when one fails or its circuit is open;
+ * - throws LLMUnavailableError when nobody could answer (caller degrades).
+ * Errors after the first streamed token are rethrown as is (can't be replayed).
+ */
+export class ResilientLLMProvider implements LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  private targets: Target[];
+  private options: ResilientProviderOptions;
+
+  constructor(providers: LLMProvider[], options: ResilientProviderOptions) {
+    if (providers.length === 0) {
+      throw new Error('ResilientLLMProvider needs at least one provider');
+    }
+
+    this.name = providers[0].name;
+    this.model = providers[0].model;
+    this.options = options;
+    this.targets = providers.map((provider) => ({
+      provider,
+      breaker: new CircuitBreaker(
+        provider.name,
+        provider.model,
+        options.breaker,
+        options.onBreakerStateChange,
+        options.now
+      ),
+    }));
+  }
+
+  async *streamChat(
+    request: LLMChatRequest
+  ): AsyncGenerator<string, LLMChatResult, undefined> {
+    let lastError: unknown;
+
+    for (const { provider, breaker } of this.targets) {
+      if (!breaker.canRequest()) {
+        logger.warn({ provider: provider.name, model: provider.model }, 'LLM circuit open, skipping');
+        continue;
+      }
+
+      for (let attempt = 0; attempt <= this.options.maxRetries; attempt++) {
+        const stream = provider.streamChat(request);
+        let started = false;
+        let finished = false;
+
+        try {
+          while (true) {
+            const { value, done } = await stream.next();
+
+            if (done) {
+              finished = true;
+              breaker.recordSuccess();
+              return { ...value, provider: provider.name, model: provider.model };
+            }
+
+            started = true;
+            yield value;
+          }
+        } catch (error) {
+          finished = true;
+
+          // Cancelled by the caller: not a provider failure
+          if (request.signal?.aborted) {
+            throw error;
+          }
+
+          const retryable = isRetryable(error);
+
+          if (retryable) {
+            breaker.recordFailure(errorMessage(error));
+          }
+
+          // Part of the answer is already on the client
+          if (started) {
+            throw error;
+          }
+
+          lastError = error;
+
+          if (!retryable || attempt === this.options.maxRetries || !breaker.canRequest()) {
+            logger.warn(
+              { provider: provider.name, model: provider.model, attempt, error: errorMessage(error) },
+              'LLM provider failed'
+            );
+            break;
+          }
+
+          const delay =
+            this.options.retryBaseMs * 2 ** attempt + Math.random() * this.options.retryBaseMs;
+          logger.warn(
+            { provider: provider.name, attempt, delay, error: errorMessage(error) },
+            'LLM request failed, retrying'
+          );
+          await sleep(delay);
+        } finally {
+          // Consumer stopped early: close the upstream stream
+          if (!finished) {
+            await stream.return({ content: '', finishReason: 'cancelled' });
+          }
+        }
+      }
+    }
+
+    throw new LLMUnavailableError(
+      lastError ? `LLM unavailable: ${errorMessage(lastError)}` : 'LLM unavailable: circuit open',
+      lastError
+    );
+  }
+}
+
+/**
+ * Provider errors say themselves; unknown errors (e.g. fetch internals) count as transient
+ */
+function isRetryable(error: unknown): boolean {
+  return error instanceof LLMProviderError ? error.retryable : true;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
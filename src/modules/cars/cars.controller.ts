@@ -1,6 +1,19 @@
 import { Request, Response, NextFunction } from 'express';
 import { CarsService } from './cars.service';
 
+/**
+ * Comma-separated or repeated query parameter → list
+ */
+function parseList(value: unknown): string[] | undefined {
+  const items = (Array.isArray(value) ? value : [value])
+    .filter((item): item is string => typeof item === 'string')
+    .flatMap((item) => item.split(','))
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+  return items.length > 0 ? items : undefined;
+}
+
 const carsService = new CarsService();
 
 export class CarsController {
@@ -37,20 +50,34 @@ export class CarsController {
         yearFrom,
         yearTo,
         power,
+        powerFrom,
+        powerTo,
+        engineVolumeFrom,
+        engineVolumeTo,
         kpp,
         bodyType,
+        excludedBrands,
+        excludedBodyTypes,
+        excludedKpp,
         limit,
         offset,
       } = req.query;
 
       const params = {
-        marka: marka as string | undefined,
+        marka: parseList(marka),
         model: model as string | undefined,
         yearFrom: yearFrom ? parseInt(yearFrom as string) : undefined,
         yearTo: yearTo ? parseInt(yearTo as string) : undefined,
         power: power as string | undefined,
-        kpp: kpp as string | undefined,
-        bodyType: bodyType as string | undefined,
+        powerFrom: powerFrom ? parseInt(powerFrom as string) : undefined,
+        powerTo: powerTo ? parseInt(powerTo as string) : undefined,
+        engineVolumeFrom: engineVolumeFrom ? parseFloat(engineVolumeFrom as string) : undefined,
+        engineVolumeTo: engineVolumeTo ? parseFloat(engineVolumeTo as string) : undefined,
+        kpp: parseList(kpp),
+        bodyType: parseList(bodyType),
+        excludedBrands: parseList(excludedBrands),
+        excludedBodyTypes: parseList(excludedBodyTypes),
+        excludedKpp: parseList(excludedKpp),
         limit: limit ? parseInt(limit as string) : undefined,
         offset: offset ? parseInt(offset as string) : undefined,
       };
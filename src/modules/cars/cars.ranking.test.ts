@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { explainMatches, rankVariants, scoreVariant, RankableVariant } from './cars.ranking';
+
+const now = new Date('2026-06-01');
+
+const variant = (overrides: Partial<RankableVariant> & { brand?: string; modelName?: string }): RankableVariant => {
+  const { brand = 'Toyota', modelName = 'Camry', ...rest } = overrides;
+  return {
+    name: '2.5 AT',
+    bodyType: 'Седан',
+    yearFrom: 2018,
+    yearTo: null,
+    kppText: 'AT',
+    description: null,
+    model: { name: modelName, brand: { name: brand } },
+    ...rest,
+  };
+};
+
+describe('scoreVariant', () => {
+  it('should score an exact gearbox above one that only contains it', () => {
+    const exact = scoreVariant(variant({ kppText: 'MT' }), { kpp: ['MT'] }, now);
+    const contains = scoreVariant(variant({ kppText: 'AMT' }), { kpp: ['MT'] }, now);
+
+    expect(exact.fields.kpp).toBe(1);
+    expect(contains.fields.kpp).toBe(0.5);
+    expect(exact.total).toBeGreaterThan(contains.total);
+  });
+
+  it('should give newer model years more recency', () => {
+    const current = scoreVariant(variant({ yearFrom: 2020, yearTo: null }), {}, now);
+    const old = scoreVariant(variant({ yearFrom: 2006, yearTo: 2011 }), {}, now);
+
+    expect(current.recency).toBe(1);
+    expect(old.recency).toBe(0);
+  });
+
+  it('should add the description and keyword components', () => {
+    const score = scoreVariant(
+      variant({ description: 'Надёжный и экономичный седан' }),
+      { descriptionKeywords: ['надёжный', 'полный привод'] },
+      now
+    );
+
+    expect(score.description).toBe(1);
+    expect(score.keywords).toBe(0.5);
+    expect(score.total).toBe(45 + 15 + 10 + 7.5);
+  });
+
+  it('should add the semantic similarity of the variant\'s description', () => {
+    const car = variant({ id: 'camry', description: 'Семейный седан' });
+    const score = scoreVariant(car, { similarities: new Map([['camry', 0.8]]) }, now);
+
+    expect(score.semantic).toBe(0.8);
+    expect(score.total).toBe(45 + 15 + 10 + 12);
+    expect(scoreVariant(car, { similarities: new Map([['camry', -0.2]]) }, now).semantic).toBe(0);
+  });
+
+  it('should treat unknown power as half a match and power outside the range as a miss', () => {
+    expect(scoreVariant(variant({ powerHp: null }), { powerFrom: 150 }, now).fields.power).toBe(0.5);
+    expect(scoreVariant(variant({ powerHp: 120 }), { powerFrom: 150 }, now).fields.power).toBe(0);
+    expect(scoreVariant(variant({ powerHp: 150 }), { power: '150 л.с.' }, now).fields.power).toBe(1);
+  });
+});
+
+describe('explainMatches', () => {
+  it('should list matched, partial and unknown criteria and the keywords found', () => {
+    const car = variant({
+      kppText: 'AMT',
+      powerHp: null,
+      yearFrom: 2010,
+      yearTo: 2016,
+      description: 'Надёжный седан',
+    });
+    const criteria = {
+      bodyType: ['Седан'],
+      kpp: ['MT'],
+      powerFrom: 150,
+      yearFrom: 2014,
+      descriptionKeywords: ['надёжный', 'просторный'],
+    };
+
+    expect(explainMatches(car, criteria, scoreVariant(car, criteria, now))).toEqual([
+      { criterion: 'years', status: 'partial', value: '2010-2016' },
+      { criterion: 'power', status: 'unknown' },
+      { criterion: 'kpp', status: 'partial', value: 'AMT' },
+      { criterion: 'bodyType', status: 'matched', value: 'Седан' },
+      { criterion: 'keyword', status: 'matched', value: 'надёжный' },
+    ]);
+  });
+});
+
+describe('rankVariants', () => {
+  it('should put the best match first instead of the first brand alphabetically', () => {
+    const ranked = rankVariants(
+      [
+        variant({ brand: 'Abarth', modelName: '500', kppText: 'AMT', yearFrom: 2008, yearTo: 2015 }),
+        variant({ brand: 'Toyota', modelName: 'Corolla', kppText: 'MT', description: 'Простая механика' }),
+      ],
+      { kpp: ['MT'] },
+      now
+    );
+
+    expect(ranked.map(({ variant }) => variant.model.brand.name)).toEqual(['Toyota', 'Abarth']);
+  });
+
+  it('should order equal scores by brand, model and variant name', () => {
+    const ranked = rankVariants(
+      [
+        variant({ brand: 'Mazda', modelName: '6' }),
+        variant({ brand: 'Kia', modelName: 'K5', name: '2.5 AT' }),
+        variant({ brand: 'Kia', modelName: 'K5', name: '2.0 AT' }),
+      ],
+      {},
+      now
+    );
+
+    expect(ranked.map(({ variant }) => `${variant.model.brand.name} ${variant.name}`)).toEqual([
+      'Kia 2.0 AT',
+      'Kia 2.5 AT',
+      'Mazda 2.5 AT',
+    ]);
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * Relevance ranking for catalog variants.
+ * The database narrows the catalog with hard filters; this scores the candidates by how
+ * well they match each requested preference, how recent their model years are, whether
+ * they have a description, how many description keywords they hit and how close the
+ * description is to the request in meaning (when the semantic pass ran).
+ */
+
+import { normalizeBrandName } from '@/modules/ai/brand-aliases';
+
+// Share of the total score (0-100) per component
+const WEIGHTS = {
+  preferences: 45,
+  recency: 15,
+  description: 10,
+  keywords: 15,
+  semantic: 15,
+};
+
+// Model years older than this score no recency points
+const RECENCY_SPAN_YEARS = 15;
+
+// Preference fields a variant can be scored on (budget and the like have no catalog column)
+export type RankedField =
+  | 'marka'
+  | 'model'
+  | 'years'
+  | 'power'
+  | 'engineVolume'
+  | 'kpp'
+  | 'bodyType';
+
+export interface RelevanceScore {
+  fields: Partial<Record<RankedField, number>>; // 0-1 for every requested preference
+  recency: number; // 0-1: 1 = still produced or ended this year
+  description: number; // 1 if the variant has a description
+  keywords: number; // 0-1: share of description keywords found
+  semantic: number; // 0-1: description similarity to the request (0 without the semantic pass)
+  total: number; // Weighted sum, 0-100
+}
+
+// Why a variant matched: one entry per requested preference and per description keyword found
+export type MatchCriterion = RankedField | 'keyword';
+export type MatchStatus = 'matched' | 'partial' | 'unknown';
+
+export interface CriterionMatch {
+  criterion: MatchCriterion;
+  status: MatchStatus;
+  value?: string; // The variant's value ("AMT", "2010-2016"), or the keyword found
+}
+
+export interface RankingCriteria {
+  marka?: string[];
+  model?: string;
+  yearFrom?: number;
+  yearTo?: number;
+  power?: string; // "150 л.с.": closer power ranks higher
+  powerFrom?: number;
+  powerTo?: number;
+  engineVolumeFrom?: number;
+  engineVolumeTo?: number;
+  kpp?: string[];
+  bodyType?: string[]; // DB values ("Седан", "Внедорожник")
+  descriptionKeywords?: string[];
+  similarities?: Map<string, number>; // Variant ID -> cosine similarity from the semantic pass
+}
+
+/**
+ * Variant row as selected from the catalog (fields the ranking reads)
+ */
+export interface RankableVariant {
+  id?: string;
+  name: string;
+  bodyType: string | null;
+  yearFrom: number | null;
+  yearTo: number | null;
+  kppText: string | null;
+  powerHp?: number | null;
+  engineVolume?: number | null;
+  description?: string | null;
+  model: { name: string; brand: { name: string; code?: string | null } };
+}
+
+// ============================================
+// FIELD SCORES
+// ============================================
+
+/**
+ * 1 for an exact value, less for a value that only contains the wanted one
+ * ("AMT" for "MT", "Camry Solara" for "Camry")
+ */
+function textMatch(actual: string | null | undefined, wanted: string): number {
+  const a = (actual || '').toLowerCase().trim();
+  const w = wanted.toLowerCase().trim();
+
+  if (!a || !w) return 0;
+  if (a === w) return 1;
+  if (a.startsWith(`${w} `) || a.startsWith(`${w}-`)) return 0.8;
+  if (a.includes(w)) return 0.5;
+  return 0;
+}
+
+function bestMatch(actual: string | null | undefined, wanted: string[]): number {
+  return Math.max(0, ...wanted.map((value) => textMatch(actual, value)));
+}
+
+/**
+ * Share of the variant's production years inside the requested range
+ */
+function yearsOverlap(variant: RankableVariant, criteria: RankingCriteria, currentYear: number): number {
+  if (!variant.yearFrom) {
+    return 0.5; // Unknown years: neither a match nor a miss
+  }
+
+  const from = variant.yearFrom;
+  const to = variant.yearTo ?? currentYear;
+  const wantedFrom = criteria.yearFrom ?? -Infinity;
+  const wantedTo = criteria.yearTo ?? Infinity;
+  const overlap = Math.min(to, wantedTo) - Math.max(from, wantedFrom) + 1;
+
+  return Math.max(0, Math.min(1, overlap / (Math.max(from, to) - from + 1)));
+}
+
+/**
+ * 1 inside the range, 0.5 if the value is unknown, 0 outside
+ */
+function inRange(value: number | null | undefined, from?: number, to?: number): number {
+  if (value == null) return 0.5;
+  if ((from !== undefined && value < from) || (to !== undefined && value > to)) return 0;
+  return 1;
+}
+
+/**
+ * Power close to the requested one: 1 when equal, 0.5 at the ±10% search tolerance
+ */
+function powerCloseness(powerHp: number | null | undefined, power: string): number {
+  const target = Number(power.match(/\d+/)?.[0]);
+  if (!target) return 0;
+  if (powerHp == null) return 0.5;
+
+  const deviation = Math.abs(powerHp - target) / (target * 0.1);
+  return Math.max(0, 1 - deviation * 0.5);
+}
+
+function scoreFields(
+  variant: RankableVariant,
+  criteria: RankingCriteria,
+  currentYear: number
+): Partial<Record<RankedField, number>> {
+  const fields: Partial<Record<RankedField, number>> = {};
+
+  if (criteria.marka?.length) {
+    const brands = criteria.marka.map(normalizeBrandName);
+    fields.marka = Math.max(
+      bestMatch(variant.model.brand.name, brands),
+      bestMatch(variant.model.brand.code, brands)
+    );
+  }
+  if (criteria.model) {
+    fields.model = textMatch(variant.model.name, criteria.model);
+  }
+  if (criteria.yearFrom || criteria.yearTo) {
+    fields.years = yearsOverlap(variant, criteria, currentYear);
+  }
+  if (criteria.power) {
+    fields.power = powerCloseness(variant.powerHp, criteria.power);
+  } else if (criteria.powerFrom !== undefined || criteria.powerTo !== undefined) {
+    fields.power = inRange(variant.powerHp, criteria.powerFrom, criteria.powerTo);
+  }
+  if (criteria.engineVolumeFrom !== undefined || criteria.engineVolumeTo !== undefined) {
+    fields.engineVolume = inRange(
+      variant.engineVolume,
+      criteria.engineVolumeFrom,
+      criteria.engineVolumeTo
+    );
+  }
+  if (criteria.kpp?.length) {
+    fields.kpp = bestMatch(variant.kppText, criteria.kpp);
+  }
+  if (criteria.bodyType?.length) {
+    fields.bodyType = bestMatch(variant.bodyType, criteria.bodyType);
+  }
+
+  return fields;
+}
+
+// ============================================
+// EXPLANATION
+// ============================================
+
+/**
+ * The variant's own value for a field (undefined: the catalog doesn't know it)
+ */
+function fieldValue(variant: RankableVariant, field: RankedField): string | undefined {
+  switch (field) {
+    case 'marka':
+      return variant.model.brand.name;
+    case 'model':
+      return variant.model.name;
+    case 'years':
+      if (!variant.yearFrom) return undefined;
+      return variant.yearTo ? `${variant.yearFrom}-${variant.yearTo}` : `${variant.yearFrom}+`;
+    case 'power':
+      return variant.powerHp != null ? `${variant.powerHp} л.с.` : undefined;
+    case 'engineVolume':
+      return variant.engineVolume != null ? `${variant.engineVolume} л` : undefined;
+    case 'kpp':
+      return variant.kppText || undefined;
+    case 'bodyType':
+      return variant.bodyType || undefined;
+  }
+}
+
+/**
+ * Matched, partial and unknown criteria from a variant's score.
+ * Fields scoring 0 are left out: the database filters keep such variants out of results.
+ */
+export function explainMatches(
+  variant: RankableVariant,
+  criteria: RankingCriteria,
+  score: RelevanceScore
+): CriterionMatch[] {
+  const matches: CriterionMatch[] = [];
+
+  for (const [field, value] of Object.entries(score.fields) as Array<[RankedField, number]>) {
+    const actual = fieldValue(variant, field);
+
+    if (actual === undefined) {
+      matches.push({ criterion: field, status: 'unknown' });
+    } else if (value > 0) {
+      matches.push({ criterion: field, status: value >= 1 ? 'matched' : 'partial', value: actual });
+    }
+  }
+
+  const text = `${variant.description || ''} ${variant.name}`.toLowerCase();
+  for (const keyword of criteria.descriptionKeywords || []) {
+    if (text.includes(keyword.toLowerCase())) {
+      matches.push({ criterion: 'keyword', status: 'matched', value: keyword });
+    }
+  }
+
+  return matches;
+}
+
+// ============================================
+// RANKING
+// ============================================
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export function scoreVariant(
+  variant: RankableVariant,
+  criteria: RankingCriteria,
+  now: Date = new Date()
+): RelevanceScore {
+  const currentYear = now.getFullYear();
+  const fields = scoreFields(variant, criteria, currentYear);
+  const fieldScores = Object.values(fields);
+
+  // Nothing requested: every variant matches equally
+  const preferences = fieldScores.length
+    ? fieldScores.reduce((sum, value) => sum + value, 0) / fieldScores.length
+    : 1;
+
+  const lastYear = variant.yearTo ?? (variant.yearFrom ? currentYear : null);
+  const recency =
+    lastYear === null ? 0 : Math.max(0, 1 - (currentYear - lastYear) / RECENCY_SPAN_YEARS);
+
+  const description = variant.description ? 1 : 0;
+
+  const keywords = criteria.descriptionKeywords?.length
+    ? criteria.descriptionKeywords.filter((keyword) =>
+        `${variant.description || ''} ${variant.name}`.toLowerCase().includes(keyword.toLowerCase())
+      ).length / criteria.descriptionKeywords.length
+    : 0;
+
+  // Negative similarity is as good as none
+  const similarity = variant.id ? criteria.similarities?.get(variant.id) : undefined;
+  const semantic = Math.max(0, Math.min(1, similarity ?? 0));
+
+  const total =
+    preferences * WEIGHTS.preferences +
+    recency * WEIGHTS.recency +
+    description * WEIGHTS.description +
+    keywords * WEIGHTS.keywords +
+    semantic * WEIGHTS.semantic;
+
+  return {
+    fields: Object.fromEntries(
+      Object.entries(fields).map(([field, value]) => [field, round(value)])
+    ),
+    recency: round(recency),
+    description,
+    keywords: round(keywords),
+    semantic: round(semantic),
+    total: round(total),
+  };
+}
+
+/**
+ * Variants with their scores and matched criteria, best first (ties: brand, model, variant name)
+ */
+export function rankVariants<T extends RankableVariant>(
+  variants: T[],
+  criteria: RankingCriteria,
+  now: Date = new Date()
+): Array<{ variant: T; score: RelevanceScore; matches: CriterionMatch[] }> {
+  return variants
+    .map((variant) => {
+      const score = scoreVariant(variant, criteria, now);
+      return { variant, score, matches: explainMatches(variant, criteria, score) };
+    })
+    .sort(
+      (a, b) =>
+        b.score.total - a.score.total ||
+        a.variant.model.brand.name.localeCompare(b.variant.model.brand.name) ||
+        a.variant.model.name.localeCompare(b.variant.model.name) ||
+        a.variant.name.localeCompare(b.variant.name)
+    );
+}
@@ -19,7 +19,9 @@ router.get('/brands', carsController.getBrands.bind(carsController));
 router.get('/models', carsController.getModels.bind(carsController));
 
 /**
- * @route   GET /cars/search?marka=&model=&yearFrom=&yearTo=&power=&kpp=&bodyType=
+ * @route   GET /cars/search?marka=&model=&yearFrom=&yearTo=&power=&powerFrom=&powerTo=&engineVolumeFrom=&engineVolumeTo=&kpp=&bodyType=
+ *          &excludedBrands=&excludedBodyTypes=&excludedKpp=
+ *          (marka, kpp, bodyType and exclusions accept comma-separated lists)
  * @desc    Search cars by multiple parameters
  * @access  Public (used by AI service)
  */
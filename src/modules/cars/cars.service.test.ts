@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from 'vitest';
+import { carsService } from './cars.service';
+import { embeddingsService } from '@/modules/embeddings/embeddings.service';
+import { prisma } from '@/shared/utils/prisma';
+
+vi.mock('@/shared/utils/prisma', () => ({
+  prisma: {
+    carVariant: { findMany: vi.fn() },
+  },
+}));
+
+vi.mock('@/modules/embeddings/embeddings.service', () => ({
+  embeddingsService: { enabled: true, findSimilar: vi.fn() },
+}));
+
+const row = (id: string, model: string, description: string | null) => ({
+  id,
+  name: '2.0 AT',
+  bodyType: 'Седан',
+  yearFrom: 2018,
+  yearTo: null,
+  powerText: '150 л.с.',
+  kppText: 'AT',
+  powerHp: 150,
+  engineVolume: 2,
+  description,
+  model: { name: model, brand: { name: 'Toyota', code: 'TOYOTA' } },
+  complectations: [],
+});
+
+describe('CarsService.searchCarsForRAG (semantic pass)', () => {
+  it('should merge variants with similar descriptions and rank them by similarity', async () => {
+    vi.mocked(embeddingsService.findSimilar).mockResolvedValueOnce([
+      { id: 'camry', similarity: 0.9 },
+      { id: 'corolla', similarity: 0.2 },
+    ]);
+    vi.mocked(prisma.carVariant.findMany)
+      .mockResolvedValueOnce([row('corolla', 'Corolla', 'Городской седан')] as any) // Structural pool
+      .mockResolvedValueOnce([
+        row('camry', 'Camry', 'Просторный семейный седан'),
+        row('corolla', 'Corolla', 'Городской седан'),
+      ] as any); // Semantic matches that pass the filters
+
+    const results = await carsService.searchCarsForRAG({
+      bodyType: ['sedan'],
+      semanticQuery: 'машина для большой семьи',
+    });
+
+    expect(results.map((result) => [result.id, result.score?.semantic])).toEqual([
+      ['camry', 0.9],
+      ['corolla', 0.2],
+    ]);
+
+    // Similar variants still go through the structural filters
+    const semanticWhere = vi.mocked(prisma.carVariant.findMany).mock.calls[1][0]!.where as any;
+    expect(semanticWhere.AND[0].bodyType).toEqual({ contains: 'Седан', mode: 'insensitive' });
+    expect(semanticWhere.AND[1]).toEqual({ id: { in: ['camry', 'corolla'] } });
+  });
+});
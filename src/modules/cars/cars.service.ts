@@ -2,6 +2,8 @@ import { prisma } from '@/shared/utils/prisma';
 import { logger } from '@/shared/utils/logger';
 import type { SearchResultForContext } from '@/modules/ai/ai.types';
 import { normalizeBrandName } from '@/modules/ai/brand-aliases';
+import { embeddingsService } from '@/modules/embeddings/embeddings.service';
+import { rankVariants, CriterionMatch, RankingCriteria, RelevanceScore } from './cars.ranking';
 
 /**
  * Map English bodyType values (from LLM prompts) to Russian DB values.
@@ -24,15 +26,154 @@ function normalizeBodyType(bodyType: string): string {
   return BODY_TYPE_EN_TO_DB[bodyType.toLowerCase()] || bodyType;
 }
 
+// Candidates fetched for ranking: the database filters, the ranking picks the best of these
+const RANKING_POOL_SIZE = 200;
+
+// Variants the semantic pass takes by description similarity (before structural filters)
+const SEMANTIC_POOL_SIZE = 100;
+
+// Newest model years first, so a broad query's pool isn't just the first brands alphabetically
+const POOL_ORDER = [{ yearFrom: { sort: 'desc', nulls: 'last' } }, { id: 'asc' }] as const;
+
+/**
+ * Ranking criteria from search params (brands and body types as stored in the catalog)
+ */
+function rankingCriteria(params: SearchCarsParams): RankingCriteria {
+  return {
+    marka: params.marka?.map(normalizeBrandName),
+    model: params.model,
+    yearFrom: params.yearFrom,
+    yearTo: params.yearTo,
+    power: params.power,
+    powerFrom: params.powerFrom,
+    powerTo: params.powerTo,
+    engineVolumeFrom: params.engineVolumeFrom,
+    engineVolumeTo: params.engineVolumeTo,
+    kpp: params.kpp,
+    bodyType: params.bodyType?.map(normalizeBodyType),
+    descriptionKeywords: params.descriptionKeywords,
+  };
+}
+
+/**
+ * Brand name or code matches any of the given values
+ */
+function brandFilter(brands: string[]) {
+  return {
+    OR: brands.flatMap((brand) => [
+      { name: { contains: brand, mode: 'insensitive' } },
+      { code: { contains: brand, mode: 'insensitive' } },
+    ]),
+  };
+}
+
+/**
+ * Text column contains any of the values (OR-query for multi-valued preferences)
+ */
+function addContainsAny(where: any, field: string, values: string[] | undefined): void {
+  if (!values?.length) {
+    return;
+  }
+
+  if (values.length === 1) {
+    where[field] = { contains: values[0], mode: 'insensitive' };
+    return;
+  }
+
+  where.AND = [
+    ...(where.AND || []),
+    { OR: values.map((value) => ({ [field]: { contains: value, mode: 'insensitive' } })) },
+  ];
+}
+
+/**
+ * Numeric column within [from, to]; variants with unknown (null) values don't match
+ */
+function addNumericRange(where: any, field: string, from?: number, to?: number): void {
+  if (from === undefined && to === undefined) {
+    return;
+  }
+
+  where[field] = {
+    ...(from !== undefined && { gte: from }),
+    ...(to !== undefined && { lte: to }),
+  };
+}
+
+// Multi-valued fields a search is split on, so that every option gets results
+// (a single OR-query sorted by brand would fill the limit with the first brand)
+const COMPARISON_FIELDS = ['marka', 'bodyType', 'kpp'] as const;
+
+function comparisonAxis(params: SearchCarsParams) {
+  return COMPARISON_FIELDS.find((field) => (params[field]?.length ?? 0) > 1);
+}
+
+/**
+ * Round-robin merge of per-option results, without duplicates
+ */
+function interleave<T extends { id?: string }>(groups: T[][], limit: number): T[] {
+  const seen = new Set<string>();
+  const results: T[] = [];
+
+  for (let i = 0; results.length < limit && groups.some((group) => i < group.length); i++) {
+    for (const group of groups) {
+      const item = group[i];
+      if (!item || results.length >= limit) continue;
+      if (item.id && seen.has(item.id)) continue;
+      if (item.id) seen.add(item.id);
+      results.push(item);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * NOT filters for values the user ruled out.
+ * Variants with unknown (null) bodyType/kppText are kept: nothing says they match the exclusion.
+ */
+function buildExclusionFilters(params: SearchCarsParams): any[] {
+  const filters: any[] = [];
+
+  for (const brand of params.excludedBrands || []) {
+    filters.push({ NOT: { model: { brand: brandFilter([normalizeBrandName(brand)]) } } });
+  }
+
+  for (const bodyType of params.excludedBodyTypes || []) {
+    filters.push({
+      OR: [
+        { bodyType: null },
+        { NOT: { bodyType: { contains: normalizeBodyType(bodyType), mode: 'insensitive' } } },
+      ],
+    });
+  }
+
+  for (const kpp of params.excludedKpp || []) {
+    filters.push({
+      OR: [{ kppText: null }, { NOT: { kppText: { contains: kpp, mode: 'insensitive' } } }],
+    });
+  }
+
+  return filters;
+}
+
 export interface SearchCarsParams {
-  marka?: string; // brand name or code
+  marka?: string[]; // brand names or codes (any of)
   model?: string; // model name
   yearFrom?: number;
   yearTo?: number;
   power?: string; // e.g., "177 л.с."
-  kpp?: string; // e.g., "AT", "MT"
-  bodyType?: string;
+  powerFrom?: number; // HP
+  powerTo?: number;
+  engineVolumeFrom?: number; // liters
+  engineVolumeTo?: number;
+  kpp?: string[]; // e.g., ["AT", "CVT"] (any of)
+  bodyType?: string[]; // any of
   descriptionKeywords?: string[]; // keywords to search in description text
+  semanticQuery?: string; // free text (the user's message) for the description similarity pass
+  excludedBrands?: string[]; // NOT filters: brands the user ruled out
+  excludedBodyTypes?: string[];
+  excludedKpp?: string[];
   limit?: number;
   offset?: number;
 }
@@ -92,6 +233,39 @@ export class CarsService {
    * Search cars with flexible filters
    */
   async searchCars(params: SearchCarsParams) {
+    const { limit = 50 } = params;
+
+    logger.debug({ params }, 'Searching cars');
+
+    // Several brands/body types/KPP: query each option so all of them are represented
+    const axis = comparisonAxis(params);
+    const variants = axis
+      ? interleave(
+          await Promise.all(
+            params[axis]!.map((value) =>
+              this.findVariants({
+                ...params,
+                [axis]: [value],
+                limit: Math.ceil(limit / params[axis]!.length),
+              })
+            )
+          ),
+          limit
+        )
+      : await this.findVariants(params);
+
+    // Transform to grouped by model format
+    const groupedResults = this.groupVariantsByModel(variants);
+
+    logger.debug({ count: groupedResults.length }, 'Search results');
+
+    return groupedResults;
+  }
+
+  /**
+   * Query variants for searchCars, best matches first (each with its score and matched criteria)
+   */
+  private async findVariants(params: SearchCarsParams) {
     const {
       marka,
       model,
@@ -104,21 +278,12 @@ export class CarsService {
       offset = 0,
     } = params;
 
-    logger.debug({ params }, 'Searching cars');
-
     // Build where clause
     const where: any = {};
 
     // Filter by brand (name or code)
-    if (marka) {
-      where.model = {
-        brand: {
-          OR: [
-            { name: { contains: marka, mode: 'insensitive' } },
-            { code: { contains: marka, mode: 'insensitive' } },
-          ],
-        },
-      };
+    if (marka?.length) {
+      where.model = { brand: brandFilter(marka) };
     }
 
     // Filter by model name
@@ -151,22 +316,27 @@ export class CarsService {
       where.powerText = { contains: power, mode: 'insensitive' };
     }
 
+    // Numeric ranges ("от 150 л.с.", "объём 2 литра")
+    addNumericRange(where, 'powerHp', params.powerFrom, params.powerTo);
+    addNumericRange(where, 'engineVolume', params.engineVolumeFrom, params.engineVolumeTo);
+
     // Filter by transmission type
-    if (kpp) {
-      where.kppText = { contains: kpp, mode: 'insensitive' };
-    }
+    addContainsAny(where, 'kppText', kpp);
 
     // Filter by body type
-    if (bodyType) {
-      where.bodyType = { contains: bodyType, mode: 'insensitive' };
+    addContainsAny(where, 'bodyType', bodyType);
+
+    // Exclusions
+    const exclusions = buildExclusionFilters(params);
+    if (exclusions.length > 0) {
+      where.AND = [...(where.AND || []), ...exclusions];
     }
 
-    // Execute query
-    const variants = await prisma.carVariant.findMany({
+    // Fetch a candidate pool and rank it (offset/limit apply to the ranked list)
+    const candidates = await prisma.carVariant.findMany({
       where,
-      orderBy: [{ model: { brand: { name: 'asc' } } }, { model: { name: 'asc' } }],
-      take: limit,
-      skip: offset,
+      orderBy: [...POOL_ORDER],
+      take: Math.max(RANKING_POOL_SIZE, offset + limit),
       select: {
         id: true,
         name: true,
@@ -175,6 +345,9 @@ export class CarsService {
         yearTo: true,
         powerText: true,
         kppText: true,
+        powerHp: true,
+        engineVolume: true,
+        description: true,
         model: {
           select: {
             id: true,
@@ -191,16 +364,14 @@ export class CarsService {
       },
     });
 
-    // Transform to grouped by model format
-    const groupedResults = this.groupVariantsByModel(variants);
-
-    logger.debug({ count: groupedResults.length }, 'Search results');
-
-    return groupedResults;
+    return rankVariants(candidates, rankingCriteria(params))
+      .slice(offset, offset + limit)
+      .map(({ variant, score, matches }) => ({ ...variant, score, matches }));
   }
 
   /**
    * Group variants by model for cleaner response
+   * (models keep the order of their best variant)
    */
   private groupVariantsByModel(variants: any[]) {
     const modelsMap = new Map<string, any>();
@@ -247,6 +418,8 @@ export class CarsService {
         yearTo: variant.yearTo,
         powerText: variant.powerText,
         kppText: variant.kppText,
+        score: variant.score,
+        matches: variant.matches,
       });
     }
 
@@ -273,7 +446,7 @@ export class CarsService {
 
   /**
    * Search cars for RAG context
-   * Returns only cars WITH descriptions, formatted for LLM prompt
+   * Returns the best-ranked variants (with their score breakdown and matched criteria), formatted for LLM prompt
    */
   async searchCarsForRAG(params: SearchCarsParams): Promise<SearchResultForContext[]> {
     const {
@@ -285,28 +458,38 @@ export class CarsService {
       kpp,
       bodyType,
       descriptionKeywords,
+      semanticQuery,
       limit = 10, // Default limit for RAG context
       offset = 0,
     } = params;
 
     logger.debug({ params }, 'Searching cars for RAG');
 
-    // Normalize brand name (Cyrillic -> Latin)
-    const normalizedMarka = marka ? normalizeBrandName(marka) : undefined;
+    // Comparison ("Тойота или Мазда"): search each option and interleave the results
+    const axis = comparisonAxis(params);
+    if (axis) {
+      const options = params[axis]!;
+      const groups = await Promise.all(
+        options.map((value) =>
+          this.searchCarsForRAG({
+            ...params,
+            [axis]: [value],
+            limit: Math.ceil(limit / options.length),
+          })
+        )
+      );
+      return interleave(groups, limit);
+    }
+
+    // Normalize brand names (Cyrillic -> Latin)
+    const normalizedMarka = marka?.map(normalizeBrandName);
 
     // Build structural where clause
     const where: any = {};
 
     // Filter by brand (name or code)
-    if (normalizedMarka) {
-      where.model = {
-        brand: {
-          OR: [
-            { name: { contains: normalizedMarka, mode: 'insensitive' } },
-            { code: { contains: normalizedMarka, mode: 'insensitive' } },
-          ],
-        },
-      };
+    if (normalizedMarka?.length) {
+      where.model = { brand: brandFilter(normalizedMarka) };
     }
 
     // Filter by model name
@@ -339,24 +522,32 @@ export class CarsService {
       where.powerText = { contains: power, mode: 'insensitive' };
     }
 
+    // Numeric ranges ("от 150 л.с.", "объём 2 литра")
+    addNumericRange(where, 'powerHp', params.powerFrom, params.powerTo);
+    addNumericRange(where, 'engineVolume', params.engineVolumeFrom, params.engineVolumeTo);
+
     // Filter by transmission type
-    if (kpp) {
-      where.kppText = { contains: kpp, mode: 'insensitive' };
-    }
+    addContainsAny(where, 'kppText', kpp);
 
     // Filter by body type (normalize English -> Russian DB values)
-    if (bodyType) {
-      const normalizedBodyType = normalizeBodyType(bodyType);
-      where.bodyType = { contains: normalizedBodyType, mode: 'insensitive' };
+    addContainsAny(where, 'bodyType', bodyType?.map(normalizeBodyType));
+
+    // Exclusions
+    const exclusions = buildExclusionFilters(params);
+    if (exclusions.length > 0) {
+      where.AND = [...(where.AND || []), ...exclusions];
     }
 
     const selectFields = {
+      id: true,
       name: true,
       bodyType: true,
       yearFrom: true,
       yearTo: true,
       powerText: true,
       kppText: true,
+      powerHp: true,
+      engineVolume: true,
       description: true,
       model: {
         select: {
@@ -377,7 +568,12 @@ export class CarsService {
       },
     };
 
-    const toResult = (variant: any): SearchResultForContext => ({
+    const toResult = (
+      variant: any,
+      score: RelevanceScore,
+      matches: CriterionMatch[]
+    ): SearchResultForContext => ({
+      id: variant.id,
       brand: variant.model.brand.name,
       model: variant.model.name,
       variant: variant.name,
@@ -390,13 +586,23 @@ export class CarsService {
       complectations: variant.complectations?.length
         ? variant.complectations.map((c: any) => c.complectation.name)
         : undefined,
+      score,
+      matches,
     });
 
-    // === Two-pass search ===
-    // Pass 1: Description keyword search (if keywords provided)
-    // Finds variants where description contains any of the keywords
-    let keywordResults: SearchResultForContext[] = [];
+    // === Candidate pool: structural matches + description keyword and semantic matches ===
+    // Keyword and semantic matches are fetched separately so that they make the pool even
+    // when the structural filters alone match more variants than the pool holds
+    const poolSize = Math.max(RANKING_POOL_SIZE, offset + limit);
 
+    const structuralVariants = await prisma.carVariant.findMany({
+      where,
+      orderBy: [...POOL_ORDER],
+      take: poolSize,
+      select: selectFields,
+    });
+
+    let keywordVariants: typeof structuralVariants = [];
     if (descriptionKeywords && descriptionKeywords.length > 0) {
       const keywordWhere = {
         ...JSON.parse(JSON.stringify(where)), // deep clone structural filters
@@ -413,63 +619,55 @@ export class CarsService {
         ],
       };
 
-      const keywordVariants = await prisma.carVariant.findMany({
+      keywordVariants = await prisma.carVariant.findMany({
         where: keywordWhere,
-        orderBy: [{ model: { brand: { name: 'asc' } } }, { model: { name: 'asc' } }],
-        take: limit,
-        skip: offset,
+        orderBy: [...POOL_ORDER],
+        take: poolSize,
         select: selectFields,
       });
-
-      keywordResults = keywordVariants.map(toResult);
       logger.debug(
-        { count: keywordResults.length, keywords: descriptionKeywords },
+        { count: keywordVariants.length, keywords: descriptionKeywords },
         'RAG description keyword search results',
       );
     }
 
-    // Pass 2: Structural search (existing behavior)
-    const fetchLimit = limit * 2;
-    const variants = await prisma.carVariant.findMany({
-      where,
-      orderBy: [{ model: { brand: { name: 'asc' } } }, { model: { name: 'asc' } }],
-      take: fetchLimit,
-      skip: offset,
-      select: selectFields,
-    });
-
-    let structuralResults: SearchResultForContext[] = variants.map(toResult);
-
-    // Prioritize variants WITH descriptions
-    structuralResults.sort((a, b) => {
-      const aHas = a.description ? 0 : 1;
-      const bHas = b.description ? 0 : 1;
-      return aHas - bHas;
-    });
-
-    // === Merge: keyword results first, then unique structural results ===
-    const seen = new Set<string>();
-    const results: SearchResultForContext[] = [];
-
-    // Add keyword-matched results first (most relevant)
-    for (const r of keywordResults) {
-      const key = `${r.brand}|${r.model}|${r.variant}`;
-      if (!seen.has(key)) {
-        seen.add(key);
-        results.push(r);
+    // Semantic pass: descriptions closest to the request in meaning (when embeddings are
+    // configured), kept only if they pass the structural filters
+    const similarities = new Map<string, number>();
+    let semanticVariants: typeof structuralVariants = [];
+    if (semanticQuery && embeddingsService.enabled) {
+      const similar = await embeddingsService.findSimilar(semanticQuery, SEMANTIC_POOL_SIZE);
+      for (const { id, similarity } of similar) {
+        similarities.set(id, similarity);
       }
-    }
 
-    // Fill remaining slots with structural results
-    for (const r of structuralResults) {
-      if (results.length >= limit) break;
-      const key = `${r.brand}|${r.model}|${r.variant}`;
-      if (!seen.has(key)) {
-        seen.add(key);
-        results.push(r);
+      if (similar.length > 0) {
+        semanticVariants = await prisma.carVariant.findMany({
+          where: { AND: [where, { id: { in: [...similarities.keys()] } }] },
+          select: selectFields,
+        });
       }
+      logger.debug(
+        { similar: similar.length, matched: semanticVariants.length },
+        'RAG semantic search results',
+      );
     }
 
+    const candidates = new Map(
+      [...semanticVariants, ...keywordVariants, ...structuralVariants].map((variant) => [
+        variant.id,
+        variant,
+      ])
+    );
+
+    // === Rank: best matches, not the first brands alphabetically ===
+    const results = rankVariants([...candidates.values()], {
+      ...rankingCriteria(params),
+      similarities,
+    })
+      .slice(offset, offset + limit)
+      .map(({ variant, score, matches }) => toResult(variant, score, matches));
+
     logger.debug({ count: results.length }, 'RAG search results');
 
     return results;
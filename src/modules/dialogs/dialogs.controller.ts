@@ -1,8 +1,43 @@
 import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
 import { DialogsService } from './dialogs.service';
+import {
+  ChatEmitter,
+  editLastMessage,
+  regenerateLastAnswer,
+} from '@/modules/socket/socket.handlers';
+import type { ChatErrorPayload } from '@/modules/socket/socket.types';
 
 const dialogsService = new DialogsService();
 
+const editLastSchema = z.object({
+  text: z.string().min(1, 'Message text is required'),
+});
+
+// HTTP status for chat:error codes of the REST equivalents
+const CHAT_ERROR_STATUS: Record<string, number> = {
+  BAD_REQUEST: 400,
+  MODERATION_BLOCKED: 400,
+  CONFLICT: 409,
+  AI_ERROR: 502,
+};
+
+/**
+ * Collects chat pipeline events instead of streaming them to a socket
+ */
+class ChatEventCollector implements ChatEmitter {
+  readonly events: Array<{ event: string; payload: any }> = [];
+
+  emit(event: string, payload: unknown): boolean {
+    this.events.push({ event, payload });
+    return true;
+  }
+
+  find(event: string) {
+    return this.events.find((e) => e.event === event)?.payload;
+  }
+}
+
 export class DialogsController {
   /**
    * Get current user's dialog
@@ -43,4 +78,66 @@ export class DialogsController {
       next(error);
     }
   }
+
+  /**
+   * Regenerate the last assistant answer (non-streaming chat:regenerate)
+   */
+  async regenerateLast(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const collector = new ChatEventCollector();
+      await regenerateLastAnswer(collector, req.user.userId);
+
+      this.sendChatResult(res, collector);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Replace the last user message and answer it again (non-streaming chat:edit_last)
+   */
+  async editLast(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user) {
+        res.status(401).json({ error: 'Unauthorized' });
+        return;
+      }
+
+      const { text } = editLastSchema.parse(req.body);
+
+      const collector = new ChatEventCollector();
+      await editLastMessage(collector, req.user.userId, { text });
+
+      this.sendChatResult(res, collector);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Respond with the final assistant message (+ TCO cards) or the chat error
+   */
+  private sendChatResult(res: Response, collector: ChatEventCollector): void {
+    const error = collector.find('chat:error') as ChatErrorPayload | undefined;
+
+    if (error) {
+      res.status(CHAT_ERROR_STATUS[error.code] ?? 500).json({
+        error: error.code,
+        message: error.message,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      ...(collector.find('chat:assistant_done') ?? {}),
+      tcoResults: collector.events
+        .filter((e) => e.event === 'chat:tco_result')
+        .map((e) => e.payload),
+    });
+  }
 }
@@ -23,4 +23,26 @@ router.get(
   dialogsController.getMyMessages.bind(dialogsController)
 );
 
+/**
+ * @route   POST /dialogs/me/regenerate
+ * @desc    Regenerate the last assistant answer (replaces it; old version kept for admins)
+ * @access  Private
+ */
+router.post(
+  '/me/regenerate',
+  authMiddleware,
+  dialogsController.regenerateLast.bind(dialogsController)
+);
+
+/**
+ * @route   POST /dialogs/me/edit-last
+ * @desc    Replace the last user message and answer it again
+ * @access  Private
+ */
+router.post(
+  '/me/edit-last',
+  authMiddleware,
+  dialogsController.editLast.bind(dialogsController)
+);
+
 export default router;
@@ -1,5 +1,6 @@
 import { prisma } from '@/shared/utils/prisma';
 import { logger } from '@/shared/utils/logger';
+import type { RecommendedCar, UserPreferences } from '@/modules/ai/ai.types';
 
 export class DialogsService {
   /**
@@ -39,11 +40,11 @@ export class DialogsService {
   }
 
   /**
-   * Get dialog messages
+   * Get dialog messages (current versions only)
    */
   async getMessages(dialogId: string, limit = 100, offset = 0) {
     const messages = await prisma.message.findMany({
-      where: { dialogId },
+      where: { dialogId, supersededAt: null },
       orderBy: { createdAt: 'asc' },
       take: limit,
       skip: offset,
@@ -54,6 +55,8 @@ export class DialogsService {
         content: true,
         moderationStatus: true,
         blockedReason: true,
+        status: true,
+        cars: true,
         createdAt: true,
       },
     });
@@ -61,6 +64,34 @@ export class DialogsService {
     return messages;
   }
 
+  /**
+   * Get latest N messages for LLM history, oldest first.
+   * Blocked messages are skipped; `after` keeps only messages newer than that date.
+   */
+  async getRecentMessages(dialogId: string, limit = 20, after?: Date) {
+    const messages = await prisma.message.findMany({
+      where: {
+        dialogId,
+        moderationStatus: 'OK',
+        supersededAt: null,
+        ...(after ? { createdAt: { gt: after } } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      select: {
+        id: true,
+        role: true,
+        content: true,
+        cars: true,
+        createdAt: true,
+      },
+    });
+
+    return messages
+      .reverse()
+      .map((message) => ({ ...message, cars: (message.cars as RecommendedCar[] | null) ?? undefined }));
+  }
+
   /**
    * Create message
    */
@@ -69,7 +100,13 @@ export class DialogsService {
     role: 'USER' | 'ASSISTANT' | 'SYSTEM',
     content: string,
     moderationStatus: 'OK' | 'BLOCKED' = 'OK',
-    blockedReason?: string
+    blockedReason?: string,
+    options: {
+      status?: 'COMPLETE' | 'CANCELLED';
+      previousVersionId?: string;
+      cars?: RecommendedCar[];
+      preferencesBefore?: UserPreferences; // USER messages: snapshot for edit / regenerate
+    } = {}
   ) {
     const message = await prisma.message.create({
       data: {
@@ -78,6 +115,10 @@ export class DialogsService {
         content,
         moderationStatus,
         blockedReason,
+        status: options.status,
+        previousVersionId: options.previousVersionId,
+        cars: options.cars?.length ? (options.cars as any) : undefined,
+        preferencesBefore: options.preferencesBefore as any,
       },
       select: {
         id: true,
@@ -86,6 +127,8 @@ export class DialogsService {
         content: true,
         moderationStatus: true,
         blockedReason: true,
+        status: true,
+        cars: true,
         createdAt: true,
       },
     });
@@ -99,6 +142,58 @@ export class DialogsService {
     return message;
   }
 
+  /**
+   * Get the last user message and the assistant messages after it
+   * (current versions only); null if the user hasn't written yet
+   */
+  async getLastTurn(dialogId: string) {
+    const select = {
+      id: true,
+      role: true,
+      content: true,
+      moderationStatus: true,
+      preferencesBefore: true,
+      createdAt: true,
+    } as const;
+
+    const userMessage = await prisma.message.findFirst({
+      where: { dialogId, role: 'USER', supersededAt: null },
+      orderBy: { createdAt: 'desc' },
+      select,
+    });
+
+    if (!userMessage) {
+      return null;
+    }
+
+    const assistantMessages = await prisma.message.findMany({
+      where: {
+        dialogId,
+        role: 'ASSISTANT',
+        supersededAt: null,
+        createdAt: { gt: userMessage.createdAt },
+      },
+      orderBy: { createdAt: 'asc' },
+      select,
+    });
+
+    return { userMessage, assistantMessages };
+  }
+
+  /**
+   * Hide replaced messages from the user and the LLM history (kept for admin review)
+   */
+  async supersedeMessages(messageIds: string[]) {
+    if (messageIds.length === 0) {
+      return;
+    }
+
+    await prisma.message.updateMany({
+      where: { id: { in: messageIds } },
+      data: { supersededAt: new Date() },
+    });
+  }
+
   /**
    * Delete dialog and all messages
    */
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EmbeddingsService, buildEmbeddingText, hashEmbeddingText } from './embeddings.service';
+import { HashingEmbeddingProvider } from './providers/hashing.provider';
+import type { EmbeddingProvider } from './embeddings.types';
+import { prisma } from '@/shared/utils/prisma';
+
+vi.mock('@/shared/utils/prisma', () => ({
+  prisma: {
+    carVariant: { findMany: vi.fn() },
+    $queryRaw: vi.fn(),
+    $executeRaw: vi.fn().mockResolvedValue(0),
+  },
+}));
+
+const variant = (id: string, description: string, embedded?: { model: string; text?: string }) => {
+  const row = { id, name: '2.0 AT', description, model: { name: 'Camry', brand: { name: 'Toyota' } } };
+  return {
+    ...row,
+    embeddingModel: embedded?.model ?? null,
+    embeddingHash: embedded ? hashEmbeddingText(embedded.text ?? buildEmbeddingText(row)) : null,
+  };
+};
+
+describe('EmbeddingsService.embedVariants', () => {
+  beforeEach(() => {
+    vi.mocked(prisma.carVariant.findMany).mockReset();
+    vi.mocked(prisma.$executeRaw).mockClear();
+  });
+
+  it('should embed only new and changed descriptions', async () => {
+    const provider = new HashingEmbeddingProvider(16);
+    const embed = vi.spyOn(provider, 'embed');
+    vi.mocked(prisma.carVariant.findMany)
+      .mockResolvedValueOnce([
+        variant('unchanged', 'Надёжный седан', { model: 'hashing:fnv-16' }),
+        variant('changed', 'Новое описание', { model: 'hashing:fnv-16', text: 'старый текст' }),
+        variant('other-model', 'Надёжный седан', { model: 'ollama:bge-m3' }),
+        variant('new', 'Экономичный седан'),
+      ] as any)
+      .mockResolvedValueOnce([]);
+
+    const result = await new EmbeddingsService(provider).embedVariants();
+
+    expect(embed.mock.calls[0][0]).toEqual([
+      'Toyota Camry 2.0 AT. Новое описание',
+      'Toyota Camry 2.0 AT. Надёжный седан',
+      'Toyota Camry 2.0 AT. Экономичный седан',
+    ]);
+    expect(result).toMatchObject({ checked: 4, embedded: 3, failed: 0 });
+    // 3 updates + clearing embeddings of removed descriptions
+    expect(prisma.$executeRaw).toHaveBeenCalledTimes(4);
+  });
+
+  it('should count a batch the provider failed on and go on', async () => {
+    const provider: EmbeddingProvider = {
+      name: 'http',
+      model: 'm',
+      embed: vi.fn().mockRejectedValue(new Error('down')),
+    };
+    vi.mocked(prisma.carVariant.findMany)
+      .mockResolvedValueOnce([variant('a', 'Описание')] as any)
+      .mockResolvedValueOnce([]);
+
+    const result = await new EmbeddingsService(provider).embedVariants({ ids: ['a'] });
+
+    expect(result).toEqual({ checked: 1, embedded: 0, failed: 1, cleared: 0 });
+    expect(prisma.$executeRaw).not.toHaveBeenCalled();
+  });
+});
+
+describe('EmbeddingsService.findSimilar', () => {
+  it('should be off without a provider and never throw', async () => {
+    expect(await new EmbeddingsService(null).findSimilar('семейный седан', 10)).toEqual([]);
+
+    vi.mocked(prisma.$queryRaw).mockRejectedValueOnce(new Error('type "vector" does not exist'));
+    const service = new EmbeddingsService(new HashingEmbeddingProvider(16));
+    expect(await service.findSimilar('семейный седан', 10)).toEqual([]);
+  });
+
+  it('should return variant IDs with numeric similarity', async () => {
+    vi.mocked(prisma.$queryRaw).mockResolvedValueOnce([{ id: 'a', similarity: '0.82' }] as any);
+    const service = new EmbeddingsService(new HashingEmbeddingProvider(16));
+
+    expect(await service.findSimilar('семейный седан', 10)).toEqual([{ id: 'a', similarity: 0.82 }]);
+  });
+
+  it('should embed the query with the short timeout and pause after a failure', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const provider: EmbeddingProvider = {
+      name: 'ollama',
+      model: 'bge-m3',
+      embed: vi.fn().mockRejectedValueOnce(new Error('timeout')).mockResolvedValue([[1, 0]]),
+    };
+    const service = new EmbeddingsService(provider, { timeoutMs: 1500, cooldownMs: 60_000 });
+
+    expect(await service.findSimilar('семейный седан', 10)).toEqual([]);
+    expect(provider.embed).toHaveBeenCalledWith(['семейный седан'], { timeoutMs: 1500 });
+
+    // Cooldown: the embedding server is not asked again
+    expect(await service.findSimilar('кроссовер', 10)).toEqual([]);
+    expect(provider.embed).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(Date.now() + 60_000);
+    vi.mocked(prisma.$queryRaw).mockResolvedValueOnce([{ id: 'a', similarity: 0.5 }] as any);
+    expect(await service.findSimilar('кроссовер', 10)).toEqual([{ id: 'a', similarity: 0.5 }]);
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Embeddings of variant descriptions for the semantic pass of searchCarsForRAG.
+ * Vectors live in car_variants."descriptionEmbedding" (pgvector) with the model that
+ * produced them and a hash of the embedded text: a changed description or model is
+ * re-embedded by embedVariants(), unchanged ones are skipped.
+ */
+
+import { createHash } from 'crypto';
+import { logger } from '@/shared/utils/logger';
+import { prisma } from '@/shared/utils/prisma';
+import { CircuitBreaker } from '@/modules/ai/providers/circuit-breaker';
+import {
+  EmbeddingProvider,
+  EmbedVariantsOptions,
+  EmbedVariantsResult,
+  SimilarVariant,
+} from './embeddings.types';
+import { createEmbeddingProvider } from './providers/provider.factory';
+
+// Query embeddings kept in memory (the same message is searched per comparison option)
+const QUERY_CACHE_SIZE = 100;
+
+const DEFAULT_BATCH_SIZE = 50;
+
+export interface SemanticQueryOptions {
+  timeoutMs: number; // Query embedding runs on every chat turn: wait briefly, not like the backfill
+  cooldownMs: number; // After a failure the semantic pass is skipped this long
+}
+
+function semanticQueryOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): SemanticQueryOptions {
+  return {
+    timeoutMs: Number(env.EMBEDDINGS_QUERY_TIMEOUT_MS) || 1500,
+    cooldownMs: Number(env.EMBEDDINGS_QUERY_COOLDOWN_MS) || 60_000,
+  };
+}
+
+interface EmbeddableVariant {
+  name: string;
+  description: string | null;
+  model: { name: string; brand: { name: string } };
+}
+
+/**
+ * Text a variant is embedded as: the car's name gives the description its subject
+ */
+export function buildEmbeddingText(variant: EmbeddableVariant): string {
+  return `${variant.model.brand.name} ${variant.model.name} ${variant.name}. ${variant.description || ''}`.trim();
+}
+
+export function hashEmbeddingText(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * pgvector literal: "[0.1,0.2,...]"
+ */
+export function toVectorLiteral(vector: number[]): string {
+  return `[${vector.join(',')}]`;
+}
+
+export class EmbeddingsService {
+  private queryCache = new Map<string, number[]>();
+  private breaker: CircuitBreaker;
+
+  constructor(
+    private provider: EmbeddingProvider | null = createEmbeddingProvider(),
+    private queryOptions: SemanticQueryOptions = semanticQueryOptionsFromEnv()
+  ) {
+    // Opens on the first failure: a hanging embedding server must not slow down every answer
+    this.breaker = new CircuitBreaker(
+      provider?.name ?? 'none',
+      provider?.model ?? 'none',
+      { failureThreshold: 1, cooldownMs: queryOptions.cooldownMs },
+      (change) => logger.warn(change, 'Semantic search circuit breaker state changed')
+    );
+  }
+
+  get enabled(): boolean {
+    return this.provider !== null;
+  }
+
+  // Stored next to each vector: "ollama:nomic-embed-text"
+  get modelId(): string | null {
+    return this.provider ? `${this.provider.name}:${this.provider.model}` : null;
+  }
+
+  /**
+   * Variants whose descriptions are closest to the query, best first.
+   * Never throws: without a provider, on errors and for a cooldown after one
+   * the semantic pass is skipped.
+   */
+  async findSimilar(query: string, limit: number): Promise<SimilarVariant[]> {
+    if (!this.provider || !query.trim() || !this.breaker.canRequest()) {
+      return [];
+    }
+
+    try {
+      const vector = toVectorLiteral(await this.embedQuery(query));
+
+      const rows = await prisma.$queryRaw<Array<{ id: string; similarity: number }>>`
+        SELECT id::text AS id, 1 - ("descriptionEmbedding" <=> ${vector}::vector) AS similarity
+        FROM car_variants
+        WHERE "descriptionEmbedding" IS NOT NULL AND "embeddingModel" = ${this.modelId}
+        ORDER BY "descriptionEmbedding" <=> ${vector}::vector
+        LIMIT ${limit}
+      `;
+
+      this.breaker.recordSuccess();
+      return rows.map((row) => ({ id: row.id, similarity: Number(row.similarity) }));
+    } catch (error) {
+      logger.error({ error }, 'Semantic search failed, using structural results only');
+      this.breaker.recordFailure(error instanceof Error ? error.message : String(error));
+      return [];
+    }
+  }
+
+  /**
+   * Embed new and changed descriptions (all of them with `force`), and drop
+   * embeddings of variants whose description was removed
+   */
+  async embedVariants(options: EmbedVariantsOptions = {}): Promise<EmbedVariantsResult> {
+    const provider = this.provider;
+    if (!provider) {
+      throw new Error('No embedding provider configured (EMBEDDINGS_PROVIDER)');
+    }
+
+    const batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+    const result: EmbedVariantsResult = { checked: 0, embedded: 0, failed: 0, cleared: 0 };
+    let cursor: string | undefined;
+
+    while (true) {
+      const variants = await prisma.carVariant.findMany({
+        where: {
+          description: { not: null },
+          ...(options.ids ? { id: { in: options.ids } } : {}),
+        },
+        select: {
+          id: true,
+          name: true,
+          description: true,
+          embeddingModel: true,
+          embeddingHash: true,
+          model: { select: { name: true, brand: { select: { name: true } } } },
+        },
+        orderBy: { id: 'asc' },
+        take: batchSize,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      });
+
+      if (variants.length === 0) break;
+      cursor = variants[variants.length - 1].id;
+      result.checked += variants.length;
+
+      const stale = variants
+        .map((variant) => {
+          const text = buildEmbeddingText(variant);
+          return { id: variant.id, text, hash: hashEmbeddingText(text), current: variant };
+        })
+        .filter(
+          ({ hash, current }) =>
+            options.force || current.embeddingHash !== hash || current.embeddingModel !== this.modelId
+        );
+
+      if (stale.length > 0) {
+        try {
+          const vectors = await provider.embed(stale.map((item) => item.text));
+
+          for (const [index, item] of stale.entries()) {
+            await prisma.$executeRaw`
+              UPDATE car_variants
+              SET "descriptionEmbedding" = ${toVectorLiteral(vectors[index])}::vector,
+                  "embeddingModel" = ${this.modelId},
+                  "embeddingHash" = ${item.hash}
+              WHERE id = ${item.id}::uuid
+            `;
+          }
+          result.embedded += stale.length;
+        } catch (error) {
+          logger.error({ error, count: stale.length }, 'Failed to embed variant descriptions');
+          result.failed += stale.length;
+        }
+      }
+
+      options.onProgress?.({ ...result });
+    }
+
+    if (!options.ids) {
+      result.cleared = await prisma.$executeRaw`
+        UPDATE car_variants
+        SET "descriptionEmbedding" = NULL, "embeddingModel" = NULL, "embeddingHash" = NULL
+        WHERE description IS NULL AND "descriptionEmbedding" IS NOT NULL
+      `;
+    }
+
+    return result;
+  }
+
+  private async embedQuery(query: string): Promise<number[]> {
+    const key = query.trim().toLowerCase();
+    const cached = this.queryCache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const [vector] = await this.provider!.embed([query], { timeoutMs: this.queryOptions.timeoutMs });
+
+    if (this.queryCache.size >= QUERY_CACHE_SIZE) {
+      this.queryCache.delete(this.queryCache.keys().next().value!);
+    }
+    this.queryCache.set(key, vector);
+
+    return vector;
+  }
+}
+
+// Export singleton instance
+export const embeddingsService = new EmbeddingsService();
@@ -0,0 +1,55 @@
+// ============================================
+// EMBEDDING PROVIDERS
+// ============================================
+
+/**
+ * Turns texts into vectors for semantic search over variant descriptions.
+ * Vectors of different providers/models are not comparable: each is stored
+ * as "name:model" and only compared with vectors of the same one.
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  embed(texts: string[], options?: EmbedOptions): Promise<number[][]>;
+}
+
+export interface EmbedOptions {
+  timeoutMs?: number; // Overrides the provider's timeout (short for chat queries, long for backfill)
+}
+
+export type EmbeddingProviderName = 'ollama' | 'http' | 'hashing';
+
+export class EmbeddingProviderError extends Error {
+  constructor(
+    message: string,
+    public provider: string,
+    public status?: number
+  ) {
+    super(message);
+    this.name = 'EmbeddingProviderError';
+    Error.captureStackTrace(this, this.constructor);
+  }
+}
+
+// ============================================
+// SEARCH AND BACKFILL
+// ============================================
+
+export interface SimilarVariant {
+  id: string; // CarVariant ID
+  similarity: number; // Cosine similarity to the query, -1..1
+}
+
+export interface EmbedVariantsOptions {
+  ids?: string[]; // Only these variants (default: every variant with a description)
+  force?: boolean; // Re-embed even if the text and model are unchanged
+  batchSize?: number;
+  onProgress?: (progress: EmbedVariantsResult) => void;
+}
+
+export interface EmbedVariantsResult {
+  checked: number; // Variants with a description looked at
+  embedded: number; // New or changed texts embedded
+  failed: number; // Batches the provider failed on, counted by variant
+  cleared: number; // Embeddings removed because the description was removed
+}
@@ -0,0 +1,53 @@
+import { EmbeddingProvider } from '../embeddings.types';
+
+/**
+ * FNV-1a, 32 bit
+ */
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Deterministic feature hashing: words and their character trigrams are hashed
+ * into a fixed-size vector. No model and no network — for tests, the offline
+ * evaluation and trying semantic search without an embedding server. Catches
+ * shared words and word forms ("надёжный" / "надежная"), not meaning.
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hashing';
+  readonly model: string;
+
+  constructor(private dimensions = 256) {
+    this.model = `fnv-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text.toLowerCase().replace(/ё/g, 'е').match(/[\p{L}\p{N}]+/gu) || [];
+
+    const add = (feature: string, weight: number) => {
+      const h = hash(feature);
+      vector[h % this.dimensions] += h & 0x80000000 ? -weight : weight;
+    };
+
+    for (const word of words) {
+      add(word, 1);
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(padded.slice(i, i + 3), 0.5);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  }
+}
@@ -0,0 +1,91 @@
+import { fetch } from 'undici';
+import { logger } from '@/shared/utils/logger';
+import { EmbeddingProvider, EmbeddingProviderError, EmbedOptions } from '../embeddings.types';
+
+export interface HttpEmbeddingConfig {
+  apiUrl: string; // Base URL without trailing /embeddings
+  apiKey: string;
+  model: string;
+  timeoutMs?: number;
+}
+
+/**
+ * POST JSON and return the parsed body; timeouts and non-OK statuses become EmbeddingProviderError
+ */
+export async function postJson(
+  provider: string,
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+  timeoutMs = 30_000
+): Promise<any> {
+  let response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+  } catch (error) {
+    throw new EmbeddingProviderError(
+      `Embedding request failed (${provider}): ${error instanceof Error ? error.message : String(error)}`,
+      provider
+    );
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    logger.error({ status: response.status, error: errorText }, 'Embedding API error');
+    throw new EmbeddingProviderError(
+      `Embedding API error (${provider}): ${response.status}`,
+      provider,
+      response.status
+    );
+  }
+
+  return response.json();
+}
+
+/**
+ * Any endpoint speaking the OpenAI /embeddings protocol (OpenAI, Jina, vLLM, LM Studio, ...)
+ */
+export class HttpEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'http';
+  readonly model: string;
+  private apiUrl: string;
+  private apiKey: string;
+  private timeoutMs?: number;
+
+  constructor(config: HttpEmbeddingConfig) {
+    this.apiUrl = config.apiUrl.replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+    this.model = config.model;
+    this.timeoutMs = config.timeoutMs;
+  }
+
+  async embed(texts: string[], options: EmbedOptions = {}): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const data = await postJson(
+      this.name,
+      `${this.apiUrl}/embeddings`,
+      { model: this.model, input: texts },
+      this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+      options.timeoutMs ?? this.timeoutMs
+    );
+
+    // Items carry their input index; don't rely on the order
+    const items: Array<{ index: number; embedding: number[] }> = data?.data || [];
+    const vectors = [...items].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+
+    if (vectors.length !== texts.length) {
+      throw new EmbeddingProviderError(
+        `Embedding API returned ${vectors.length} vectors for ${texts.length} texts`,
+        this.name
+      );
+    }
+
+    return vectors;
+  }
+}
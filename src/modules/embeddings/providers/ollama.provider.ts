@@ -0,0 +1,46 @@
+import { EmbeddingProvider, EmbeddingProviderError, EmbedOptions } from '../embeddings.types';
+import { postJson } from './http.provider';
+
+export interface OllamaEmbeddingConfig {
+  baseUrl: string; // e.g. http://localhost:11434
+  model: string; // e.g. nomic-embed-text, bge-m3
+  timeoutMs?: number;
+}
+
+/**
+ * Local embedding model on an Ollama server — /api/embed
+ */
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'ollama';
+  readonly model: string;
+  private baseUrl: string;
+  private timeoutMs?: number;
+
+  constructor(config: OllamaEmbeddingConfig) {
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.model = config.model;
+    this.timeoutMs = config.timeoutMs;
+  }
+
+  async embed(texts: string[], options: EmbedOptions = {}): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const data = await postJson(
+      this.name,
+      `${this.baseUrl}/api/embed`,
+      { model: this.model, input: texts },
+      {},
+      options.timeoutMs ?? this.timeoutMs
+    );
+
+    const vectors: number[][] = data?.embeddings || [];
+    if (vectors.length !== texts.length) {
+      throw new EmbeddingProviderError(
+        `Ollama returned ${vectors.length} embeddings for ${texts.length} texts`,
+        this.name
+      );
+    }
+
+    return vectors;
+  }
+}
@@ -0,0 +1,53 @@
+import { logger } from '@/shared/utils/logger';
+import { EmbeddingProvider, EmbeddingProviderName } from '../embeddings.types';
+import { HashingEmbeddingProvider } from './hashing.provider';
+import { HttpEmbeddingProvider } from './http.provider';
+import { OllamaEmbeddingProvider } from './ollama.provider';
+
+/**
+ * Provider name from EMBEDDINGS_PROVIDER (null: semantic search is off)
+ */
+export function resolveEmbeddingProviderName(
+  env: NodeJS.ProcessEnv = process.env
+): EmbeddingProviderName | null {
+  const configured = env.EMBEDDINGS_PROVIDER?.toLowerCase();
+
+  if (configured === 'ollama' || configured === 'http' || configured === 'hashing') {
+    return configured;
+  }
+
+  if (configured && configured !== 'none') {
+    logger.warn({ provider: configured }, 'Unknown EMBEDDINGS_PROVIDER, semantic search disabled');
+  }
+
+  return null;
+}
+
+/**
+ * Create the configured embedding provider (null when none is configured)
+ */
+export function createEmbeddingProvider(
+  env: NodeJS.ProcessEnv = process.env
+): EmbeddingProvider | null {
+  const timeoutMs = Number(env.EMBEDDINGS_TIMEOUT_MS) || 30_000;
+
+  switch (resolveEmbeddingProviderName(env)) {
+    case 'ollama':
+      return new OllamaEmbeddingProvider({
+        baseUrl: env.OLLAMA_URL || 'http://localhost:11434',
+        model: env.EMBEDDINGS_MODEL || 'nomic-embed-text',
+        timeoutMs,
+      });
+    case 'http':
+      return new HttpEmbeddingProvider({
+        apiUrl: env.EMBEDDINGS_API_URL || 'https://api.openai.com/v1',
+        apiKey: env.EMBEDDINGS_API_KEY || '',
+        model: env.EMBEDDINGS_MODEL || 'text-embedding-3-small',
+        timeoutMs,
+      });
+    case 'hashing':
+      return new HashingEmbeddingProvider(Number(env.EMBEDDINGS_DIMENSIONS) || 256);
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { fetch } from 'undici';
+import { HashingEmbeddingProvider } from './hashing.provider';
+import { HttpEmbeddingProvider } from './http.provider';
+import { OllamaEmbeddingProvider } from './ollama.provider';
+import { createEmbeddingProvider, resolveEmbeddingProviderName } from './provider.factory';
+import { EmbeddingProviderError } from '../embeddings.types';
+
+vi.mock('undici', () => ({ fetch: vi.fn() }));
+
+const fetchMock = vi.mocked(fetch);
+
+const jsonResponse = (body: unknown, status = 200) =>
+  ({
+    ok: status >= 200 && status < 300,
+    status,
+    json: async () => body,
+    text: async () => JSON.stringify(body),
+  }) as any;
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+describe('HashingEmbeddingProvider', () => {
+  const provider = new HashingEmbeddingProvider(128);
+
+  it('should return the same unit vector for the same text', async () => {
+    const [a, b] = await provider.embed(['Надёжный семейный седан', 'надежный семейный седан']);
+
+    expect(a).toHaveLength(128);
+    expect(a).toEqual(b);
+    expect(cosine(a, a)).toBeCloseTo(1);
+  });
+
+  it('should put texts sharing words and word forms closer', async () => {
+    const [query, close, far] = await provider.embed([
+      'надёжная машина для семьи',
+      'Надёжный и просторный автомобиль для большой семьи',
+      'Спортивное купе с мощным мотором',
+    ]);
+
+    expect(cosine(query, close)).toBeGreaterThan(cosine(query, far));
+  });
+});
+
+describe('HttpEmbeddingProvider', () => {
+  beforeEach(() => fetchMock.mockReset());
+
+  it('should post to /embeddings and order vectors by input index', async () => {
+    fetchMock.mockResolvedValueOnce(
+      jsonResponse({
+        data: [
+          { index: 1, embedding: [0, 1] },
+          { index: 0, embedding: [1, 0] },
+        ],
+      })
+    );
+    const provider = new HttpEmbeddingProvider({
+      apiUrl: 'https://embed.example/v1/',
+      apiKey: 'key',
+      model: 'text-embedding-3-small',
+    });
+
+    expect(await provider.embed(['a', 'b'])).toEqual([
+      [1, 0],
+      [0, 1],
+    ]);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://embed.example/v1/embeddings');
+    expect((init!.headers as Record<string, string>).Authorization).toBe('Bearer key');
+    expect(JSON.parse(init!.body as string)).toEqual({ model: 'text-embedding-3-small', input: ['a', 'b'] });
+  });
+
+  it('should raise EmbeddingProviderError on a non-OK status', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ error: 'rate limited' }, 429));
+    const provider = new HttpEmbeddingProvider({ apiUrl: 'https://embed.example/v1', apiKey: '', model: 'm' });
+
+    await expect(provider.embed(['a'])).rejects.toMatchObject({
+      name: 'EmbeddingProviderError',
+      status: 429,
+    });
+  });
+});
+
+describe('OllamaEmbeddingProvider', () => {
+  beforeEach(() => fetchMock.mockReset());
+
+  it('should read /api/embed embeddings and check their count', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ embeddings: [[0.5, 0.5]] }));
+    const provider = new OllamaEmbeddingProvider({ baseUrl: 'http://localhost:11434', model: 'bge-m3' });
+
+    expect(await provider.embed(['a'])).toEqual([[0.5, 0.5]]);
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/api/embed');
+
+    fetchMock.mockResolvedValueOnce(jsonResponse({ embeddings: [] }));
+    await expect(provider.embed(['a'])).rejects.toBeInstanceOf(EmbeddingProviderError);
+  });
+});
+
+describe('createEmbeddingProvider', () => {
+  it('should be off unless EMBEDDINGS_PROVIDER names a provider', () => {
+    expect(resolveEmbeddingProviderName({})).toBeNull();
+    expect(resolveEmbeddingProviderName({ EMBEDDINGS_PROVIDER: 'word2vec' })).toBeNull();
+    expect(createEmbeddingProvider({ EMBEDDINGS_PROVIDER: 'hashing', EMBEDDINGS_DIMENSIONS: '64' })?.model).toBe(
+      'fnv-64'
+    );
+    expect(createEmbeddingProvider({ EMBEDDINGS_PROVIDER: 'OLLAMA' })?.model).toBe('nomic-embed-text');
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { regenerateLastAnswer, editLastMessage, ChatEmitter } from './socket.handlers';
+import { dialogsService } from '@/modules/dialogs/dialogs.service';
+import { aiService } from '@/modules/ai/ai.service';
+import { conversationSummaryService } from '@/modules/ai/ai.summary';
+
+vi.mock('@/modules/dialogs/dialogs.service', () => ({
+  dialogsService: {
+    getOrCreateDialog: vi.fn().mockResolvedValue({ id: 'dialog-1' }),
+    getLastTurn: vi.fn(),
+    createMessage: vi.fn(),
+    supersedeMessages: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+vi.mock('@/modules/ai/ai.service', () => ({
+  aiService: { processMessageStream: vi.fn() },
+}));
+
+vi.mock('@/modules/users/users.service', () => ({
+  usersService: { getPreferences: vi.fn().mockResolvedValue({}) },
+}));
+
+vi.mock('@/modules/ai/ai.summary', () => ({
+  conversationSummaryService: {
+    getContext: vi.fn().mockResolvedValue({ summary: null, messages: [] }),
+  },
+}));
+
+vi.mock('@/modules/moderation/moderation.service', () => ({
+  moderationService: {
+    moderateUserInput: vi.fn().mockResolvedValue({ status: 'OK' }),
+    moderateAIResponse: vi.fn().mockResolvedValue({ status: 'OK' }),
+  },
+}));
+
+vi.mock('@/modules/tco/tco.service', () => ({
+  tcoService: { extractVINs: vi.fn().mockReturnValue([]) },
+}));
+
+const lastTurn = {
+  userMessage: {
+    id: 'user-msg',
+    role: 'USER',
+    content: 'Хочу кроссовер',
+    moderationStatus: 'OK',
+    preferencesBefore: { bodyType: ['Внедорожник'] },
+    createdAt: new Date(),
+  },
+  assistantMessages: [
+    {
+      id: 'answer-msg',
+      role: 'ASSISTANT',
+      content: 'Старый ответ',
+      moderationStatus: 'OK',
+      createdAt: new Date(),
+    },
+  ],
+};
+
+/**
+ * AI stream that yields text and finishes
+ */
+async function* answer(text: string) {
+  yield text;
+  return { assistantMessage: text, extractedPreferences: {} };
+}
+
+function collector() {
+  const events: Array<{ event: string; payload: any }> = [];
+  const emitter: ChatEmitter = {
+    emit: (event, payload) => events.push({ event, payload }) > 0,
+  };
+  return { emitter, events };
+}
+
+describe('regenerateLastAnswer', () => {
+  beforeEach(() => {
+    vi.mocked(dialogsService.createMessage).mockClear();
+    vi.mocked(dialogsService.supersedeMessages).mockClear();
+    vi.mocked(dialogsService.getLastTurn).mockResolvedValue(lastTurn as any);
+  });
+
+  it('should replace the last answer with a new version', async () => {
+    vi.mocked(aiService.processMessageStream).mockReturnValue(answer('Новый ответ') as any);
+    const { emitter, events } = collector();
+
+    await regenerateLastAnswer(emitter, 'user-1');
+
+    expect(events.find((e) => e.event === 'chat:assistant_done')?.payload.finalText).toBe(
+      'Новый ответ'
+    );
+    expect(conversationSummaryService.getContext).toHaveBeenCalledWith('user-1', 'dialog-1', [
+      'user-msg',
+      'answer-msg',
+    ]);
+    expect(vi.mocked(aiService.processMessageStream).mock.calls[0][0]).toMatchObject({
+      userMessage: 'Хочу кроссовер',
+      savedPreferences: { bodyType: ['Внедорожник'] },
+    });
+    expect(dialogsService.createMessage).toHaveBeenCalledWith(
+      'dialog-1',
+      'ASSISTANT',
+      'Новый ответ',
+      'OK',
+      undefined,
+      { previousVersionId: 'answer-msg' }
+    );
+    expect(dialogsService.supersedeMessages).toHaveBeenCalledWith(['answer-msg']);
+  });
+
+  it('should send the recommended cars and save them with the answer', async () => {
+    const cars = [
+      {
+        variantId: '22222222-2222-4222-8222-222222222222',
+        brand: 'Toyota',
+        model: 'RAV4',
+        variant: '2.0 CVT',
+        yearFrom: 2019,
+        yearTo: null,
+        bodyType: 'Внедорожник 5 дв.',
+        powerText: '149 л.с.',
+        kppText: 'CVT',
+      },
+    ];
+    async function* withCars() {
+      yield 'Берите Toyota RAV4';
+      return { assistantMessage: 'Берите Toyota RAV4', extractedPreferences: {}, cars };
+    }
+    vi.mocked(aiService.processMessageStream).mockReturnValue(withCars() as any);
+    const { emitter, events } = collector();
+
+    await regenerateLastAnswer(emitter, 'user-1');
+
+    expect(events.find((e) => e.event === 'chat:assistant_done')?.payload.cars).toEqual(cars);
+    expect(vi.mocked(dialogsService.createMessage).mock.calls.at(-1)![5]).toEqual({
+      previousVersionId: 'answer-msg',
+      cars,
+    });
+  });
+
+  it('should emit chat:language_changed when the user switched language', async () => {
+    async function* switched() {
+      yield 'Here you go';
+      return { assistantMessage: 'Here you go', extractedPreferences: {}, languageChanged: 'EN' };
+    }
+    vi.mocked(aiService.processMessageStream).mockReturnValue(switched() as any);
+    const { emitter, events } = collector();
+
+    await regenerateLastAnswer(emitter, 'user-1');
+
+    expect(events.find((e) => e.event === 'chat:language_changed')?.payload).toEqual({
+      language: 'EN',
+    });
+  });
+
+  it('should keep the old answer if generation fails', async () => {
+    vi.mocked(aiService.processMessageStream).mockImplementation(() => {
+      throw new Error('LLM down');
+    });
+    const { emitter, events } = collector();
+
+    await regenerateLastAnswer(emitter, 'user-1');
+
+    expect(events.find((e) => e.event === 'chat:error')?.payload.code).toBe('AI_ERROR');
+    expect(dialogsService.supersedeMessages).not.toHaveBeenCalled();
+  });
+
+  it('should reject when there is nothing to regenerate', async () => {
+    vi.mocked(dialogsService.getLastTurn).mockResolvedValue(null);
+    const { emitter, events } = collector();
+
+    await regenerateLastAnswer(emitter, 'user-1');
+
+    expect(events).toEqual([
+      { event: 'chat:error', payload: expect.objectContaining({ code: 'BAD_REQUEST' }) },
+    ]);
+  });
+});
+
+describe('editLastMessage', () => {
+  beforeEach(() => {
+    vi.mocked(dialogsService.createMessage).mockReset();
+    vi.mocked(dialogsService.supersedeMessages).mockClear();
+    vi.mocked(dialogsService.getLastTurn).mockResolvedValue(lastTurn as any);
+  });
+
+  it('should save the edited message and supersede the old turn', async () => {
+    vi.mocked(dialogsService.createMessage).mockResolvedValueOnce({ id: 'edited-msg' } as any);
+    vi.mocked(aiService.processMessageStream).mockReturnValue(answer('Ответ на правку') as any);
+    const { emitter } = collector();
+
+    await editLastMessage(emitter, 'user-1', { text: 'Хочу седан' });
+
+    expect(dialogsService.createMessage).toHaveBeenNthCalledWith(
+      1,
+      'dialog-1',
+      'USER',
+      'Хочу седан',
+      'OK',
+      undefined,
+      { previousVersionId: 'user-msg', preferencesBefore: { bodyType: ['Внедорожник'] } }
+    );
+    expect(dialogsService.supersedeMessages).toHaveBeenCalledWith(['user-msg', 'answer-msg']);
+    expect(conversationSummaryService.getContext).toHaveBeenLastCalledWith('user-1', 'dialog-1', [
+      'edited-msg',
+      'user-msg',
+      'answer-msg',
+    ]);
+    expect(vi.mocked(dialogsService.createMessage).mock.calls[1][5]).toEqual({
+      previousVersionId: 'answer-msg',
+    });
+  });
+
+  it('should answer the edit on top of the preferences the old message started from', async () => {
+    vi.mocked(aiService.processMessageStream).mockClear();
+    vi.mocked(dialogsService.createMessage).mockResolvedValueOnce({ id: 'edited-msg' } as any);
+    vi.mocked(aiService.processMessageStream).mockReturnValue(answer('Ответ на правку') as any);
+    const { emitter } = collector();
+
+    await editLastMessage(emitter, 'user-1', { text: 'Не хочу хонду' });
+
+    expect(vi.mocked(aiService.processMessageStream).mock.calls[0][0]).toMatchObject({
+      userMessage: 'Не хочу хонду',
+      savedPreferences: { bodyType: ['Внедорожник'] },
+    });
+  });
+
+  it('should revert the edit and keep the old turn if generation fails', async () => {
+    vi.mocked(dialogsService.createMessage).mockResolvedValueOnce({ id: 'edited-msg' } as any);
+    vi.mocked(aiService.processMessageStream).mockImplementation(() => {
+      throw new Error('LLM down');
+    });
+    const { emitter, events } = collector();
+
+    await editLastMessage(emitter, 'user-1', { text: 'Хочу седан' });
+
+    expect(events.find((e) => e.event === 'chat:error')?.payload.code).toBe('AI_ERROR');
+    expect(dialogsService.supersedeMessages).toHaveBeenCalledTimes(1);
+    expect(dialogsService.supersedeMessages).toHaveBeenCalledWith(['edited-msg']);
+  });
+
+  it('should validate the new text', async () => {
+    const { emitter, events } = collector();
+
+    await editLastMessage(emitter, 'user-1', { text: '' });
+
+    expect(events[0].payload.code).toBe('BAD_REQUEST');
+    expect(dialogsService.createMessage).not.toHaveBeenCalled();
+  });
+});
@@ -1,17 +1,41 @@
 import { Socket } from 'socket.io';
 import {
   ChatUserMessagePayload,
+  ChatEditLastPayload,
+  ChatCancelPayload,
   ChatAssistantStartPayload,
   ChatAssistantDeltaPayload,
   ChatAssistantDonePayload,
+  ChatAssistantCancelledPayload,
+  ChatLanguageChangedPayload,
+  ChatTcoResultPayload,
   ChatErrorPayload,
   SocketData,
 } from './socket.types';
 import { logger } from '@/shared/utils/logger';
 import { dialogsService } from '@/modules/dialogs/dialogs.service';
+import { usersService } from '@/modules/users/users.service';
 import { aiService } from '@/modules/ai/ai.service';
+import { loadPreferences } from '@/modules/ai/ai.preferences';
+import type { UserPreferences } from '@/modules/ai/ai.types';
+import { conversationSummaryService } from '@/modules/ai/ai.summary';
 import { moderationService } from '@/modules/moderation/moderation.service';
-import { BadRequestError } from '@/shared/utils/errors';
+import { tcoService } from '@/modules/tco/tco.service';
+import type { TCOResponse } from '@/modules/tco/tco.types';
+import { BadRequestError, ConflictError } from '@/shared/utils/errors';
+
+// Max VINs processed per message (each one is a provider call)
+const MAX_VINS_PER_MESSAGE = 2;
+
+// In-flight assistant responses: messageId -> owner + abort controller (for chat:cancel)
+const activeResponses = new Map<string, { userId: string; controller: AbortController }>();
+
+/**
+ * Event sink for the chat pipeline: a socket, or a collector for REST equivalents
+ */
+export interface ChatEmitter {
+  emit(event: string, payload: unknown): boolean;
+}
 
 /**
  * Register socket event handlers
@@ -26,6 +50,21 @@ export const registerSocketHandlers = (socket: Socket) => {
     await handleUserMessage(socket, userId, payload);
   });
 
+  // Handle regenerate of the last assistant answer
+  socket.on('chat:regenerate', async () => {
+    await regenerateLastAnswer(socket, userId);
+  });
+
+  // Handle edit of the last user message
+  socket.on('chat:edit_last', async (payload: ChatEditLastPayload) => {
+    await editLastMessage(socket, userId, payload);
+  });
+
+  // Handle cancel of an in-flight assistant response
+  socket.on('chat:cancel', (payload: ChatCancelPayload) => {
+    handleCancel(userId, payload);
+  });
+
   // Handle disconnect
   socket.on('disconnect', () => {
     logger.info({ socketId: socket.id, userId }, 'Socket disconnected');
@@ -43,20 +82,14 @@ async function handleUserMessage(
   const startTime = Date.now();
 
   try {
+    // Validate payload
+    validateMessageText(payload?.text);
+
     logger.info(
       { userId, textLength: payload.text.length },
       'Processing user message'
     );
 
-    // Validate payload
-    if (!payload.text || typeof payload.text !== 'string') {
-      throw new BadRequestError('Message text is required');
-    }
-
-    if (payload.text.length > 5000) {
-      throw new BadRequestError('Message text is too long (max 5000 characters)');
-    }
-
     // Get or create dialog based on userId from JWT token
     // dialogId is determined server-side, client cannot override it
     const dialog = await dialogsService.getOrCreateDialog(userId);
@@ -93,12 +126,14 @@ async function handleUserMessage(
       return;
     }
 
-    // Save user message to database
+    // Save user message to database (with the preferences it starts from, for edit / regenerate)
     const userMessage = await dialogsService.createMessage(
       dialog.id,
       'USER',
       payload.text,
-      'OK'
+      'OK',
+      undefined,
+      { preferencesBefore: await usersService.getPreferences(userId) }
     );
 
     logger.info(
@@ -106,60 +141,335 @@ async function handleUserMessage(
       'User message saved'
     );
 
-    // Get message history
-    const messageHistory = await dialogsService.getMessages(dialog.id, 20);
+    // Detect VINs and send TCO cards before the assistant answer
+    const tcoResults = await processVINs(socket, userId, payload.text);
+
+    // Get latest messages + rolling summary of older ones (current message excluded)
+    const context = await conversationSummaryService.getContext(userId, dialog.id, [
+      userMessage.id,
+    ]);
 
     // Process message with AI and stream response
     await processAIResponse(socket, {
       userId,
       dialogId: dialog.id,
       userMessage: payload.text,
-      messageHistory: messageHistory.map(({role, content}) => ({
-        role: role,
-        content: content,
-      })),
+      messageHistory: context.messages,
+      conversationSummary: context.summary,
+      tcoResults,
     });
 
     const duration = Date.now() - startTime;
     logger.info({ userId, messageId: userMessage.id, duration }, 'Message processed');
   } catch (error) {
     logger.error({ error, userId, payload }, 'Error handling user message');
+    emitChatError(socket, error);
+  }
+}
+
+/**
+ * Regenerate the last assistant answer for the same user message
+ * (chat:regenerate, POST /dialogs/me/regenerate).
+ * The old answer is superseded only once the new one is saved.
+ */
+export async function regenerateLastAnswer(emitter: ChatEmitter, userId: string): Promise<void> {
+  try {
+    const { dialogId, userMessage, assistantMessages } = await getLastTurnForUpdate(userId);
+
+    if (userMessage.moderationStatus === 'BLOCKED') {
+      throw new BadRequestError('Last message was blocked by moderation, edit it instead');
+    }
+
+    // Counts against the rate limit like a new message
+    if (!(await passesPreModeration(emitter, userId, dialogId, userMessage.content))) {
+      return;
+    }
+
+    const previousAnswerIds = assistantMessages.map((message) => message.id);
+    const savedPreferences = preferencesSnapshot(userMessage.preferencesBefore);
+
+    // TCO cards for this message are already on the client
+    const tcoResults = await processVINs(emitter, userId, userMessage.content, false);
+
+    const context = await conversationSummaryService.getContext(userId, dialogId, [
+      userMessage.id,
+      ...previousAnswerIds,
+    ]);
+
+    const saved = await processAIResponse(emitter, {
+      userId,
+      dialogId,
+      userMessage: userMessage.content,
+      messageHistory: context.messages,
+      conversationSummary: context.summary,
+      tcoResults,
+      savedPreferences,
+      previousVersionId: previousAnswerIds[previousAnswerIds.length - 1],
+    });
+
+    if (saved) {
+      await dialogsService.supersedeMessages(previousAnswerIds);
+    }
+
+    logger.info({ userId, dialogId, regenerated: saved }, 'Last answer regenerated');
+  } catch (error) {
+    logger.error({ error, userId }, 'Error regenerating last answer');
+    emitChatError(emitter, error);
+  }
+}
+
+/**
+ * Replace the last user message and answer it again
+ * (chat:edit_last, POST /dialogs/me/edit-last).
+ * The old user message and its answer are superseded only once the new answer is saved.
+ */
+export async function editLastMessage(
+  emitter: ChatEmitter,
+  userId: string,
+  payload: ChatEditLastPayload
+): Promise<void> {
+  try {
+    validateMessageText(payload?.text);
+
+    const { dialogId, userMessage, assistantMessages } = await getLastTurnForUpdate(userId);
+
+    if (!(await passesPreModeration(emitter, userId, dialogId, payload.text))) {
+      return;
+    }
+
+    const previousAnswerIds = assistantMessages.map((message) => message.id);
+    const savedPreferences = preferencesSnapshot(userMessage.preferencesBefore);
+
+    const editedMessage = await dialogsService.createMessage(
+      dialogId,
+      'USER',
+      payload.text,
+      'OK',
+      undefined,
+      { previousVersionId: userMessage.id, preferencesBefore: savedPreferences }
+    );
+
+    let saved = false;
+    try {
+      const tcoResults = await processVINs(emitter, userId, payload.text);
+
+      // The old turn is still current until the edit is answered
+      const context = await conversationSummaryService.getContext(userId, dialogId, [
+        editedMessage.id,
+        userMessage.id,
+        ...previousAnswerIds,
+      ]);
+
+      saved = await processAIResponse(emitter, {
+        userId,
+        dialogId,
+        userMessage: payload.text,
+        messageHistory: context.messages,
+        conversationSummary: context.summary,
+        tcoResults,
+        savedPreferences,
+        previousVersionId: previousAnswerIds[previousAnswerIds.length - 1],
+      });
+    } finally {
+      // No answer (failed, cancelled before any text): revert the edit, keep the old turn
+      await dialogsService.supersedeMessages(
+        saved ? [userMessage.id, ...previousAnswerIds] : [editedMessage.id]
+      );
+    }
+
+    logger.info(
+      { userId, dialogId, messageId: editedMessage.id, previousVersionId: userMessage.id, saved },
+      'Last user message edited'
+    );
+  } catch (error) {
+    logger.error({ error, userId }, 'Error editing last message');
+    emitChatError(emitter, error);
+  }
+}
+
+/**
+ * Validate user message text (chat:user_message, chat:edit_last)
+ */
+function validateMessageText(text: unknown): asserts text is string {
+  if (!text || typeof text !== 'string') {
+    throw new BadRequestError('Message text is required');
+  }
+
+  if (text.length > 5000) {
+    throw new BadRequestError('Message text is too long (max 5000 characters)');
+  }
+}
+
+/**
+ * Preferences the replaced turn started from: regenerate/edit re-run it on top of them,
+ * so what the old message added doesn't stick (undefined for messages saved without one)
+ */
+function preferencesSnapshot(raw: unknown): UserPreferences | undefined {
+  return raw ? loadPreferences(raw) : undefined;
+}
 
+/**
+ * Load the last turn for regenerate/edit; rejects while an answer is streaming
+ */
+async function getLastTurnForUpdate(userId: string) {
+  for (const active of activeResponses.values()) {
+    if (active.userId === userId) {
+      throw new ConflictError('Assistant response is still in progress');
+    }
+  }
+
+  const dialog = await dialogsService.getOrCreateDialog(userId);
+  const lastTurn = await dialogsService.getLastTurn(dialog.id);
+
+  if (!lastTurn) {
+    throw new BadRequestError('No message to regenerate or edit');
+  }
+
+  return { dialogId: dialog.id, ...lastTurn };
+}
+
+/**
+ * Pre-moderation for regenerate/edit: emits MODERATION_BLOCKED and returns false if blocked.
+ * Unlike new messages, blocked text is not saved (history stays unchanged).
+ */
+async function passesPreModeration(
+  emitter: ChatEmitter,
+  userId: string,
+  dialogId: string,
+  content: string
+): Promise<boolean> {
+  const moderationResult = await moderationService.moderateUserInput({
+    userId,
+    dialogId,
+    content,
+    kind: 'PRE_MODERATION',
+  });
+
+  if (moderationResult.status === 'BLOCKED') {
     const errorPayload: ChatErrorPayload = {
-      code: error instanceof BadRequestError ? 'BAD_REQUEST' : 'INTERNAL_ERROR',
-      message: error instanceof Error ? error.message : 'An error occurred',
+      code: 'MODERATION_BLOCKED',
+      message: moderationResult.reason || 'Message blocked by moderation',
     };
+    emitter.emit('chat:error', errorPayload);
+    return false;
+  }
+
+  return true;
+}
 
-    socket.emit('chat:error', errorPayload);
+/**
+ * Emit chat:error for a failed handler
+ */
+function emitChatError(emitter: ChatEmitter, error: unknown): void {
+  const errorPayload: ChatErrorPayload = {
+    code:
+      error instanceof BadRequestError
+        ? 'BAD_REQUEST'
+        : error instanceof ConflictError
+          ? 'CONFLICT'
+          : 'INTERNAL_ERROR',
+    message: error instanceof Error ? error.message : 'An error occurred',
+  };
+
+  emitter.emit('chat:error', errorPayload);
+}
+
+/**
+ * Handle cancel event: abort the upstream LLM request of the given response.
+ * Unknown ids (already finished or another user's) are ignored.
+ */
+function handleCancel(userId: string, payload: ChatCancelPayload): void {
+  const active = payload?.messageId ? activeResponses.get(payload.messageId) : undefined;
+
+  if (!active || active.userId !== userId) {
+    logger.debug({ userId, messageId: payload?.messageId }, 'Nothing to cancel');
+    return;
   }
+
+  active.controller.abort();
+  logger.info({ userId, messageId: payload.messageId }, 'Assistant response cancel requested');
+}
+
+/**
+ * Detect VINs in user message, decode them and calculate TCO.
+ * Emits chat:tco_result per VIN (unless emitCards is false); returns TCO results for the LLM context.
+ * Failures are logged and never block the chat answer.
+ */
+async function processVINs(
+  emitter: ChatEmitter,
+  userId: string,
+  text: string,
+  emitCards = true
+): Promise<TCOResponse[]> {
+  const vins = tcoService.extractVINs(text).slice(0, MAX_VINS_PER_MESSAGE);
+  const results: TCOResponse[] = [];
+
+  for (const vin of vins) {
+    try {
+      const vehicle = await tcoService.decodeVIN(vin);
+      if (!vehicle.isValid) {
+        continue;
+      }
+
+      const tco = await tcoService.calculateTCO(vin);
+
+      if (emitCards) {
+        const tcoPayload: ChatTcoResultPayload = { vin, vehicle, tco };
+        emitter.emit('chat:tco_result', tcoPayload);
+      }
+
+      if (tco) {
+        results.push(tco);
+      }
+
+      logger.info({ userId, vin, hasTco: !!tco }, 'VIN detected in chat message');
+    } catch (error) {
+      logger.error({ error, userId, vin }, 'Failed to process VIN from chat message');
+    }
+  }
+
+  return results;
 }
 
 /**
  * Process AI response and stream to client
+ * @returns true if an assistant message was saved
  */
 async function processAIResponse(
-  socket: Socket,
+  emitter: ChatEmitter,
   request: {
     userId: string;
     dialogId: string;
     userMessage: string;
     messageHistory: Array<{ role: 'USER' | 'ASSISTANT' | 'SYSTEM'; content: string }>;
+    conversationSummary?: string | null;
+    tcoResults?: TCOResponse[];
+    savedPreferences?: UserPreferences; // Snapshot of the replaced turn (regenerate / edit last)
+    previousVersionId?: string; // Answer being replaced (regenerate / edit last)
   }
-): Promise<void> {
+): Promise<boolean> {
+  const { previousVersionId, ...aiRequest } = request;
   // Generate message ID
   const assistantMessageId = `msg_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
 
+  const controller = new AbortController();
+  activeResponses.set(assistantMessageId, { userId: request.userId, controller });
+
   // Emit start event
   const startPayload: ChatAssistantStartPayload = {
     messageId: assistantMessageId,
   };
-  socket.emit('chat:assistant_start', startPayload);
+  emitter.emit('chat:assistant_start', startPayload);
 
   try {
     // Stream AI response
-    const streamGenerator = aiService.processMessageStream(request);
+    const streamGenerator = aiService.processMessageStream({
+      ...aiRequest,
+      signal: controller.signal,
+    });
 
     let finalResult;
+    let streamedText = ''; // What the client has actually received
 
     // Process all chunks from the generator
     while (true) {
@@ -172,28 +482,61 @@ async function processAIResponse(
       }
 
       // value is a string chunk, emit it to client
+      streamedText += value;
       const deltaPayload: ChatAssistantDeltaPayload = {
         messageId: assistantMessageId,
         deltaText: value,
       };
-      socket.emit('chat:assistant_delta', deltaPayload);
+      emitter.emit('chat:assistant_delta', deltaPayload);
     }
 
     if (!finalResult) {
       throw new Error('No result from AI service');
     }
 
-    // Remove [PREFERENCES] block from message before moderation
-    const cleanMessage = finalResult.assistantMessage.replace(
-      /\[PREFERENCES\][\s\S]*?\[\/PREFERENCES\]/,
-      ''
-    ).trim();
+    // The user now writes in another language: let the frontend follow
+    if (finalResult.languageChanged) {
+      const languagePayload: ChatLanguageChangedPayload = {
+        language: finalResult.languageChanged,
+      };
+      emitter.emit('chat:language_changed', languagePayload);
+    }
+
+    // Cancelled by the user: keep the partial text the client already shows
+    if (finalResult.cancelled) {
+      const partialText = streamedText.trim();
+
+      if (partialText) {
+        await dialogsService.createMessage(
+          request.dialogId,
+          'ASSISTANT',
+          partialText,
+          'OK',
+          undefined,
+          { status: 'CANCELLED', previousVersionId }
+        );
+      }
+
+      const cancelledPayload: ChatAssistantCancelledPayload = {
+        messageId: assistantMessageId,
+        partialText,
+      };
+      emitter.emit('chat:assistant_cancelled', cancelledPayload);
+
+      logger.info(
+        { userId: request.userId, dialogId: request.dialogId, messageId: assistantMessageId },
+        'AI response cancelled'
+      );
+      return !!partialText;
+    }
+
+    const finalText = finalResult.assistantMessage.trim();
 
     // Post-moderation check for AI response
     const postModerationResult = await moderationService.moderateAIResponse({
       userId: request.userId,
       dialogId: request.dialogId,
-      content: cleanMessage,
+      content: finalText,
       kind: 'POST_MODERATION',
     });
 
@@ -207,9 +550,10 @@ async function processAIResponse(
       await dialogsService.createMessage(
         request.dialogId,
         'ASSISTANT',
-        cleanMessage,
+        finalText,
         'BLOCKED',
-        postModerationResult.reason
+        postModerationResult.reason,
+        { previousVersionId }
       );
 
       // Send fallback message to client
@@ -220,33 +564,40 @@ async function processAIResponse(
         finalText: fallbackMessage,
         extractedPreferencesJson: finalResult.extractedPreferences,
       };
-      socket.emit('chat:assistant_done', donePayload);
+      emitter.emit('chat:assistant_done', donePayload);
 
       // Save fallback message
       await dialogsService.createMessage(
         request.dialogId,
         'ASSISTANT',
         fallbackMessage,
-        'OK'
+        'OK',
+        undefined,
+        { previousVersionId }
       );
 
-      return;
+      return true;
     }
 
-    // Emit done event with clean text (no [PREFERENCES] block)
+    // Emit done event with the final text (differs from the streamed one after a grounding rewrite)
     const donePayload: ChatAssistantDonePayload = {
       messageId: assistantMessageId,
-      finalText: cleanMessage,
+      finalText: finalText,
       extractedPreferencesJson: finalResult.extractedPreferences,
+      ...(finalResult.regenerated && { regenerated: true }),
+      suggestions: finalResult.suggestions,
+      cars: finalResult.cars,
     };
-    socket.emit('chat:assistant_done', donePayload);
+    emitter.emit('chat:assistant_done', donePayload);
 
     // Save assistant message to database
     await dialogsService.createMessage(
       request.dialogId,
       'ASSISTANT',
-      cleanMessage,
-      'OK'
+      finalText,
+      'OK',
+      undefined,
+      { previousVersionId, cars: finalResult.cars }
     );
 
     logger.info(
@@ -258,6 +609,8 @@ async function processAIResponse(
       },
       'AI response processed successfully'
     );
+
+    return true;
   } catch (error) {
     logger.error({ error, userId: request.userId }, 'AI processing error');
 
@@ -265,6 +618,9 @@ async function processAIResponse(
       code: 'AI_ERROR',
       message: error instanceof Error ? error.message : 'Failed to process AI response',
     };
-    socket.emit('chat:error', errorPayload);
+    emitter.emit('chat:error', errorPayload);
+    return false;
+  } finally {
+    activeResponses.delete(assistantMessageId);
   }
 }
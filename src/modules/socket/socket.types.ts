@@ -2,6 +2,9 @@
  * Socket.io event types and payloads
  */
 
+import type { VINDecodeResult, TCOResponse } from '@/modules/tco/tco.types';
+import type { RecommendedCar } from '@/modules/ai/ai.types';
+
 // ============================================
 // CLIENT -> SERVER EVENTS
 // ============================================
@@ -10,6 +13,14 @@ export interface ChatUserMessagePayload {
   text: string;
 }
 
+export interface ChatEditLastPayload {
+  text: string; // Replaces the last user message
+}
+
+export interface ChatCancelPayload {
+  messageId: string; // From chat:assistant_start
+}
+
 // ============================================
 // SERVER -> CLIENT EVENTS
 // ============================================
@@ -27,6 +38,24 @@ export interface ChatAssistantDonePayload {
   messageId: string;
   finalText: string;
   extractedPreferencesJson?: Record<string, any>;
+  regenerated?: boolean; // finalText is a corrected answer: replace the streamed text with it
+  suggestions?: string[]; // 2-4 quick replies; a selected one is sent as chat:user_message
+  cars?: RecommendedCar[]; // Variants the answer recommends (also saved with the message)
+}
+
+export interface ChatAssistantCancelledPayload {
+  messageId: string;
+  partialText: string; // Text streamed before the cancel (saved with CANCELLED status)
+}
+
+export interface ChatLanguageChangedPayload {
+  language: 'RU' | 'EN'; // New User.language: the user consistently writes in it
+}
+
+export interface ChatTcoResultPayload {
+  vin: string;
+  vehicle: VINDecodeResult;
+  tco: TCOResponse | null; // null if TCO could not be calculated
 }
 
 export interface ChatErrorPayload {
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { TCOService } from './tco.service';
+
+const service = new TCOService();
+
+describe('TCOService', () => {
+  describe('extractVINs', () => {
+    it('should find a VIN inside a chat message', () => {
+      expect(service.extractVINs('Посчитай стоимость владения для WBA3A5C51CF256985 пожалуйста')).toEqual([
+        'WBA3A5C51CF256985',
+      ]);
+    });
+
+    it('should normalize case and deduplicate', () => {
+      expect(service.extractVINs('vin: jtdkb20u093123456, JTDKB20U093123456')).toEqual([
+        'JTDKB20U093123456',
+      ]);
+    });
+
+    it('should find several VINs', () => {
+      expect(service.extractVINs('1HGCM82633A004352 или 5YJ3E1EA7KF317000')).toEqual([
+        '1HGCM82633A004352',
+        '5YJ3E1EA7KF317000',
+      ]);
+    });
+
+    it('should ignore strings with I, O, Q or wrong length', () => {
+      expect(service.extractVINs('WBA3A5C51CF25698')).toEqual([]);
+      expect(service.extractVINs('WBA3A5C51CF2569855')).toEqual([]);
+      expect(service.extractVINs('WBO3A5C51CF256985')).toEqual([]);
+    });
+
+    it('should ignore pure numbers and pure words', () => {
+      expect(service.extractVINs('телефон 12345678901234567')).toEqual([]);
+      expect(service.extractVINs('ABCDEFGHJKLMNPRST')).toEqual([]);
+    });
+  });
+});
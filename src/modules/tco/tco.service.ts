@@ -13,6 +13,16 @@ export class TCOService {
     return this.VIN_REGEX.test(vin);
   }
 
+  /**
+   * Find VINs in free text (e.g. a chat message).
+   * A candidate must mix letters and digits to avoid matching plain words/numbers.
+   */
+  extractVINs(text: string): string[] {
+    const candidates = text.toUpperCase().match(/\b[A-HJ-NPR-Z0-9]{17}\b/g) || [];
+    const vins = candidates.filter((c) => /\d/.test(c) && /[A-Z]/.test(c));
+    return Array.from(new Set(vins));
+  }
+
   /**
    * Decode VIN (MOCK implementation for MVP)
    * In production, this would call auto.dev VIN decode API
@@ -1,7 +1,5 @@
 import { Request, Response, NextFunction } from 'express';
-import { UsersService } from './users.service';
-
-const usersService = new UsersService();
+import { usersService } from './users.service';
 
 export class UsersController {
   async getMe(req: Request, res: Response, next: NextFunction) {
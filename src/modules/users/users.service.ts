@@ -1,5 +1,7 @@
 import { prisma } from '@/shared/utils/prisma';
 import { NotFoundError } from '@/shared/utils/errors';
+import { loadPreferences } from '@/modules/ai/ai.preferences';
+import type { UserPreferences } from '@/modules/ai/ai.types';
 
 export class UsersService {
   async getMe(userId: string) {
@@ -24,6 +26,18 @@ export class UsersService {
     return user;
   }
 
+  /**
+   * Saved search preferences ({} when none)
+   */
+  async getPreferences(userId: string): Promise<UserPreferences> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { preferences: true },
+    });
+
+    return loadPreferences(user?.preferences);
+  }
+
   async updatePreferences(userId: string, preferences: any) {
     const user = await prisma.user.update({
       where: { id: userId },
@@ -44,3 +58,6 @@ export class UsersService {
     return user;
   }
 }
+
+// Export singleton instance
+export const usersService = new UsersService();
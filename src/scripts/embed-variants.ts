@@ -0,0 +1,70 @@
+/**
+ * Embed variant descriptions for semantic search (EMBEDDINGS_PROVIDER must be set)
+ * Only new and changed descriptions are embedded, so it is safe to re-run after
+ * every import or description update.
+ * Usage: npm run embed:variants -- [--all] [--batch 50]
+ */
+
+import { prisma } from '../shared/utils/prisma';
+import { embeddingsService } from '../modules/embeddings/embeddings.service';
+
+const BATCH_SIZE = 50; // Default texts per provider request
+
+async function main() {
+  console.log('🚀 Variant Description Embeddings\n');
+
+  if (!embeddingsService.enabled) {
+    console.error('❌ No embedding provider configured. Set EMBEDDINGS_PROVIDER (ollama, http or hashing).');
+    process.exit(1);
+  }
+
+  const args = process.argv.slice(2);
+  const force = args.includes('--all');
+  const batchIndex = args.indexOf('--batch');
+  const batchSize = batchIndex >= 0 && args[batchIndex + 1]
+    ? parseInt(args[batchIndex + 1], 10)
+    : BATCH_SIZE;
+
+  if (isNaN(batchSize) || batchSize <= 0) {
+    console.error('❌ Invalid batch size');
+    process.exit(1);
+  }
+
+  console.log(`Model: ${embeddingsService.modelId}`);
+  console.log(`Mode: ${force ? 're-embed everything (--all)' : 'new and changed descriptions'}\n`);
+
+  const startTime = Date.now();
+
+  try {
+    const result = await embeddingsService.embedVariants({
+      force,
+      batchSize,
+      onProgress: (progress) => {
+        process.stdout.write(
+          `\r🔍 Checked: ${progress.checked} | ✅ Embedded: ${progress.embedded} | ❌ Failed: ${progress.failed}`
+        );
+      },
+    });
+
+    const duration = Math.floor((Date.now() - startTime) / 1000);
+    console.log('\n');
+    console.log('─'.repeat(80));
+    console.log(`✅ Done in ${duration}s`);
+    console.log(`   Checked: ${result.checked}`);
+    console.log(`   Embedded: ${result.embedded}`);
+    console.log(`   Failed: ${result.failed}`);
+    console.log(`   Cleared (description removed): ${result.cleared}`);
+    console.log('─'.repeat(80));
+
+    if (result.failed > 0) {
+      console.log('\n💡 Run again to retry the failed ones');
+    }
+  } catch (error) {
+    console.error('\n❌ Error:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch(console.error);
@@ -0,0 +1,30 @@
+/**
+ * Golden datasets, fixture catalogs and LLM recordings live in dataset/ next to this file
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import type { EvalDataset, FixtureCatalog } from './eval.types';
+
+export const DATASET_DIR = path.join(__dirname, 'dataset');
+
+function readJson<T>(file: string): T {
+  return JSON.parse(readFileSync(file, 'utf-8')) as T;
+}
+
+/**
+ * @param name - file name without .json, e.g. "golden.v1"
+ */
+export function loadDataset(name: string): { dataset: EvalDataset; catalog: FixtureCatalog } {
+  const dataset = readJson<EvalDataset>(path.join(DATASET_DIR, `${name}.json`));
+  const catalog = readJson<FixtureCatalog>(path.join(DATASET_DIR, dataset.catalog));
+  return { dataset, catalog };
+}
+
+export function recordingPath(name: string): string {
+  return path.join(DATASET_DIR, 'recordings', `${name}.json`);
+}
+
+export function loadRecording<T>(name: string): T {
+  return readJson<T>(recordingPath(name));
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCarVocabulary,
+  scoreHallucination,
+  scoreParser,
+  scoreRetrieval,
+} from './eval.metrics';
+import type { FixtureCatalog } from './eval.types';
+import type { SearchResultForContext } from '@/modules/ai/ai.types';
+import { findCarMentions } from '@/modules/ai/ai.grounding';
+
+const catalog: FixtureCatalog = {
+  version: 1,
+  brands: [
+    { name: 'Toyota', models: [{ name: 'Camry', variants: [] }, { name: 'RAV4', variants: [] }] },
+    { name: 'Mazda', models: [{ name: 'CX-5', variants: [] }] },
+  ],
+};
+const vocabulary = buildCarVocabulary(catalog);
+
+const result = (id: string, brand: string, model: string): SearchResultForContext => ({
+  id,
+  brand,
+  model,
+  variant: '2.0 AT',
+  description: null,
+  yearFrom: null,
+  yearTo: null,
+  powerText: null,
+  kppText: null,
+  bodyType: null,
+});
+
+describe('scoreParser', () => {
+  it('should count correct fields and report extra ones', () => {
+    const score = scoreParser(
+      { marka: ['Toyota', 'Mazda'], yearFrom: 2018 },
+      { marka: ['Mazda', 'Toyota'], yearFrom: 2017, kpp: ['AT'] }
+    );
+
+    expect(score.correctFields).toBe(1);
+    expect(score.expectedFields).toBe(2);
+    expect(score.extraFields).toEqual(['kpp']);
+    expect(score.exact).toBe(false);
+  });
+
+  it('should treat an empty expectation as "nothing parsed"', () => {
+    expect(scoreParser({}, {}).exact).toBe(true);
+    expect(scoreParser({}, { budget: 1 }).exact).toBe(false);
+  });
+});
+
+describe('scoreRetrieval', () => {
+  it('should report missing variants', () => {
+    const score = scoreRetrieval({ variants: ['a', 'b'] }, [result('a', 'Toyota', 'Camry')]);
+
+    expect(score.found).toEqual(['a']);
+    expect(score.missing).toEqual(['b']);
+    expect(score.passed).toBe(false);
+  });
+
+  it('should require empty results for noResults', () => {
+    expect(scoreRetrieval({ noResults: true }, []).passed).toBe(true);
+    expect(scoreRetrieval({ noResults: true }, [result('a', 'Toyota', 'Camry')]).passed).toBe(false);
+  });
+});
+
+describe('hallucination detection', () => {
+  it('should find catalog models and known brands, including Cyrillic aliases', () => {
+    expect(findCarMentions('Toyota RAV4 или мазда CX-5, а может Порше?', vocabulary)).toEqual([
+      'Mazda CX-5',
+      'Porsche',
+      'Toyota RAV4',
+    ]);
+    expect(findCarMentions('Посмотрите лексус', vocabulary)).toEqual(['Lexus']);
+  });
+
+  it('should not read ordinary words as brands', () => {
+    expect(findCarMentions('Нужен мини-кроссовер на газу', vocabulary)).toEqual([]);
+  });
+
+  it('should flag cars missing from results unless the user named them', () => {
+    const score = scoreHallucination(
+      'Ferrari нет, но есть Toyota Camry и Mazda CX-5',
+      'Есть Феррари?',
+      [result('a', 'Toyota', 'Camry')],
+      vocabulary
+    );
+
+    expect(score.mentions).toEqual(['Ferrari', 'Mazda CX-5', 'Toyota Camry']);
+    expect(score.ungrounded).toEqual(['Mazda CX-5']);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Evaluation metrics: parser accuracy, retrieval recall and hallucinated car mentions
+ */
+
+import type { SearchResultForContext, UserPreferences } from '@/modules/ai/ai.types';
+import {
+  buildCarVocabulary as buildVocabulary,
+  checkGrounding,
+  CarVocabulary,
+} from '@/modules/ai/ai.grounding';
+import type {
+  ConversationReport,
+  EvalSummary,
+  FixtureCatalog,
+  HallucinationScore,
+  ParserScore,
+  RetrievalScore,
+} from './eval.types';
+
+// ============================================
+// PARSER
+// ============================================
+
+// Lists compare as sets: ["Toyota", "Mazda"] and ["Mazda", "Toyota"] are the same preference
+function normalizeValue(value: unknown): string {
+  return JSON.stringify(Array.isArray(value) ? [...value].sort() : value);
+}
+
+export function scoreParser(expected: UserPreferences, actual: UserPreferences): ParserScore {
+  const expectedEntries = Object.entries(expected);
+  const correctFields = expectedEntries.filter(
+    ([field, value]) => normalizeValue(actual[field as keyof UserPreferences]) === normalizeValue(value)
+  ).length;
+  const extraFields = Object.keys(actual).filter((field) => !(field in expected));
+
+  return {
+    expected,
+    actual,
+    correctFields,
+    expectedFields: expectedEntries.length,
+    extraFields,
+    exact: correctFields === expectedEntries.length && extraFields.length === 0,
+  };
+}
+
+// ============================================
+// RETRIEVAL
+// ============================================
+
+/**
+ * Expected variants found in searchResults; with `noResults` the search must come back empty
+ */
+export function scoreRetrieval(
+  expected: { variants?: string[]; noResults?: boolean },
+  results: SearchResultForContext[]
+): RetrievalScore {
+  const resultIds = results.map((result) => result.id).filter((id): id is string => !!id);
+  const wanted = expected.variants || [];
+  const found = wanted.filter((id) => resultIds.includes(id));
+  const missing = wanted.filter((id) => !resultIds.includes(id));
+
+  return {
+    expected: wanted,
+    found,
+    missing,
+    resultIds,
+    passed: missing.length === 0 && (!expected.noResults || resultIds.length === 0),
+  };
+}
+
+// ============================================
+// HALLUCINATIONS
+// ============================================
+
+/**
+ * Car names the detector looks for: the fixture catalog plus every known brand alias
+ */
+export function buildCarVocabulary(catalog: FixtureCatalog): CarVocabulary {
+  return buildVocabulary(
+    catalog.brands.map((brand) => ({
+      name: brand.name,
+      models: brand.models.map((model) => model.name),
+    }))
+  );
+}
+
+/**
+ * Cars the answer names that the search didn't return (the same check the chat runs
+ * after every answer)
+ */
+export function scoreHallucination(
+  answer: string,
+  userMessage: string,
+  results: SearchResultForContext[],
+  vocabulary: CarVocabulary
+): HallucinationScore {
+  return checkGrounding(answer, results, [userMessage], vocabulary);
+}
+
+// ============================================
+// SUMMARY
+// ============================================
+
+// Rounded so that reports diff cleanly between runs
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 0 : Math.round((numerator / denominator) * 10_000) / 10_000;
+}
+
+export function summarize(conversations: ConversationReport[]): EvalSummary {
+  const turns = conversations.flatMap((conversation) => conversation.turns);
+  const parsed = turns.flatMap((turn) => (turn.parser ? [turn.parser] : []));
+  const retrieved = turns.flatMap((turn) => (turn.retrieval ? [turn.retrieval] : []));
+  const answered = turns.filter((turn) => turn.answer);
+
+  const sum = <T>(items: T[], value: (item: T) => number) =>
+    items.reduce((total, item) => total + value(item), 0);
+
+  return {
+    parser: {
+      turns: parsed.length,
+      fieldAccuracy: ratio(
+        sum(parsed, (score) => score.correctFields),
+        sum(parsed, (score) => score.expectedFields)
+      ),
+      exactMatchRate: ratio(parsed.filter((score) => score.exact).length, parsed.length),
+    },
+    retrieval: {
+      turns: retrieved.length,
+      recall: ratio(
+        sum(retrieved, (score) => score.found.length),
+        sum(retrieved, (score) => score.expected.length)
+      ),
+      passRate: ratio(retrieved.filter((score) => score.passed).length, retrieved.length),
+    },
+    hallucination: {
+      answers: answered.length,
+      ungroundedAnswers: answered.filter((turn) => turn.hallucination.ungrounded.length > 0).length,
+      rate: ratio(
+        answered.filter((turn) => turn.hallucination.ungrounded.length > 0).length,
+        answered.length
+      ),
+    },
+  };
+}
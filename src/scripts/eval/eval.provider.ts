@@ -0,0 +1,116 @@
+/**
+ * LLM providers for evaluation runs: scripted mock replies from the dataset,
+ * or replies recorded from a live model once and replayed afterwards
+ */
+
+import type { LLMChatRequest, LLMChatResult, LLMProvider } from '@/modules/ai/ai.types';
+import { MockLLMProvider } from '@/modules/ai/providers/mock.provider';
+import type { EvalTurn } from './eval.types';
+
+export interface EvalLLMProvider extends LLMProvider {
+  /**
+   * Called before each turn (key: "<conversation id>#<turn number>")
+   */
+  startTurn(key: string, turn: EvalTurn): void;
+}
+
+/**
+ * Reply that names the first car from the RAG context, or asks for details without one
+ * (the system prompt itself is skipped: its answer example has the same format)
+ */
+function groundedReply(request: LLMChatRequest): string {
+  const firstResult = request.messages
+    .slice(1)
+    .filter((message) => message.role === 'system')
+    .map((message) => message.content?.match(/^1\. (.+)\n\s+Вариант:/m)?.[1])
+    .find(Boolean);
+
+  return firstResult
+    ? `Из нашей базы могу предложить ${firstResult}.`
+    : 'Уточните, пожалуйста, марку, тип кузова и бюджет.';
+}
+
+/**
+ * Mock mode: the turn's scripted reply and extractor JSON ({} if not scripted)
+ */
+export class ScriptedEvalProvider implements EvalLLMProvider {
+  readonly name = 'mock';
+  readonly model = 'mock';
+
+  private turn: EvalTurn | null = null;
+  private mock = new MockLLMProvider([], { fallback: (request) => this.reply(request) });
+
+  startTurn(_key: string, turn: EvalTurn): void {
+    this.turn = turn;
+  }
+
+  streamChat(request: LLMChatRequest): AsyncGenerator<string, LLMChatResult, undefined> {
+    return this.mock.streamChat(request);
+  }
+
+  private reply(request: LLMChatRequest): string {
+    if (request.responseFormat === 'json') {
+      return JSON.stringify(this.turn?.llm?.preferences ?? {});
+    }
+    return this.turn?.llm?.reply ?? groundedReply(request);
+  }
+}
+
+/**
+ * Recorded LLM replies keyed by "<conversation id>#<turn>#<call>"
+ * (call 1 is the answer, call 2 the preference extraction)
+ */
+export interface LLMRecording {
+  dataset: string;
+  version: number;
+  model: string; // Model the replies were recorded from
+  calls: Record<string, { content: string }>;
+}
+
+/**
+ * Recorded mode: replays a recording; with a live provider, calls it and records the replies
+ */
+export class RecordedEvalProvider implements EvalLLMProvider {
+  readonly name: string;
+  readonly model: string;
+
+  private key = '';
+  private call = 0;
+
+  constructor(
+    readonly recording: LLMRecording,
+    private live?: LLMProvider
+  ) {
+    this.name = live ? live.name : 'recorded';
+    this.model = live ? live.model : recording.model;
+  }
+
+  startTurn(key: string): void {
+    this.key = key;
+    this.call = 0;
+  }
+
+  async *streamChat(request: LLMChatRequest): AsyncGenerator<string, LLMChatResult, undefined> {
+    const id = `${this.key}#${++this.call}`;
+
+    if (this.live) {
+      const stream = this.live.streamChat(request);
+      while (true) {
+        const { value, done } = await stream.next();
+        if (done) {
+          this.recording.calls[id] = { content: value.content };
+          return value;
+        }
+        yield value;
+      }
+    }
+
+    const recorded = this.recording.calls[id];
+    if (!recorded) {
+      throw new Error(`No recorded LLM reply for ${id} (run the evaluation with --record)`);
+    }
+
+    yield recorded.content;
+    return { content: recorded.content, finishReason: 'stop' };
+  }
+}
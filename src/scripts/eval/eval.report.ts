@@ -0,0 +1,86 @@
+/**
+ * Evaluation report output: JSON (stable, for diffing between commits) and a static HTML page
+ */
+
+import type { EvalReport, TurnReport } from './eval.types';
+
+export function renderJsonReport(report: EvalReport): string {
+  return JSON.stringify(report, null, 2) + '\n';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+function renderTurn(turn: TurnReport): string {
+  const parser = turn.parser
+    ? `${turn.parser.correctFields}/${turn.parser.expectedFields}` +
+      (turn.parser.extraFields.length ? ` (+${turn.parser.extraFields.join(', ')})` : '')
+    : '—';
+  const retrieval = turn.retrieval
+    ? turn.retrieval.passed
+      ? 'ok'
+      : `missing: ${turn.retrieval.missing.join(', ') || '—'}; got: ${turn.retrieval.resultIds.join(', ') || 'nothing'}`
+    : '—';
+  const ungrounded = turn.hallucination.ungrounded.join(', ') || '—';
+  const failed =
+    (turn.parser && !turn.parser.exact) ||
+    (turn.retrieval && !turn.retrieval.passed) ||
+    turn.hallucination.ungrounded.length > 0;
+
+  return `<tr class="${failed ? 'fail' : 'pass'}">
+  <td>${turn.turn}</td>
+  <td>${escapeHtml(turn.user)}</td>
+  <td>${escapeHtml(turn.answer)}</td>
+  <td>${escapeHtml(parser)}</td>
+  <td>${escapeHtml(retrieval)}</td>
+  <td>${escapeHtml(ungrounded)}</td>
+</tr>`;
+}
+
+export function renderHtmlReport(report: EvalReport): string {
+  const { parser, retrieval, hallucination } = report.summary;
+
+  const conversations = report.conversations
+    .map(
+      (conversation) => `<h2>${escapeHtml(conversation.id)}: ${escapeHtml(conversation.title)}</h2>
+<table>
+<tr><th>#</th><th>User</th><th>Answer</th><th>Parser</th><th>Retrieval</th><th>Ungrounded</th></tr>
+${conversation.turns.map(renderTurn).join('\n')}
+</table>`
+    )
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Evaluation: ${escapeHtml(report.dataset.name)} v${report.dataset.version}</title>
+<style>
+  body { font-family: sans-serif; margin: 2rem; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 2rem; }
+  th, td { border: 1px solid #ccc; padding: 0.4rem; text-align: left; vertical-align: top; }
+  tr.fail { background: #fde8e8; }
+</style>
+</head>
+<body>
+<h1>Evaluation: ${escapeHtml(report.dataset.name)} v${report.dataset.version} (catalog v${report.dataset.catalogVersion}, LLM: ${report.llm})</h1>
+<table>
+<tr><th>Metric</th><th>Value</th><th>Turns</th></tr>
+<tr><td>Parser field accuracy</td><td>${percent(parser.fieldAccuracy)}</td><td>${parser.turns}</td></tr>
+<tr><td>Parser exact match</td><td>${percent(parser.exactMatchRate)}</td><td>${parser.turns}</td></tr>
+<tr><td>Retrieval recall</td><td>${percent(retrieval.recall)}</td><td>${retrieval.turns}</td></tr>
+<tr><td>Retrieval pass rate</td><td>${percent(retrieval.passRate)}</td><td>${retrieval.turns}</td></tr>
+<tr><td>Hallucination rate</td><td>${percent(hallucination.rate)}</td><td>${hallucination.answers}</td></tr>
+</table>
+${conversations}
+</body>
+</html>
+`;
+}
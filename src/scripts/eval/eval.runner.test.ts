@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest';
+import * as prismaModule from '@/shared/utils/prisma';
+import { runEvaluation } from './eval.runner';
+import { ScriptedEvalProvider } from './eval.provider';
+import { loadDataset } from './eval.dataset';
+import type { FixtureDb } from './fixture-db';
+
+// The pipeline reads the fixture catalog through the Prisma singleton
+vi.mock('@/shared/utils/prisma', async () => {
+  const { FixtureDb } = await import('./fixture-db');
+  const { loadDataset } = await import('./eval.dataset');
+  const db = new FixtureDb(loadDataset('golden.v1').catalog);
+  return { prisma: db.createClient(), fixtureDb: db };
+});
+
+const db = (prismaModule as unknown as { fixtureDb: FixtureDb }).fixtureDb;
+
+describe('runEvaluation (golden.v1, mock LLM)', () => {
+  it('should replay every conversation and score it', async () => {
+    const { dataset, catalog } = loadDataset('golden.v1');
+
+    const report = await runEvaluation({
+      dataset,
+      catalog,
+      db,
+      provider: new ScriptedEvalProvider(),
+      llm: 'mock',
+    });
+
+    const turns = report.conversations.flatMap((conversation) => conversation.turns);
+    expect(turns).toHaveLength(
+      dataset.conversations.reduce((total, conversation) => total + conversation.turns.length, 0)
+    );
+    expect(report.summary.retrieval.recall).toBe(1);
+
+    // Known gaps the dataset documents: the rule parser doesn't extract models,
+    // two scripted answers recommend cars outside the search results
+    const inexact = report.conversations.flatMap((conversation) =>
+      conversation.turns.filter((turn) => turn.parser && !turn.parser.exact).map(() => conversation.id)
+    );
+    expect(inexact).toEqual(['ru-model']);
+    expect(turns.flatMap((turn) => turn.hallucination.ungrounded)).toEqual(['Porsche', 'Lexus']);
+  });
+
+  it('should carry preferences between turns of a conversation', async () => {
+    const { dataset, catalog } = loadDataset('golden.v1');
+    const memory = dataset.conversations.find((conversation) => conversation.id === 'ru-memory')!;
+
+    const report = await runEvaluation({
+      dataset: { ...dataset, conversations: [memory] },
+      catalog,
+      db,
+      provider: new ScriptedEvalProvider(),
+      llm: 'mock',
+    });
+
+    const [, second] = report.conversations[0].turns;
+    expect(second.retrieval?.resultIds).toEqual([
+      'kia-sportage-20-at-2018',
+      'kia-sportage-24-at-4wd-2018',
+    ]);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Replays golden conversations through the real chat pipeline (AIService) against
+ * the fixture catalog and scores every turn.
+ * Prisma must already point at the FixtureDb client when this module is loaded.
+ */
+
+import { AIService } from '@/modules/ai/ai.service';
+import type { MessageHistoryItem, UserPreferences } from '@/modules/ai/ai.types';
+import { detectMessageLanguage } from '@/modules/ai/language';
+import { parseMessageForPreferences } from '@/modules/ai/message-parser';
+import { parseEnglishMessageForPreferences } from '@/modules/ai/message-parser.en';
+import type { FixtureDb } from './fixture-db';
+import type { EvalLLMProvider } from './eval.provider';
+import {
+  buildCarVocabulary,
+  scoreHallucination,
+  scoreParser,
+  scoreRetrieval,
+  summarize,
+} from './eval.metrics';
+import type {
+  ConversationReport,
+  EvalDataset,
+  EvalLLMMode,
+  EvalReport,
+  FixtureCatalog,
+  TurnReport,
+} from './eval.types';
+
+export interface RunEvaluationOptions {
+  dataset: EvalDataset;
+  catalog: FixtureCatalog;
+  db: FixtureDb;
+  provider: EvalLLMProvider;
+  llm: EvalLLMMode;
+}
+
+export async function runEvaluation(options: RunEvaluationOptions): Promise<EvalReport> {
+  const { dataset, catalog, db, provider } = options;
+  const vocabulary = buildCarVocabulary(catalog);
+  const today = new Date(`${dataset.today}T12:00:00Z`);
+
+  // Tools would let recorded/live replies query the catalog in ways a replay can't reproduce
+  process.env.AI_TOOLS_ENABLED = 'false';
+  // Every conversation must reach the model: a cached answer from an earlier one would hide it
+  process.env.RESPONSE_CACHE_ENABLED = 'false';
+  const service = new AIService(provider);
+
+  const conversations: ConversationReport[] = [];
+
+  for (const conversation of dataset.conversations) {
+    const user = db.resetUser(conversation.language, conversation.preferences);
+    const history: MessageHistoryItem[] = [];
+    const turns: TurnReport[] = [];
+
+    for (const [index, turn] of conversation.turns.entries()) {
+      // Same parser choice as AIService makes for this message
+      const language = detectMessageLanguage(turn.user) ?? user.language;
+      const parse =
+        language === 'EN' ? parseEnglishMessageForPreferences : parseMessageForPreferences;
+
+      provider.startTurn(`${conversation.id}#${index + 1}`, turn);
+
+      const stream = service.processMessageStream({
+        userId: user.id,
+        dialogId: `eval-${conversation.id}`,
+        userMessage: turn.user,
+        messageHistory: [...history],
+      });
+      let result;
+      while (true) {
+        const { value, done } = await stream.next();
+        if (done) {
+          result = value;
+          break;
+        }
+      }
+
+      const expected = turn.expect || {};
+      turns.push({
+        turn: index + 1,
+        user: turn.user,
+        answer: result.assistantMessage,
+        ...(expected.preferences && {
+          parser: scoreParser(
+            expected.preferences,
+            parse(turn.user, today) as UserPreferences
+          ),
+        }),
+        ...((expected.variants || expected.noResults) && {
+          retrieval: scoreRetrieval(expected, result.searchResults || []),
+        }),
+        hallucination: scoreHallucination(
+          result.assistantMessage,
+          turn.user,
+          result.searchResults || [],
+          vocabulary
+        ),
+      });
+
+      history.push(
+        { role: 'USER', content: turn.user },
+        { role: 'ASSISTANT', content: result.assistantMessage }
+      );
+    }
+
+    conversations.push({ id: conversation.id, title: conversation.title, turns });
+  }
+
+  return {
+    dataset: { name: dataset.name, version: dataset.version, catalogVersion: catalog.version },
+    llm: options.llm,
+    summary: summarize(conversations),
+    conversations,
+  };
+}
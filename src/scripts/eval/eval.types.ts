@@ -0,0 +1,120 @@
+/**
+ * Offline evaluation types: golden dataset, fixture catalog and report
+ */
+
+import type { UserPreferences } from '@/modules/ai/ai.types';
+
+// ============================================
+// FIXTURE CATALOG
+// ============================================
+
+export interface FixtureVariant {
+  id: string;
+  name: string; // "2.5 AT (181 л.с.)": power and engine volume are parsed from it, as on import
+  bodyType: string | null;
+  yearFrom: number | null;
+  yearTo: number | null;
+  kppText: string | null;
+  description?: string | null;
+  complectations?: string[];
+}
+
+export interface FixtureCatalog {
+  version: number;
+  brands: Array<{
+    name: string;
+    code?: string;
+    models: Array<{ name: string; variants: FixtureVariant[] }>;
+  }>;
+}
+
+// ============================================
+// GOLDEN DATASET
+// ============================================
+
+export interface EvalTurn {
+  user: string;
+  // Scripted LLM output (mock mode): answer text and extractor JSON.
+  // Without a reply the mock names the first search result; without preferences it extracts {}
+  llm?: {
+    reply?: string;
+    preferences?: UserPreferences;
+  };
+  expect?: {
+    preferences?: UserPreferences; // Exact rule-based parser output for this message
+    variants?: string[]; // Variant IDs that must appear in searchResults
+    noResults?: boolean; // Search must return nothing (or not run)
+  };
+}
+
+export interface EvalConversation {
+  id: string;
+  title: string;
+  language?: 'RU' | 'EN'; // Saved User.language (default RU)
+  preferences?: UserPreferences; // Saved User.preferences before the first turn
+  turns: EvalTurn[];
+}
+
+export interface EvalDataset {
+  name: string;
+  version: number;
+  catalog: string; // Fixture catalog file in dataset/
+  today: string; // YYYY-MM-DD, date relative ages in expected parser output are resolved against
+  conversations: EvalConversation[];
+}
+
+// ============================================
+// REPORT
+// ============================================
+
+export type EvalLLMMode = 'mock' | 'recorded';
+
+export interface ParserScore {
+  expected: UserPreferences;
+  actual: UserPreferences;
+  correctFields: number;
+  expectedFields: number;
+  extraFields: string[]; // Parsed but not expected (false positives)
+  exact: boolean;
+}
+
+export interface RetrievalScore {
+  expected: string[];
+  found: string[];
+  missing: string[];
+  resultIds: string[];
+  passed: boolean;
+}
+
+export interface HallucinationScore {
+  mentions: string[]; // Cars named in the answer
+  ungrounded: string[]; // Named but neither found by the search nor said by the user
+}
+
+export interface TurnReport {
+  turn: number;
+  user: string;
+  answer: string;
+  parser?: ParserScore;
+  retrieval?: RetrievalScore;
+  hallucination: HallucinationScore;
+}
+
+export interface ConversationReport {
+  id: string;
+  title: string;
+  turns: TurnReport[];
+}
+
+export interface EvalSummary {
+  parser: { turns: number; fieldAccuracy: number; exactMatchRate: number };
+  retrieval: { turns: number; recall: number; passRate: number };
+  hallucination: { answers: number; ungroundedAnswers: number; rate: number };
+}
+
+export interface EvalReport {
+  dataset: { name: string; version: number; catalogVersion: number };
+  llm: EvalLLMMode;
+  summary: EvalSummary;
+  conversations: ConversationReport[];
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { FixtureDb, matchWhere } from './fixture-db';
+import type { FixtureCatalog } from './eval.types';
+
+const catalog: FixtureCatalog = {
+  version: 1,
+  brands: [
+    {
+      name: 'Toyota',
+      models: [
+        {
+          name: 'Camry',
+          variants: [
+            {
+              id: 'camry',
+              name: '2.5 AT (181 л.с.)',
+              bodyType: 'Седан',
+              yearFrom: 2018,
+              yearTo: null,
+              kppText: 'AT',
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'LADA',
+      code: 'VAZ',
+      models: [
+        {
+          name: 'Vesta',
+          variants: [
+            {
+              id: 'vesta',
+              name: '1.6 MT (106 л.с.)',
+              bodyType: null,
+              yearFrom: 2015,
+              yearTo: 2022,
+              kppText: 'MT',
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+describe('FixtureDb', () => {
+  const db = new FixtureDb(catalog);
+  const [camry, vesta] = db.variants;
+
+  it('should parse power and engine volume from variant names', () => {
+    expect(camry).toMatchObject({ powerHp: 181, powerText: '181 л.с.', engineVolume: 2.5 });
+    expect(camry.model.brand).toEqual({ name: 'Toyota', code: 'TOYOTA' });
+  });
+
+  it('should match relation and text filters', () => {
+    const where = { model: { brand: { OR: [{ code: { contains: 'vaz', mode: 'insensitive' } }] } } };
+    expect(matchWhere(vesta, where)).toBe(true);
+    expect(matchWhere(camry, where)).toBe(false);
+  });
+
+  it('should match numeric ranges and null alternatives', () => {
+    const where = {
+      powerHp: { gte: 150 },
+      AND: [{ OR: [{ yearTo: { gte: 2023 } }, { yearTo: null }] }],
+    };
+    expect(matchWhere(camry, where)).toBe(true);
+    expect(matchWhere(vesta, where)).toBe(false);
+  });
+
+  it('should treat NOT on a null column like SQL', () => {
+    const notSedan = { NOT: { bodyType: { contains: 'седан', mode: 'insensitive' } } };
+    expect(matchWhere(camry, notSedan)).toBe(false);
+    expect(matchWhere(vesta, { bodyType: { not: null } })).toBe(false);
+    expect(matchWhere(vesta, { OR: [{ bodyType: null }, notSedan] })).toBe(true);
+  });
+
+  it('should sort, page and track the fixture user', async () => {
+    const client = db.createClient();
+
+    const sorted = await client.carVariant.findMany({
+      orderBy: [{ model: { brand: { name: 'desc' } } }],
+      take: 1,
+    });
+    expect(sorted.map((row) => row.id)).toEqual(['camry']);
+
+    db.resetUser('EN', { marka: ['Kia'] });
+    await client.user.update({ data: { language: 'RU', totalPromptTokens: { increment: 5 } } });
+    expect(await client.user.findUnique()).toMatchObject({
+      language: 'RU',
+      preferences: { marka: ['Kia'] },
+    });
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * In-memory stand-in for the Prisma client used by the chat pipeline during evaluation:
+ * car variants come from the fixture catalog and are filtered by the same `where`
+ * objects CarsService builds (AND/OR/NOT, relations, contains/in/gte/lte/not).
+ * One fixture user is reset per conversation; provider logs are kept for inspection.
+ */
+
+import type { FixtureCatalog } from './eval.types';
+
+type Row = Record<string, any>;
+
+export interface FixtureUser {
+  id: string;
+  language: 'RU' | 'EN';
+  preferences: Row;
+}
+
+// ============================================
+// WHERE / ORDER BY EVALUATION
+// ============================================
+
+const FILTER_OPERATORS = new Set([
+  'equals',
+  'contains',
+  'startsWith',
+  'endsWith',
+  'in',
+  'notIn',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'not',
+  'mode',
+]);
+
+function isPlainObject(value: unknown): value is Row {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function isFieldFilter(filter: Row): boolean {
+  const keys = Object.keys(filter);
+  return keys.length > 0 && keys.every((key) => FILTER_OPERATORS.has(key));
+}
+
+function matchField(value: unknown, filter: unknown): boolean {
+  if (!isPlainObject(filter)) {
+    return value === filter;
+  }
+
+  const insensitive = filter.mode === 'insensitive';
+  const text = (input: unknown) =>
+    insensitive ? String(input).toLowerCase() : String(input);
+
+  for (const [operator, operand] of Object.entries(filter)) {
+    switch (operator) {
+      case 'mode':
+        break;
+      case 'equals':
+        if (value !== operand) return false;
+        break;
+      case 'contains':
+        if (value == null || !text(value).includes(text(operand))) return false;
+        break;
+      case 'startsWith':
+        if (value == null || !text(value).startsWith(text(operand))) return false;
+        break;
+      case 'endsWith':
+        if (value == null || !text(value).endsWith(text(operand))) return false;
+        break;
+      case 'in':
+        if (!(operand as unknown[]).includes(value)) return false;
+        break;
+      case 'notIn':
+        if (value == null || (operand as unknown[]).includes(value)) return false;
+        break;
+      case 'gt':
+        if (value == null || !((value as number) > (operand as number))) return false;
+        break;
+      case 'gte':
+        if (value == null || !((value as number) >= (operand as number))) return false;
+        break;
+      case 'lt':
+        if (value == null || !((value as number) < (operand as number))) return false;
+        break;
+      case 'lte':
+        if (value == null || !((value as number) <= (operand as number))) return false;
+        break;
+      case 'not':
+        // SQL semantics: NOT on a NULL column is not true either
+        if (operand === null) {
+          if (value === null || value === undefined) return false;
+        } else if (value === null || value === undefined) {
+          return false;
+        } else if (
+          matchField(value, isPlainObject(operand) ? { ...operand, mode: filter.mode } : operand)
+        ) {
+          return false;
+        }
+        break;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Does a row match a Prisma `where` object
+ */
+export function matchWhere(row: Row, where: Row | undefined): boolean {
+  if (!where) {
+    return true;
+  }
+
+  for (const [key, condition] of Object.entries(where)) {
+    if (condition === undefined) {
+      continue;
+    }
+
+    if (key === 'AND') {
+      const all = Array.isArray(condition) ? condition : [condition];
+      if (!all.every((item) => matchWhere(row, item))) return false;
+    } else if (key === 'OR') {
+      if (!(condition as Row[]).some((item) => matchWhere(row, item))) return false;
+    } else if (key === 'NOT') {
+      const none = Array.isArray(condition) ? condition : [condition];
+      if (none.some((item) => matchWhere(row, item))) return false;
+    } else if (isPlainObject(row[key])) {
+      // Relation filter (model: { brand: { ... } })
+      if (!matchWhere(row[key], condition)) return false;
+    } else if (isPlainObject(condition) && !isFieldFilter(condition)) {
+      return false; // Relation that isn't there
+    } else if (!matchField(row[key], condition)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Sort by a Prisma `orderBy` (nested relation fields, nulls last)
+ */
+function sortRows(rows: Row[], orderBy: Row | Row[] | undefined): Row[] {
+  const orders = (Array.isArray(orderBy) ? orderBy : orderBy ? [orderBy] : []).map((order) => {
+    const path: string[] = [];
+    let node: any = order;
+    while (isPlainObject(node) && !('sort' in node)) {
+      const [key] = Object.keys(node);
+      path.push(key);
+      node = node[key];
+    }
+    // { sort, nulls }: nulls always sort last here
+    const direction = isPlainObject(node) ? node.sort : node;
+    return { path, direction: direction === 'desc' ? -1 : 1 };
+  });
+
+  const get = (row: Row, path: string[]) => path.reduce((value, key) => value?.[key], row as any);
+
+  return [...rows].sort((a, b) => {
+    for (const { path, direction } of orders) {
+      const x = get(a, path);
+      const y = get(b, path);
+      if (x === y) continue;
+      if (x == null) return 1;
+      if (y == null) return -1;
+      return (x < y ? -1 : 1) * direction;
+    }
+    return 0;
+  });
+}
+
+// ============================================
+// CATALOG
+// ============================================
+
+/**
+ * Variant rows shaped like CarVariant with its model, brand and complectations.
+ * Power and engine volume are parsed from the name like the XML import does.
+ */
+export function buildVariantRows(catalog: FixtureCatalog): Row[] {
+  return catalog.brands.flatMap((brand) =>
+    brand.models.flatMap((model) =>
+      model.variants.map((variant) => {
+        const power = variant.name.match(/\((\d+)\s*л\.с\.\)/);
+        const volume = variant.name.match(/^(\d+\.\d)/);
+
+        return {
+          id: variant.id,
+          name: variant.name,
+          bodyType: variant.bodyType,
+          yearFrom: variant.yearFrom,
+          yearTo: variant.yearTo,
+          powerText: power ? `${power[1]} л.с.` : null,
+          kppText: variant.kppText,
+          powerHp: power ? Number(power[1]) : null,
+          engineVolume: volume ? Number(volume[1]) : null,
+          description: variant.description ?? null,
+          model: {
+            name: model.name,
+            brand: { name: brand.name, code: brand.code ?? brand.name.toUpperCase() },
+          },
+          complectations: (variant.complectations || []).map((name) => ({
+            complectation: { name },
+          })),
+        };
+      })
+    )
+  );
+}
+
+// ============================================
+// CLIENT
+// ============================================
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+export class FixtureDb {
+  readonly variants: Row[];
+  readonly brands: Array<{ name: string; models: Array<{ name: string }> }>;
+  readonly providerLogs: Row[] = [];
+  user: FixtureUser = { id: 'eval-user', language: 'RU', preferences: {} };
+
+  constructor(catalog: FixtureCatalog) {
+    this.variants = buildVariantRows(catalog);
+    this.brands = catalog.brands.map((brand) => ({
+      name: brand.name,
+      models: brand.models.map((model) => ({ name: model.name })),
+    }));
+  }
+
+  /**
+   * Start a new conversation with a fresh user
+   */
+  resetUser(language: 'RU' | 'EN' = 'RU', preferences: Row = {}): FixtureUser {
+    this.user = { id: this.user.id, language, preferences: clone(preferences) };
+    return this.user;
+  }
+
+  /**
+   * Prisma-shaped client: `globalThis.prismaGlobal` is set to it before the pipeline is loaded
+   */
+  createClient() {
+    const db = this;
+    const findVariants = (args: Row = {}) => {
+      const matched = sortRows(
+        db.variants.filter((row) => matchWhere(row, args.where)),
+        args.orderBy
+      );
+      const start = args.skip ?? 0;
+      return matched.slice(start, args.take === undefined ? undefined : start + args.take);
+    };
+
+    const client = {
+      carVariant: {
+        findMany: async (args?: Row) => findVariants(args).map(clone),
+        findFirst: async (args?: Row) => clone(findVariants(args)[0] ?? null),
+        findUnique: async (args: Row) =>
+          clone(db.variants.find((row) => row.id === args.where.id) ?? null),
+        count: async (args?: Row) => findVariants({ where: args?.where }).length,
+      },
+      carBrand: {
+        findMany: async () => clone(db.brands), // Grounding vocabulary
+      },
+      user: {
+        findUnique: async () => clone(db.user),
+        update: async (args: Row) => {
+          for (const [field, value] of Object.entries(args.data as Row)) {
+            // Usage totals ({ increment }) aren't tracked
+            if (!isPlainObject(value) || !('increment' in value)) {
+              (db.user as Row)[field] = clone(value);
+            }
+          }
+          return clone(db.user);
+        },
+      },
+      dialog: {
+        update: async () => ({}),
+      },
+      providerLog: {
+        create: async (args: Row) => {
+          db.providerLogs.push(args.data);
+          return args.data;
+        },
+      },
+      promptTemplate: {
+        findMany: async () => [], // Built-in prompts
+      },
+      $transaction: async (operations: unknown): Promise<unknown> =>
+        typeof operations === 'function' ? operations(client) : Promise.all(operations as unknown[]),
+      $on: () => undefined,
+      $disconnect: async () => undefined,
+    };
+
+    return client;
+  }
+}
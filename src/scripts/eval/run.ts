@@ -0,0 +1,96 @@
+/**
+ * Offline conversation evaluation
+ * Replays the golden dataset through the chat pipeline against the fixture catalog
+ * and writes JSON + HTML reports. No database or API keys needed in mock/recorded mode.
+ *
+ * Usage: npm run eval -- [--dataset=golden.v1] [--llm=mock|recorded] [--record] [--out=eval-reports]
+ *   --llm=mock      scripted replies from the dataset (default)
+ *   --llm=recorded  replies from dataset/recordings/<dataset>.json
+ *   --record        call the configured LLM (LLM_PROVIDER etc.) and save its replies as the recording
+ */
+
+import 'dotenv/config';
+import { existsSync, mkdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import { FixtureDb } from './fixture-db';
+import type { EvalLLMMode } from './eval.types';
+import { loadDataset, loadRecording, recordingPath } from './eval.dataset';
+import { renderHtmlReport, renderJsonReport } from './eval.report';
+
+function readArg(name: string, defaultValue: string): string {
+  const prefix = `--${name}=`;
+  const arg = process.argv.slice(2).find((value) => value.startsWith(prefix));
+  return arg ? arg.slice(prefix.length) : defaultValue;
+}
+
+async function main() {
+  const datasetName = readArg('dataset', 'golden.v1');
+  const record = process.argv.includes('--record');
+  const llm: EvalLLMMode = record ? 'recorded' : (readArg('llm', 'mock') as EvalLLMMode);
+  const outDir = readArg('out', 'eval-reports');
+
+  if (llm !== 'mock' && llm !== 'recorded') {
+    throw new Error(`Unknown --llm=${llm} (expected mock or recorded)`);
+  }
+
+  const { dataset, catalog } = loadDataset(datasetName);
+
+  // The pipeline must see the fixture catalog: point the Prisma singleton at it
+  // before anything that imports it is loaded
+  process.env.LOG_LEVEL ??= 'warn';
+  if (!record) {
+    process.env.LLM_PROVIDER = 'mock'; // Never reaches a live model
+  }
+  const db = new FixtureDb(catalog);
+  globalThis.prismaGlobal = db.createClient() as any;
+
+  const { runEvaluation } = await import('./eval.runner');
+  const { ScriptedEvalProvider, RecordedEvalProvider } = await import('./eval.provider');
+
+  const recordingFile = recordingPath(datasetName);
+  let provider;
+
+  if (llm === 'mock') {
+    provider = new ScriptedEvalProvider();
+  } else if (record) {
+    const { llmProvider } = await import('@/modules/ai/ai.provider');
+    provider = new RecordedEvalProvider(
+      { dataset: dataset.name, version: dataset.version, model: llmProvider.model, calls: {} },
+      llmProvider
+    );
+  } else {
+    if (!existsSync(recordingFile)) {
+      throw new Error(`No recording at ${recordingFile} (run with --record first)`);
+    }
+    provider = new RecordedEvalProvider(loadRecording(datasetName));
+  }
+
+  const report = await runEvaluation({ dataset, catalog, db, provider, llm });
+
+  if (record) {
+    mkdirSync(path.dirname(recordingFile), { recursive: true });
+    writeFileSync(
+      recordingFile,
+      JSON.stringify((provider as InstanceType<typeof RecordedEvalProvider>).recording, null, 2) +
+        '\n'
+    );
+    console.log(`Recording saved: ${recordingFile}`);
+  }
+
+  mkdirSync(outDir, { recursive: true });
+  const baseName = path.join(outDir, `${datasetName}.${llm}`);
+  writeFileSync(`${baseName}.json`, renderJsonReport(report));
+  writeFileSync(`${baseName}.html`, renderHtmlReport(report));
+
+  const { parser, retrieval, hallucination } = report.summary;
+  console.log(`Dataset: ${dataset.name} v${dataset.version} (LLM: ${llm})`);
+  console.log(`  Parser field accuracy: ${parser.fieldAccuracy} (exact ${parser.exactMatchRate}, ${parser.turns} turns)`);
+  console.log(`  Retrieval recall:      ${retrieval.recall} (pass ${retrieval.passRate}, ${retrieval.turns} turns)`);
+  console.log(`  Hallucination rate:    ${hallucination.rate} (${hallucination.ungroundedAnswers}/${hallucination.answers} answers)`);
+  console.log(`Report: ${baseName}.json, ${baseName}.html`);
+}
+
+main().catch((error) => {
+  console.error('Evaluation failed:', error);
+  process.exit(1);
+});
@@ -4,6 +4,7 @@
  */
 
 import { prisma } from '../shared/utils/prisma';
+import { embeddingsService } from '../modules/embeddings/embeddings.service';
 import { fetch } from 'undici';
 
 // Configuration
@@ -134,6 +135,7 @@ async function processBatch(batchSize: number): Promise<void> {
   let succeeded = 0;
   let failed = 0;
   const startTime = Date.now();
+  const describedIds: string[] = [];
 
   for (const car of cars) {
     if (shouldStop) {
@@ -155,6 +157,7 @@ async function processBatch(batchSize: number): Promise<void> {
         data: { description },
       });
 
+      describedIds.push(car.id);
       succeeded++;
 
       // Show progress
@@ -178,6 +181,12 @@ async function processBatch(batchSize: number): Promise<void> {
     }
   }
 
+  // New descriptions join semantic search right away (EMBEDDINGS_PROVIDER set)
+  if (embeddingsService.enabled && describedIds.length > 0) {
+    const embedded = await embeddingsService.embedVariants({ ids: describedIds });
+    console.log(`\n🧭 Embedded ${embedded.embedded} new descriptions (failed: ${embedded.failed})`);
+  }
+
   const duration = Math.floor((Date.now() - startTime) / 1000);
   console.log('\n');
   console.log('─'.repeat(80));
@@ -81,15 +81,22 @@ function parseYears(yearsStr: string): {
 
 function parsePowerAndKpp(name: string): {
   powerText: string | null;
+  powerHp: number | null;
+  engineVolume: number | null;
   kppText: string | null;
 } {
   const powerMatch = name.match(/\((\d+)\s*л\.с\.\)/);
   const powerText = powerMatch ? `${powerMatch[1]} л.с.` : null;
+  const powerHp = powerMatch ? parseInt(powerMatch[1], 10) : null;
+
+  // "2.8d AT (177 л.с.) 4WD" → 2.8
+  const volumeMatch = name.match(/^(\d+\.\d)/);
+  const engineVolume = volumeMatch ? parseFloat(volumeMatch[1]) : null;
 
   const kppMatch = name.match(/\b(MT|AT|CVT|AMT|ROBOT)\b/i);
   const kppText = kppMatch ? kppMatch[1].toUpperCase() : null;
 
-  return { powerText, kppText };
+  return { powerText, powerHp, engineVolume, kppText };
 }
 
 interface VariantData {
@@ -100,6 +107,8 @@ interface VariantData {
   yearFrom: number | null;
   yearTo: number | null;
   powerText: string | null;
+  powerHp: number | null;
+  engineVolume: number | null;
   kppText: string | null;
   meta: object;
   complectations: Array<{ extId: string; name: string }>;
@@ -154,7 +163,7 @@ async function importCatalog() {
 
         const yearsStr = Array.isArray(mod.years) ? mod.years[0] : '';
         const { yearFrom, yearTo } = parseYears(yearsStr);
-        const { powerText, kppText } = parsePowerAndKpp(variantName);
+        const { powerText, powerHp, engineVolume, kppText } = parsePowerAndKpp(variantName);
         const bodyType = Array.isArray(mod.body_type)
           ? mod.body_type[0]
           : null;
@@ -189,6 +198,8 @@ async function importCatalog() {
           yearFrom,
           yearTo,
           powerText,
+          powerHp,
+          engineVolume,
           kppText,
           meta,
           complectations,
@@ -303,6 +314,8 @@ async function importCatalog() {
     yearFrom: number | null;
     yearTo: number | null;
     powerText: string | null;
+    powerHp: number | null;
+    engineVolume: number | null;
     kppText: string | null;
     meta: object;
   }> = [];
@@ -323,6 +336,8 @@ async function importCatalog() {
       yearFrom: v.yearFrom,
       yearTo: v.yearTo,
       powerText: v.powerText,
+      powerHp: v.powerHp,
+      engineVolume: v.engineVolume,
       kppText: v.kppText,
       meta: v.meta,
     });
@@ -16,7 +16,7 @@ async function testRAG() {
     console.log('-'.repeat(60));
 
     const test1Results = await carsService.searchCarsForRAG({
-      marka: 'AC',
+      marka: ['AC'],
       model: 'COBRA',
       limit: 3,
     });
@@ -37,7 +37,7 @@ async function testRAG() {
     console.log('-'.repeat(60));
 
     const test2Results = await carsService.searchCarsForRAG({
-      marka: 'Abarth',
+      marka: ['Abarth'],
       limit: 5,
     });
 
@@ -51,7 +51,7 @@ async function testRAG() {
     console.log('-'.repeat(60));
 
     const test3Results = await carsService.searchCarsForRAG({
-      marka: 'Ferrari',
+      marka: ['Ferrari'],
       limit: 5,
     });
 
@@ -65,7 +65,7 @@ async function testRAG() {
     console.log('-'.repeat(60));
 
     const test4Results = await carsService.searchCarsForRAG({
-      kpp: 'AT',
+      kpp: ['AT'],
       yearFrom: 2010,
       limit: 5,
     });